@@ -0,0 +1,249 @@
+import { keccak_256 } from '@noble/hashes/sha3'
+import { bytesToHex, utf8ToBytes } from '@noble/hashes/utils'
+import { AddressCheck, Coin } from './schemas'
+import { AddressFormat, getChain, normalizeChain } from './chains'
+
+export { normalizeChain } from './chains'
+
+const BASE58_ALPHABET = '123456789ABCDEFGHJKLMNPQRSTUVWXYZabcdefghijkmnopqrstuvwxyz'
+
+// Decoded byte length of a base58 string, or null if it isn't base58
+const base58ByteLength = (value: string): number | null => {
+  const bytes: number[] = []
+  for (let i = 0; i < value.length; i++) {
+    let carry = BASE58_ALPHABET.indexOf(value[i])
+    if (carry < 0) return null
+    for (let j = 0; j < bytes.length; j++) {
+      carry += bytes[j] * 58
+      bytes[j] = carry & 0xff
+      carry >>= 8
+    }
+    while (carry > 0) {
+      bytes.push(carry & 0xff)
+      carry >>= 8
+    }
+  }
+
+  let leadingZeros = 0
+  while (leadingZeros < value.length && value[leadingZeros] === '1') leadingZeros++
+  return leadingZeros + bytes.length
+}
+
+const EVM_ADDRESS = /^0x[0-9a-fA-F]{40}$/
+
+// EIP-55 mixed-case checksum encoding
+export const toChecksumAddress = (address: string): string => {
+  const lower = address.toLowerCase().replace(/^0x/, '')
+  const hash = bytesToHex(keccak_256(utf8ToBytes(lower)))
+  let checksummed = '0x'
+  for (let i = 0; i < lower.length; i++) {
+    checksummed += parseInt(hash[i], 16) >= 8 ? lower[i].toUpperCase() : lower[i]
+  }
+  return checksummed
+}
+
+const BASE64_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/'
+
+// Unpadded base64 in either the standard or URL-safe alphabet
+const decodeBase64 = (value: string): number[] | null => {
+  const bytes: number[] = []
+  let buffer = 0
+  let bits = 0
+  for (let i = 0; i < value.length; i++) {
+    const digit = BASE64_ALPHABET.indexOf(value[i] === '-' ? '+' : value[i] === '_' ? '/' : value[i])
+    if (digit < 0) return null
+    buffer = (buffer << 6) | digit
+    bits += 6
+    if (bits >= 8) {
+      bits -= 8
+      bytes.push((buffer >> bits) & 0xff)
+    }
+  }
+  return bytes
+}
+
+const encodeBase64Url = (bytes: number[]): string => {
+  let encoded = ''
+  for (let i = 0; i < bytes.length; i += 3) {
+    const chunk = (bytes[i] << 16) | ((bytes[i + 1] ?? 0) << 8) | (bytes[i + 2] ?? 0)
+    const digits = Math.min(4, Math.ceil((bytes.length - i) * 8 / 6))
+    for (let j = 0; j < digits; j++) {
+      encoded += BASE64_ALPHABET[(chunk >> (18 - 6 * j)) & 0x3f]
+    }
+  }
+  return encoded.replace(/\+/g, '-').replace(/\//g, '_')
+}
+
+// CRC-16/XMODEM, the checksum on TON user-friendly addresses
+const crc16 = (bytes: number[]): number => {
+  let crc = 0
+  for (const byte of bytes) {
+    crc ^= byte << 8
+    for (let i = 0; i < 8; i++) {
+      crc = crc & 0x8000 ? ((crc << 1) ^ 0x1021) & 0xffff : (crc << 1) & 0xffff
+    }
+  }
+  return crc
+}
+
+// Bounceable, mainnet
+const TON_BOUNCEABLE_TAG = 0x11
+
+// User-friendly bounceable form of a TON account (workchain + 32-byte hash)
+const toTonFriendly = (workchain: number, hash: number[]): string => {
+  const body = [TON_BOUNCEABLE_TAG, workchain & 0xff, ...hash]
+  const crc = crc16(body)
+  return encodeBase64Url([...body, crc >> 8, crc & 0xff])
+}
+
+const TON_RAW_ADDRESS = /^(-?\d+):([0-9a-fA-F]{64})$/
+const TON_FRIENDLY_ADDRESS = /^[A-Za-z0-9+/_-]{48}$/
+
+interface ParsedAddress {
+  format: AddressFormat
+  // Canonical form, or null when the address has the right shape but a bad checksum
+  canonical: string | null
+}
+
+// Work out which format an address is in and canonicalize it: EIP-55 checksummed hex for EVM chains,
+// base58 as-is for Solana, bounceable user-friendly form for TON (raw `0:<hex>` addresses are converted)
+const parseAddress = (address: string): ParsedAddress | null => {
+  if (EVM_ADDRESS.test(address)) {
+    // All-lowercase or all-uppercase hex carries no checksum; mixed case must match EIP-55 exactly
+    const checksummed = toChecksumAddress(address)
+    const body = address.slice(2)
+    const hasChecksum = body !== body.toLowerCase() && body !== body.toUpperCase()
+    return { format: 'evm', canonical: hasChecksum && address !== checksummed ? null : checksummed }
+  }
+
+  const raw = TON_RAW_ADDRESS.exec(address)
+  if (raw) {
+    const hash = raw[2].match(/../g)!.map(pair => parseInt(pair, 16))
+    return { format: 'ton', canonical: toTonFriendly(parseInt(raw[1], 10), hash) }
+  }
+
+  if (TON_FRIENDLY_ADDRESS.test(address)) {
+    const bytes = decodeBase64(address)
+    if (bytes && bytes.length === 36) {
+      const crc = crc16(bytes.slice(0, 34))
+      const valid = bytes[34] === crc >> 8 && bytes[35] === (crc & 0xff)
+      return { format: 'ton', canonical: valid ? toTonFriendly(bytes[1] << 24 >> 24, bytes.slice(2, 34)) : null }
+    }
+  }
+
+  // Solana accounts are 32-byte public keys
+  if (base58ByteLength(address) === 32) {
+    return { format: 'base58', canonical: address }
+  }
+
+  return null
+}
+
+const FORMAT_LABELS: Record<AddressFormat, string> = {
+  base58: 'base58',
+  evm: 'hex',
+  ton: 'TON',
+}
+
+export interface AddressValidation {
+  // Canonical form, or null when the address can't be trusted for this chain
+  address: string | null
+  // Absent when the address is valid for the chain
+  check?: AddressCheck
+}
+
+// Validate an address against the chain's format in the registry and return its canonical form.
+// Addresses on chains outside the registry are kept but flagged as unverified.
+export function validateContractAddress(chain: string, rawAddress: string): AddressValidation {
+  const address = rawAddress.trim()
+  const info = getChain(chain)
+  const flag = (status: AddressCheck['status'], message: string, kept: string | null = null): AddressValidation => ({
+    address: kept,
+    check: { status, original: rawAddress, message },
+  })
+
+  if (!info) {
+    return flag('unknown_chain', `No address format known for chain ${chain}; kept unverified`, address)
+  }
+
+  const parsed = parseAddress(address)
+  if (!parsed) {
+    return flag('invalid', `Not a valid ${FORMAT_LABELS[info.addressFormat]} address`)
+  }
+  if (parsed.format !== info.addressFormat) {
+    return flag('chain_mismatch', `Got a ${FORMAT_LABELS[parsed.format]} address, which doesn't belong on ${info.name}`)
+  }
+  if (!parsed.canonical) {
+    return flag('invalid', 'Address checksum does not match')
+  }
+  return { address: parsed.canonical }
+}
+
+// What to do with a coin whose address is invalid or belongs to another chain:
+// 'flag' keeps the coin without the address, 'reject' drops the coin
+export type AddressMismatchPolicy = 'flag' | 'reject'
+
+export function getAddressMismatchPolicy(): AddressMismatchPolicy {
+  const policy = process.env.ADDRESS_MISMATCH_POLICY || 'flag'
+  if (policy !== 'flag' && policy !== 'reject') {
+    throw new Error(`Unknown ADDRESS_MISMATCH_POLICY: ${policy}`)
+  }
+  return policy
+}
+
+export type CoinIdentity = Pick<Coin, 'symbol' | 'chain' | 'contract_address'>
+
+// Stable identity for a coin: chain + contract address when known, otherwise chain + symbol.
+// Lowercased so it is safe as a storage key; distinct base58 addresses never differ by case alone in practice.
+export const coinKey = (coin: CoinIdentity): string =>
+  (coin.contract_address
+    ? `${normalizeChain(coin.chain)}:${coin.contract_address}`
+    : `${normalizeChain(coin.chain)}:$${coin.symbol}`
+  ).toLowerCase()
+
+// Whether two records describe the same coin. Records from before addresses were tracked,
+// or from a run where the model left the address out, fall back to matching on symbol.
+export const isSameCoin = (a: CoinIdentity, b: CoinIdentity): boolean => {
+  if (normalizeChain(a.chain) !== normalizeChain(b.chain)) return false
+  if (a.contract_address && b.contract_address) {
+    return a.contract_address.toLowerCase() === b.contract_address.toLowerCase()
+  }
+  return a.symbol.toLowerCase() === b.symbol.toLowerCase()
+}
+
+// Canonicalize chains and addresses for a provider's coins, flag or drop bad addresses per the
+// policy, and merge duplicates of the same token (keeping the first, i.e. the model's ranking)
+export function normalizeCoinIdentities<T extends Coin>(
+  coins: T[],
+  policy: AddressMismatchPolicy = getAddressMismatchPolicy()
+): { coins: T[], flagged: number, rejected: number } {
+  const seen = new Set<string>()
+  const result: T[] = []
+  let flagged = 0
+  let rejected = 0
+
+  for (const coin of coins) {
+    let normalized: T = { ...coin, chain: normalizeChain(coin.chain) }
+
+    if (coin.contract_address) {
+      const { address, check } = validateContractAddress(normalized.chain, coin.contract_address)
+      if (check && check.status !== 'unknown_chain') {
+        if (policy === 'reject') {
+          rejected++
+          continue
+        }
+        flagged++
+      }
+      normalized = { ...normalized, contract_address: address, ...(check ? { address_check: check } : {}) }
+    } else if (coin.contract_address === '') {
+      normalized = { ...normalized, contract_address: null }
+    }
+
+    const key = coinKey(normalized)
+    if (seen.has(key)) continue
+    seen.add(key)
+    result.push(normalized)
+  }
+
+  return { coins: result, flagged, rejected }
+}
@@ -0,0 +1,116 @@
+import { randomUUID } from 'crypto'
+import { AlertRecord, AlertRecordSchema, AlertType, Coin, Window } from './schemas'
+import { getKeyValueStore, KeyValueStore } from './kv'
+import { CoinIdentity, coinKey } from './addresses'
+
+const DEFAULT_RETENTION_DAYS = 30
+
+export const getRetentionMs = (): number => {
+  const days = parseFloat(process.env.ALERT_LEDGER_RETENTION_DAYS || '')
+  return (days > 0 ? days : DEFAULT_RETENTION_DAYS) * 24 * 60 * 60 * 1000
+}
+
+// Identity used for cooldowns: one alert stream per chain + contract address (or symbol when there is none),
+// plus a separate stream per custom rule so a user's rule isn't silenced by the global alerts
+export const alertKey = (coin: CoinIdentity, ruleId?: string): string =>
+  ruleId ? `${coinKey(coin)}#rule:${ruleId}` : coinKey(coin)
+
+export interface RecordOptions {
+  // The alert this one follows up on, for escalation updates
+  previous?: AlertRecord | null
+  escalationReason?: string
+  sentAt?: Date
+  // Custom rule that triggered the alert, as `<owner>/<id>`
+  ruleId?: string
+}
+
+// Persistent record of sent alerts. Entries are stored twice: `last:<coin>` for cooldown lookups
+// and `alert:<sent_at>:<id>` as an append-only history that sorts chronologically.
+export class AlertLedger {
+  private store: KeyValueStore
+
+  constructor(store: KeyValueStore) {
+    this.store = store
+  }
+
+  async record(coin: Coin, window: Window, alertType: AlertType, options: RecordOptions = {}): Promise<AlertRecord> {
+    const sentAt = options.sentAt ?? new Date()
+    const previous = options.previous ?? null
+    const entry: AlertRecord = {
+      id: randomUUID(),
+      symbol: coin.symbol,
+      chain: coin.chain,
+      contract_address: coin.contract_address,
+      window,
+      alert_type: alertType,
+      hype_score: coin.hype_score,
+      counts: coin.counts,
+      baseline: coin.baseline,
+      sentiment: coin.sentiment,
+      scoring_profile: coin.hype_breakdown?.profile,
+      sent_at_iso: sentAt.toISOString(),
+      kind: previous ? 'update' : 'new',
+      // Updates always point at the alert that opened the thread
+      parent_id: previous ? (previous.parent_id ?? previous.id) : null,
+      escalation_reason: options.escalationReason,
+      rule_id: options.ruleId,
+    }
+
+    await this.store.set(`alert:${entry.sent_at_iso}:${entry.id}`, entry)
+    await this.store.set(`last:${alertKey(coin, options.ruleId)}`, entry)
+    return entry
+  }
+
+  async getLastAlert(coin: CoinIdentity, ruleId?: string): Promise<AlertRecord | null> {
+    const entry = await this.store.get<unknown>(`last:${alertKey(coin, ruleId)}`)
+    const parsed = AlertRecordSchema.safeParse(entry)
+    return parsed.success ? parsed.data : null
+  }
+
+  // Alerts sent at or after `since`, oldest first
+  async list(since?: Date): Promise<AlertRecord[]> {
+    const sinceIso = since ? since.toISOString() : ''
+    const keys = (await this.store.list('alert:')).filter(key => key.slice('alert:'.length) >= sinceIso)
+    const records: AlertRecord[] = []
+
+    for (const key of keys) {
+      const parsed = AlertRecordSchema.safeParse(await this.store.get<unknown>(key))
+      if (parsed.success) records.push(parsed.data)
+    }
+
+    return records
+  }
+
+  // Drop history and cooldown entries older than the retention period
+  async prune(now: number = Date.now()): Promise<number> {
+    const cutoffIso = new Date(now - getRetentionMs()).toISOString()
+    let removed = 0
+
+    for (const key of await this.store.list('alert:')) {
+      if (key.slice('alert:'.length) < cutoffIso) {
+        await this.store.delete(key)
+        removed++
+      }
+    }
+
+    for (const key of await this.store.list('last:')) {
+      const entry = await this.store.get<AlertRecord>(key)
+      if (!entry || entry.sent_at_iso < cutoffIso) {
+        await this.store.delete(key)
+        removed++
+      }
+    }
+
+    return removed
+  }
+}
+
+// Singleton instance
+let ledgerInstance: AlertLedger | null = null
+
+export function getAlertLedger(): AlertLedger {
+  if (!ledgerInstance) {
+    ledgerInstance = new AlertLedger(getKeyValueStore('alert-ledger'))
+  }
+  return ledgerInstance
+}
@@ -0,0 +1,273 @@
+import {
+  AlertOutcome,
+  AlertOutcomeSchema,
+  AlertRecord,
+  CheckpointResult,
+  CoinSnapshot,
+  OutcomeCheckpoint,
+  OutcomeDimension,
+  OutcomeReport,
+  OutcomeReportGroup,
+  OutcomeStatus,
+  ScoringProfile,
+} from './schemas'
+import { AlertLedger, getAlertLedger, getRetentionMs } from './alert-ledger'
+import { getKeyValueStore, KeyValueStore } from './kv'
+import { getSnapshotStore, SnapshotStore } from './snapshots'
+import { isSameCoin } from './addresses'
+import { getScoringProfile, getScoringProfileNames, scoreCoin } from './scoring'
+
+const MINUTE_MS = 60 * 1000
+
+// When each checkpoint falls after the alert, and how far from that moment a snapshot may be to stand in for it
+export const OUTCOME_CHECKPOINTS: Record<OutcomeCheckpoint, { offsetMs: number, toleranceMs: number }> = {
+  '15m': { offsetMs: 15 * MINUTE_MS, toleranceMs: 5 * MINUTE_MS },
+  '1h': { offsetMs: 60 * MINUTE_MS, toleranceMs: 10 * MINUTE_MS },
+  '4h': { offsetMs: 4 * 60 * MINUTE_MS, toleranceMs: 30 * MINUTE_MS },
+}
+
+const CHECKPOINTS = Object.keys(OUTCOME_CHECKPOINTS) as OutcomeCheckpoint[]
+
+// Alerts older than this aren't revisited by the tracking job
+const LOOKBACK_MS = 24 * 60 * MINUTE_MS
+
+export interface OutcomeThresholds {
+  // Tweets at the checkpoint relative to alert time at or above which momentum counts as continued...
+  continued_min_tweet_ratio: number
+  // ...provided hype hasn't fallen by more than this
+  continued_max_hype_drop: number
+  // Tweets at or below this ratio, or a hype drop at least this large, count as reversed
+  reversed_max_tweet_ratio: number
+  reversed_min_hype_drop: number
+}
+
+export const DEFAULT_OUTCOME_THRESHOLDS: OutcomeThresholds = {
+  continued_min_tweet_ratio: 1,
+  continued_max_hype_drop: 0.05,
+  reversed_max_tweet_ratio: 0.5,
+  reversed_min_hype_drop: 0.2,
+}
+
+export const getOutcomeThresholds = (): OutcomeThresholds => {
+  const continuedRatio = parseFloat(process.env.OUTCOME_CONTINUED_TWEET_RATIO || '')
+  const reversedRatio = parseFloat(process.env.OUTCOME_REVERSED_TWEET_RATIO || '')
+  const reversedDrop = parseFloat(process.env.OUTCOME_REVERSED_HYPE_DROP || '')
+  return {
+    ...DEFAULT_OUTCOME_THRESHOLDS,
+    continued_min_tweet_ratio: continuedRatio > 0 ? continuedRatio : DEFAULT_OUTCOME_THRESHOLDS.continued_min_tweet_ratio,
+    reversed_max_tweet_ratio: reversedRatio > 0 ? reversedRatio : DEFAULT_OUTCOME_THRESHOLDS.reversed_max_tweet_ratio,
+    reversed_min_hype_drop: reversedDrop > 0 ? reversedDrop : DEFAULT_OUTCOME_THRESHOLDS.reversed_min_hype_drop,
+  }
+}
+
+export const classifyOutcome = (hypeDelta: number, tweetRatio: number, thresholds: OutcomeThresholds): OutcomeStatus => {
+  if (tweetRatio <= thresholds.reversed_max_tweet_ratio || -hypeDelta >= thresholds.reversed_min_hype_drop) return 'reversed'
+  if (tweetRatio >= thresholds.continued_min_tweet_ratio && -hypeDelta <= thresholds.continued_max_hype_drop) return 'continued'
+  return 'fizzled'
+}
+
+// Hype at the checkpoint under the profile the alert was scored with, so a profile change doesn't read as momentum
+const hypeUnderAlertProfile = (snapshot: CoinSnapshot, alert: AlertRecord, profile?: ScoringProfile): number => {
+  if (profile) return scoreCoin(snapshot, profile).hype_score
+  if (!alert.scoring_profile || !getScoringProfileNames().includes(alert.scoring_profile)) {
+    return snapshot.hype_score
+  }
+  return scoreCoin(snapshot, getScoringProfile(alert.scoring_profile)).hype_score
+}
+
+export interface TrackReport {
+  alerts: number
+  resolved: number
+  complete: number
+}
+
+// Re-checks sent alerts against snapshot history at each checkpoint. Outcomes are stored
+// as `outcome:<sent_at>:<alert id>` so they sort and expire alongside the alert ledger.
+export class AlertOutcomeTracker {
+  private store: KeyValueStore
+  private ledger: AlertLedger
+  private snapshots: SnapshotStore
+  private thresholds: OutcomeThresholds
+
+  constructor(
+    store: KeyValueStore,
+    ledger: AlertLedger = getAlertLedger(),
+    snapshots: SnapshotStore = getSnapshotStore(),
+    thresholds: OutcomeThresholds = getOutcomeThresholds()
+  ) {
+    this.store = store
+    this.ledger = ledger
+    this.snapshots = snapshots
+    this.thresholds = thresholds
+  }
+
+  // Resolve every checkpoint that has come due for recent alerts
+  async track(now: number = Date.now()): Promise<TrackReport> {
+    const alerts = await this.ledger.list(new Date(now - LOOKBACK_MS))
+    const report: TrackReport = { alerts: alerts.length, resolved: 0, complete: 0 }
+
+    for (const alert of alerts) {
+      const outcome = await this.get(alert) ?? { alert_id: alert.id, sent_at_iso: alert.sent_at_iso, checkpoints: {} }
+      let changed = false
+
+      for (const checkpoint of CHECKPOINTS) {
+        if (outcome.checkpoints[checkpoint]) continue
+        const result = await this.check(alert, checkpoint, now)
+        if (result) {
+          outcome.checkpoints[checkpoint] = result
+          report.resolved++
+          changed = true
+        }
+      }
+
+      if (changed) {
+        await this.store.set(this.key(alert), outcome, getRetentionMs())
+      }
+      if (CHECKPOINTS.every(checkpoint => outcome.checkpoints[checkpoint])) {
+        report.complete++
+      }
+    }
+
+    return report
+  }
+
+  // Compare the alert with the snapshot closest to the checkpoint. Waits until the tolerance
+  // window has passed so the closest snapshot is final. `profile` overrides the alert's recorded one.
+  async check(
+    alert: AlertRecord,
+    checkpoint: OutcomeCheckpoint,
+    now: number = Date.now(),
+    profile?: ScoringProfile
+  ): Promise<CheckpointResult | null> {
+    const { offsetMs, toleranceMs } = OUTCOME_CHECKPOINTS[checkpoint]
+    const target = new Date(alert.sent_at_iso).getTime() + offsetMs
+    if (now < target + toleranceMs) return null
+
+    // Query the whole window, not just this coin, to tell "no data recorded" from "dropped out of the trends"
+    const around = await this.snapshots.query({
+      window: alert.window,
+      from: new Date(target - toleranceMs).toISOString(),
+      to: new Date(target + toleranceMs).toISOString(),
+      limit: 5000,
+    })
+
+    const empty = { snapshot_at_iso: null, hype_score: null, tweet_count: null, hype_delta: null, tweet_ratio: null }
+    const checkedAtIso = new Date(now).toISOString()
+
+    if (around.length === 0) {
+      return { status: 'no_data', checked_at_iso: checkedAtIso, ...empty }
+    }
+
+    const forCoin = around.filter(snapshot => isSameCoin(snapshot, alert))
+    if (forCoin.length === 0) {
+      // Other coins were recorded but this one was no longer trending
+      return { status: 'fizzled', checked_at_iso: checkedAtIso, ...empty }
+    }
+
+    const distance = (snapshot: CoinSnapshot) => Math.abs(new Date(snapshot.generated_at_iso).getTime() - target)
+    const closest = forCoin.reduce((best, snapshot) => distance(snapshot) < distance(best) ? snapshot : best)
+
+    const hypeScore = hypeUnderAlertProfile(closest, alert, profile)
+    const hypeDelta = hypeScore - alert.hype_score
+    // A zero tweet count at alert time can't shrink; treat any mentions as holding steady
+    const tweetRatio = alert.counts.tweet_count > 0 ? closest.counts.tweet_count / alert.counts.tweet_count : 1
+
+    return {
+      status: classifyOutcome(hypeDelta, tweetRatio, this.thresholds),
+      checked_at_iso: checkedAtIso,
+      snapshot_at_iso: closest.generated_at_iso,
+      hype_score: hypeScore,
+      tweet_count: closest.counts.tweet_count,
+      hype_delta: hypeDelta,
+      tweet_ratio: tweetRatio,
+    }
+  }
+
+  async get(alert: AlertRecord): Promise<AlertOutcome | null> {
+    const parsed = AlertOutcomeSchema.safeParse(await this.store.get<unknown>(this.key(alert)))
+    return parsed.success ? parsed.data : null
+  }
+
+  // Outcomes for alerts sent at or after `since`, keyed by alert id
+  async list(since?: Date): Promise<Record<string, AlertOutcome>> {
+    const sinceIso = since ? since.toISOString() : ''
+    const keys = (await this.store.list('outcome:')).filter(key => key.slice('outcome:'.length) >= sinceIso)
+    const outcomes: Record<string, AlertOutcome> = {}
+
+    for (const key of keys) {
+      const parsed = AlertOutcomeSchema.safeParse(await this.store.get<unknown>(key))
+      if (parsed.success) outcomes[parsed.data.alert_id] = parsed.data
+    }
+
+    return outcomes
+  }
+
+  private key(alert: AlertRecord): string {
+    return `outcome:${alert.sent_at_iso}:${alert.id}`
+  }
+}
+
+const DIMENSIONS: Record<OutcomeDimension, (alert: AlertRecord) => string> = {
+  alert_type: alert => alert.alert_type,
+  window: alert => alert.window,
+  chain: alert => alert.chain.toUpperCase(),
+  scoring_profile: alert => alert.scoring_profile ?? 'unknown',
+}
+
+const summarize = (key: string, alerts: AlertRecord[], outcomes: Record<string, AlertOutcome>, checkpoint: OutcomeCheckpoint): OutcomeReportGroup => {
+  const group: OutcomeReportGroup = { key, alerts: alerts.length, continued: 0, fizzled: 0, reversed: 0, no_data: 0, pending: 0, hit_rate: null }
+
+  for (const alert of alerts) {
+    const result = outcomes[alert.id]?.checkpoints[checkpoint]
+    if (result) {
+      group[result.status]++
+    } else {
+      group.pending++
+    }
+  }
+
+  const judged = group.continued + group.fizzled + group.reversed
+  group.hit_rate = judged > 0 ? group.continued / judged : null
+  return group
+}
+
+// Hit rate at one checkpoint, overall and sliced by alert type, window, chain and scoring profile
+export function buildOutcomeReport(
+  alerts: AlertRecord[],
+  outcomes: Record<string, AlertOutcome>,
+  checkpoint: OutcomeCheckpoint,
+  from: Date,
+  to: Date
+): OutcomeReport {
+  const by = {} as OutcomeReport['by']
+
+  for (const dimension of Object.keys(DIMENSIONS) as OutcomeDimension[]) {
+    const groups: Record<string, AlertRecord[]> = {}
+    for (const alert of alerts) {
+      const key = DIMENSIONS[dimension](alert)
+      if (!groups[key]) groups[key] = []
+      groups[key].push(alert)
+    }
+    by[dimension] = Object.keys(groups)
+      .map(key => summarize(key, groups[key], outcomes, checkpoint))
+      .sort((a, b) => b.alerts - a.alerts)
+  }
+
+  return {
+    checkpoint,
+    from_iso: from.toISOString(),
+    to_iso: to.toISOString(),
+    overall: summarize('all', alerts, outcomes, checkpoint),
+    by,
+  }
+}
+
+// Singleton instance
+let trackerInstance: AlertOutcomeTracker | null = null
+
+export function getAlertOutcomeTracker(): AlertOutcomeTracker {
+  if (!trackerInstance) {
+    trackerInstance = new AlertOutcomeTracker(getKeyValueStore('alert-outcomes'))
+  }
+  return trackerInstance
+}
@@ -0,0 +1,40 @@
+import { AlertRules, AlertType, Coin } from './schemas'
+import { evaluatePrePump, getPrePumpThresholds, isPrePump } from './pre-pump'
+import { evaluateFudSpike, getFudSpikeThresholds, isFudSpike } from './fud'
+import { getMinConfluence } from './confluence'
+import { isAccelerating } from './velocity'
+
+// Only high-hype coins alert as trending, and only the top few per cycle to avoid spam
+export const DEFAULT_TRENDING_MIN_HYPE = 0.5
+export const DEFAULT_MAX_TRENDING_PER_CYCLE = 3
+// Accelerating coins are capped the same way, fastest acceleration first
+export const DEFAULT_MAX_ACCELERATING_PER_CYCLE = 3
+
+export const getAlertRules = (): AlertRules => ({
+  pre_pump: getPrePumpThresholds(),
+  fud_spike: getFudSpikeThresholds(),
+  trending_min_hype: DEFAULT_TRENDING_MIN_HYPE,
+  max_trending_per_cycle: DEFAULT_MAX_TRENDING_PER_CYCLE,
+})
+
+// Hype in a single window is noisy: trending alerts also need the coin confirmed across windows. Coins
+// without confluence (e.g. replayed snapshots in a backtest) aren't gated.
+export const lacksConfluence = (coin: Coin, minConfluence: number = getMinConfluence()): boolean =>
+  coin.confluence !== undefined && coin.confluence.score < minConfluence
+
+// Which alert a coin qualifies for, if any. Without explicit rules the classifications attached by
+// discover-trends are used; the backtester passes rules to try alternative thresholds.
+export function selectAlertType(coin: Coin, rules?: AlertRules): AlertType | null {
+  const prePump = rules ? evaluatePrePump(coin, rules.pre_pump).is_pre_pump : isPrePump(coin)
+  if (prePump) return 'pre_pump'
+
+  // FUD spikes alert regardless of hype: the sentiment penalty deliberately keeps their score low
+  const fudSpike = rules ? evaluateFudSpike(coin, rules.fud_spike).is_fud_spike : isFudSpike(coin)
+  if (fudSpike) return 'fud_spike'
+
+  // Mentions speeding up between runs alert on their own, whatever the growth against baseline
+  if (isAccelerating(coin)) return 'accelerating'
+
+  const minHype = rules ? rules.trending_min_hype : DEFAULT_TRENDING_MIN_HYPE
+  return coin.hype_score >= minHype && !lacksConfluence(coin) ? 'trending' : null
+}
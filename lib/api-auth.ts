@@ -0,0 +1,38 @@
+import { timingSafeEqual } from 'crypto'
+
+// Watchlists and custom rules decide where alerts are posted, so writing them takes the shared
+// API_WRITE_TOKEN as `Authorization: Bearer <token>`. Reads stay open.
+export const getApiWriteToken = (): string | null => process.env.API_WRITE_TOKEN || null
+
+export interface WriteAccessDenied {
+  statusCode: 401 | 403
+  error: string
+  message: string
+}
+
+const readBearerToken = (headers: Record<string, string | undefined>): string | null => {
+  const value = headers.authorization ?? headers.Authorization
+  const match = value?.match(/^Bearer\s+(.+)$/i)
+  return match ? match[1].trim() : null
+}
+
+const tokensMatch = (given: string, expected: string): boolean => {
+  const a = Buffer.from(given)
+  const b = Buffer.from(expected)
+  return a.length === b.length && timingSafeEqual(a, b)
+}
+
+// Null when the request may write; without API_WRITE_TOKEN every write is refused
+export function checkWriteAccess(headers: Record<string, string | undefined>): WriteAccessDenied | null {
+  const expected = getApiWriteToken()
+  if (!expected) {
+    return { statusCode: 403, error: 'Writes disabled', message: 'Set API_WRITE_TOKEN to enable writes' }
+  }
+
+  const given = readBearerToken(headers)
+  if (!given || !tokensMatch(given, expected)) {
+    return { statusCode: 401, error: 'Unauthorized', message: 'Send the API write token as "Authorization: Bearer <token>"' }
+  }
+
+  return null
+}
@@ -0,0 +1,384 @@
+import {
+  AlertOutcome,
+  AlertRecord,
+  AlertRules,
+  AlertType,
+  BacktestRules,
+  Coin,
+  CoinSnapshot,
+  OutcomeCheckpoint,
+  OutcomeReportGroup,
+  ScoringProfile,
+  Velocity,
+  Window,
+} from './schemas'
+import { AlertLedger, alertKey } from './alert-ledger'
+import { AlertOutcomeTracker, buildOutcomeReport, OUTCOME_CHECKPOINTS } from './alert-outcomes'
+import { DEFAULT_MAX_ACCELERATING_PER_CYCLE, getAlertRules, selectAlertType } from './alert-rules'
+import { CooldownDecision, CooldownRules, evaluateCooldown, getCooldownRules } from './cooldown'
+import { coinKey } from './addresses'
+import { attachConfluence } from './confluence'
+import { computeVelocity, getAccelerationThresholds, getVelocityLookbackMs, getVelocityMaxGapMs } from './velocity'
+import { CACHE_POLICIES } from './trend-cache'
+import { MemoryKeyValueStore } from './kv'
+import { MemorySnapshotStore, SnapshotStore } from './snapshots'
+import { scoreCoin } from './scoring'
+
+// send-alerts runs every 2 minutes over these windows; the replay groups snapshots into cycles the same way
+export const DEFAULT_CYCLE_MS = 2 * 60 * 1000
+export const DEFAULT_BACKTEST_WINDOWS: Window[] = ['1m', '5m', '15m']
+
+const CHECKPOINTS = Object.keys(OUTCOME_CHECKPOINTS) as OutcomeCheckpoint[]
+
+// Outcomes need history past the end of the range, up to the last checkpoint
+const OUTCOME_HORIZON_MS = Math.max(...CHECKPOINTS.map(c => OUTCOME_CHECKPOINTS[c].offsetMs + OUTCOME_CHECKPOINTS[c].toleranceMs))
+
+// A scoring profile plus the rules that turn scores into alerts
+export interface BacktestScenario {
+  name: string
+  profile: ScoringProfile
+  rules: AlertRules
+  cooldown: CooldownRules
+}
+
+export interface ScenarioResult {
+  name: string
+  profile: string
+  rules: AlertRules
+  cooldown_minutes: number
+  alerts: number
+  updates: number
+  coins: number
+  by_type: Partial<Record<AlertType, number>>
+  outcomes: Record<OutcomeCheckpoint, { overall: OutcomeReportGroup, by_alert_type: OutcomeReportGroup[] }>
+}
+
+export interface CoinTiming {
+  coin: string
+  candidate_first_iso: string
+  reference_first_iso: string
+  // Positive when the candidate alerted first
+  lead_minutes: number
+}
+
+export interface TimingComparison {
+  // Real alerts from the ledger when there are any, otherwise a replay of the current settings
+  reference: 'ledger' | 'current'
+  matched: number
+  median_lead_minutes: number | null
+  candidate_only: string[]
+  reference_only: string[]
+  coins: CoinTiming[]
+}
+
+export interface BacktestReport {
+  from_iso: string
+  to_iso: string
+  windows: Window[]
+  snapshots: number
+  cycles: number
+  current: ScenarioResult
+  candidate: ScenarioResult
+  timing: TimingComparison
+}
+
+// Layer a rules file over the current settings
+export function applyBacktestRules(
+  overrides: BacktestRules,
+  rules: AlertRules = getAlertRules(),
+  cooldown: CooldownRules = getCooldownRules()
+): { rules: AlertRules, cooldown: CooldownRules } {
+  return {
+    rules: {
+      pre_pump: { ...rules.pre_pump, ...overrides.pre_pump },
+      fud_spike: { ...rules.fud_spike, ...overrides.fud_spike },
+      trending_min_hype: overrides.trending_min_hype ?? rules.trending_min_hype,
+      max_trending_per_cycle: overrides.max_trending_per_cycle ?? rules.max_trending_per_cycle,
+    },
+    cooldown: {
+      cooldownMs: overrides.cooldown?.minutes !== undefined ? overrides.cooldown.minutes * 60 * 1000 : cooldown.cooldownMs,
+      hypeEscalationDelta: overrides.cooldown?.hype_escalation_delta ?? cooldown.hypeEscalationDelta,
+      kolEscalationDelta: overrides.cooldown?.kol_escalation_delta ?? cooldown.kolEscalationDelta,
+    },
+  }
+}
+
+// Rebuild a coin from a snapshot, rescored under the scenario's profile. Tweets and text aren't stored, and nothing here reads them.
+const toCoin = (snapshot: CoinSnapshot, profile: ScoringProfile, velocity?: Velocity): Coin => {
+  const { hype_score, breakdown } = scoreCoin(snapshot, profile)
+  return {
+    symbol: snapshot.symbol,
+    chain: snapshot.chain,
+    name: snapshot.name,
+    contract_address: snapshot.contract_address,
+    cashtags: [],
+    hashtags: [],
+    top_tweets: [],
+    counts: snapshot.counts,
+    baseline: snapshot.baseline,
+    sentiment: snapshot.sentiment,
+    grok_hype: snapshot.grok_hype,
+    reason_short: '',
+    hype_score,
+    hype_breakdown: breakdown,
+    velocity,
+  }
+}
+
+// Snapshots don't keep velocity, so work it out for each one from the same coin's earlier runs of its window,
+// the way discover-trends attaches it live. `snapshots` must be sorted oldest first.
+const computeReplayVelocities = (snapshots: CoinSnapshot[]): Map<CoinSnapshot, Velocity> => {
+  const thresholds = getAccelerationThresholds()
+  const maxGapMs = getVelocityMaxGapMs()
+  const lookbackMs = getVelocityLookbackMs()
+  const earlierRuns: Record<string, CoinSnapshot[]> = {}
+  const velocities = new Map<CoinSnapshot, Velocity>()
+
+  for (const snapshot of snapshots) {
+    const key = `${snapshot.window}|${coinKey(snapshot)}`
+    const fromIso = new Date(new Date(snapshot.generated_at_iso).getTime() - lookbackMs).toISOString()
+    const history = (earlierRuns[key] ?? []).filter(run => run.generated_at_iso >= fromIso)
+    velocities.set(snapshot, computeVelocity(snapshot, snapshot.window, history, thresholds, maxGapMs))
+    earlierRuns[key] = [...history, snapshot]
+  }
+  return velocities
+}
+
+// Group snapshots into send-alerts cycles, oldest first
+const groupIntoCycles = (snapshots: CoinSnapshot[], cycleMs: number): CoinSnapshot[][] => {
+  const cycles: Record<number, CoinSnapshot[]> = {}
+  for (const snapshot of snapshots) {
+    const slot = Math.floor(new Date(snapshot.generated_at_iso).getTime() / cycleMs)
+    if (!cycles[slot]) cycles[slot] = []
+    cycles[slot].push(snapshot)
+  }
+  return Object.keys(cycles).map(Number).sort((a, b) => a - b).map(slot => cycles[slot])
+}
+
+// Replay snapshot history the way send-alerts would have seen it. Each cycle sees every window's latest run
+// (a cycle without a new run gets the cached one until it passes its stale limit), with confluence across the
+// windows and velocity from earlier runs attached. Then the best window per coin, classification, cooldown and
+// the accelerating and trending caps, with the alerts recorded in a throwaway ledger.
+export async function replayAlerts(
+  snapshots: CoinSnapshot[],
+  scenario: BacktestScenario,
+  cycleMs: number = DEFAULT_CYCLE_MS
+): Promise<AlertRecord[]> {
+  const ledger = new AlertLedger(new MemoryKeyValueStore())
+  const sorted = [...snapshots].sort((a, b) => a.generated_at_iso.localeCompare(b.generated_at_iso))
+  const velocities = computeReplayVelocities(sorted)
+  const latestRuns: Partial<Record<Window, { generatedAtMs: number, snapshots: CoinSnapshot[] }>> = {}
+
+  for (const cycle of groupIntoCycles(sorted, cycleMs)) {
+    const sentAt = new Date(cycle.reduce((latest, s) => s.generated_at_iso > latest ? s.generated_at_iso : latest, ''))
+
+    for (const snapshot of cycle) {
+      const generatedAtMs = new Date(snapshot.generated_at_iso).getTime()
+      const latest = latestRuns[snapshot.window]
+      if (!latest || generatedAtMs > latest.generatedAtMs) {
+        latestRuns[snapshot.window] = { generatedAtMs, snapshots: [snapshot] }
+      } else if (generatedAtMs === latest.generatedAtMs) {
+        latest.snapshots.push(snapshot)
+      }
+    }
+
+    const fetched: Partial<Record<Window, Coin[]>> = {}
+    for (const window of Object.keys(latestRuns) as Window[]) {
+      const run = latestRuns[window]
+      const policy = CACHE_POLICIES[window]
+      if (run && sentAt.getTime() - run.generatedAtMs <= policy.ttlMs + policy.staleMs) {
+        fetched[window] = run.snapshots.map(snapshot => toCoin(snapshot, scenario.profile, velocities.get(snapshot)))
+      }
+    }
+    const leaderboards = attachConfluence(fetched)
+
+    const best: Record<string, { coin: Coin, window: Window }> = {}
+    for (const window of Object.keys(leaderboards) as Window[]) {
+      for (const coin of leaderboards[window] ?? []) {
+        const key = alertKey(coin)
+        if (!best[key] || coin.hype_score > best[key].coin.hype_score) {
+          best[key] = { coin, window }
+        }
+      }
+    }
+
+    const candidates: Array<{ coin: Coin, window: Window, alertType: AlertType, decision: CooldownDecision }> = []
+    for (const { coin, window } of Object.values(best)) {
+      const alertType = selectAlertType(coin, scenario.rules)
+      if (!alertType) continue
+
+      const lastAlert = await ledger.getLastAlert(coin)
+      const decision = evaluateCooldown(coin, alertType, lastAlert, scenario.cooldown, sentAt.getTime())
+      if (decision.send) candidates.push({ coin, window, alertType, decision })
+    }
+
+    const accelerating = candidates
+      .filter(c => c.alertType === 'accelerating')
+      .sort((a, b) => (b.coin.velocity?.acceleration ?? 0) - (a.coin.velocity?.acceleration ?? 0))
+      .slice(0, DEFAULT_MAX_ACCELERATING_PER_CYCLE)
+    const trending = candidates
+      .filter(c => c.alertType === 'trending')
+      .sort((a, b) => b.coin.hype_score - a.coin.hype_score)
+      .slice(0, scenario.rules.max_trending_per_cycle)
+    const sent = [
+      ...candidates.filter(c => c.alertType === 'pre_pump'),
+      ...candidates.filter(c => c.alertType === 'fud_spike'),
+      ...accelerating,
+      ...trending,
+    ]
+
+    for (const { coin, window, alertType, decision } of sent) {
+      const isUpdate = decision.kind === 'update'
+      await ledger.record(coin, window, alertType, {
+        previous: isUpdate ? decision.previous : null,
+        escalationReason: isUpdate ? decision.reason : undefined,
+        sentAt,
+      })
+    }
+  }
+
+  return ledger.list()
+}
+
+// Also the grouping key, so tokens sharing a symbol are told apart by a shortened address
+const coinLabel = (alert: AlertRecord): string => {
+  const address = alert.contract_address ? ` ${alert.contract_address.slice(0, 6)}…${alert.contract_address.slice(-4)}` : ''
+  return `$${alert.symbol} (${alert.chain.toUpperCase()}${address})`
+}
+
+const firstAlerts = (alerts: AlertRecord[]): Record<string, AlertRecord> => {
+  const first: Record<string, AlertRecord> = {}
+  for (const alert of alerts) {
+    const key = coinLabel(alert)
+    if (!first[key] || alert.sent_at_iso < first[key].sent_at_iso) first[key] = alert
+  }
+  return first
+}
+
+// When each coin first alerted under the candidate settings versus the reference
+export function compareTiming(
+  candidate: AlertRecord[],
+  reference: AlertRecord[],
+  referenceKind: TimingComparison['reference']
+): TimingComparison {
+  const candidateFirst = firstAlerts(candidate)
+  const referenceFirst = firstAlerts(reference)
+
+  const coins: CoinTiming[] = Object.keys(candidateFirst)
+    .filter(coin => referenceFirst[coin])
+    .map(coin => ({
+      coin,
+      candidate_first_iso: candidateFirst[coin].sent_at_iso,
+      reference_first_iso: referenceFirst[coin].sent_at_iso,
+      lead_minutes: (new Date(referenceFirst[coin].sent_at_iso).getTime() - new Date(candidateFirst[coin].sent_at_iso).getTime()) / 60000,
+    }))
+    .sort((a, b) => b.lead_minutes - a.lead_minutes)
+
+  const leads = coins.map(c => c.lead_minutes).sort((a, b) => a - b)
+  const mid = Math.floor(leads.length / 2)
+  const median = leads.length === 0 ? null : leads.length % 2 ? leads[mid] : (leads[mid - 1] + leads[mid]) / 2
+
+  return {
+    reference: referenceKind,
+    matched: coins.length,
+    median_lead_minutes: median,
+    candidate_only: Object.keys(candidateFirst).filter(coin => !referenceFirst[coin]).sort(),
+    reference_only: Object.keys(referenceFirst).filter(coin => !candidateFirst[coin]).sort(),
+    coins,
+  }
+}
+
+async function summarizeScenario(
+  scenario: BacktestScenario,
+  alerts: AlertRecord[],
+  history: SnapshotStore,
+  from: Date,
+  to: Date,
+  now: number
+): Promise<ScenarioResult> {
+  // Same checks as the live tracker, against the loaded history, scoring with the scenario's profile
+  const tracker = new AlertOutcomeTracker(new MemoryKeyValueStore(), new AlertLedger(new MemoryKeyValueStore()), history)
+  const outcomes: Record<string, AlertOutcome> = {}
+  for (const alert of alerts) {
+    const outcome: AlertOutcome = { alert_id: alert.id, sent_at_iso: alert.sent_at_iso, checkpoints: {} }
+    for (const checkpoint of CHECKPOINTS) {
+      outcome.checkpoints[checkpoint] = await tracker.check(alert, checkpoint, now, scenario.profile) ?? undefined
+    }
+    outcomes[alert.id] = outcome
+  }
+
+  const byType: Partial<Record<AlertType, number>> = {}
+  alerts.forEach(alert => { byType[alert.alert_type] = (byType[alert.alert_type] ?? 0) + 1 })
+
+  const outcomeSummary = {} as ScenarioResult['outcomes']
+  for (const checkpoint of CHECKPOINTS) {
+    const report = buildOutcomeReport(alerts, outcomes, checkpoint, from, to)
+    outcomeSummary[checkpoint] = { overall: report.overall, by_alert_type: report.by.alert_type ?? [] }
+  }
+
+  return {
+    name: scenario.name,
+    profile: scenario.profile.name,
+    rules: scenario.rules,
+    cooldown_minutes: scenario.cooldown.cooldownMs / 60000,
+    alerts: alerts.length,
+    updates: alerts.filter(alert => alert.kind === 'update').length,
+    coins: Object.keys(firstAlerts(alerts)).length,
+    by_type: byType,
+    outcomes: outcomeSummary,
+  }
+}
+
+export interface BacktestOptions {
+  from: Date
+  to: Date
+  windows?: Window[]
+  current: BacktestScenario
+  candidate: BacktestScenario
+  // Snapshot history to replay; reads only, never fetches
+  store: SnapshotStore
+  // Alerts actually sent over the range, if the ledger has them
+  referenceAlerts?: AlertRecord[]
+  cycleMs?: number
+  now?: number
+}
+
+// Replay history under the current and candidate settings and compare alert volume, timing and outcomes
+export async function runBacktest(options: BacktestOptions): Promise<BacktestReport> {
+  const { from, to, current, candidate, store } = options
+  const windows = options.windows ?? DEFAULT_BACKTEST_WINDOWS
+  const now = options.now ?? Date.now()
+
+  // Load once, including the stretch after the range that outcome checks need
+  const history = new MemorySnapshotStore()
+  for (const window of windows) {
+    await history.save(await store.query({
+      window,
+      from: from.toISOString(),
+      to: new Date(to.getTime() + OUTCOME_HORIZON_MS).toISOString(),
+      limit: Number.MAX_SAFE_INTEGER,
+    }))
+  }
+
+  const toIso = to.toISOString()
+  const inRange = (await history.query({ limit: Number.MAX_SAFE_INTEGER })).filter(s => s.generated_at_iso <= toIso)
+  const cycleMs = options.cycleMs ?? DEFAULT_CYCLE_MS
+
+  const currentAlerts = await replayAlerts(inRange, current, cycleMs)
+  const candidateAlerts = await replayAlerts(inRange, candidate, cycleMs)
+
+  const reference = options.referenceAlerts && options.referenceAlerts.length > 0
+    ? compareTiming(candidateAlerts, options.referenceAlerts, 'ledger')
+    : compareTiming(candidateAlerts, currentAlerts, 'current')
+
+  return {
+    from_iso: from.toISOString(),
+    to_iso: toIso,
+    windows,
+    snapshots: inRange.length,
+    cycles: groupIntoCycles(inRange, cycleMs).length,
+    current: await summarizeScenario(current, currentAlerts, history, from, to, now),
+    candidate: await summarizeScenario(candidate, candidateAlerts, history, from, to, now),
+    timing: reference,
+  }
+}
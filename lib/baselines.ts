@@ -0,0 +1,142 @@
+import { Baseline, BaselineCheck, BaselineDisagreement, Coin, CoinSnapshot, Window } from './schemas'
+import { isSameCoin } from './addresses'
+import { getSnapshotStore, SnapshotStore } from './snapshots'
+import { WINDOW_MINUTES } from './velocity'
+
+export type BaselineMode = 'local' | 'model'
+export type BaselineMethod = BaselineCheck['method']
+
+const DEFAULT_DISAGREEMENT_RATIO = 3
+// Differences smaller than this are noise at any ratio (0 vs 2 KOLs)
+const MIN_DISAGREEMENT_DIFF = 3
+// The previous-window average spans at least this long, so the 1m window still averages a few runs
+const MIN_PREVIOUS_SPAN_MS = 5 * 60 * 1000
+const DAY_MS = 24 * 60 * 60 * 1000
+
+const COMPARED_FIELDS: Array<BaselineDisagreement['field']> = ['tweet_count', 'unique_authors', 'verified_count', 'kol_count']
+
+// Which baseline coins are scored against; `model` keeps the reported one but still checks it
+export const getBaselineMode = (): BaselineMode => process.env.BASELINE_SOURCE === 'model' ? 'model' : 'local'
+
+export const getBaselineDisagreementRatio = (): number => {
+  const parsed = parseFloat(process.env.BASELINE_DISAGREEMENT_RATIO || '')
+  return parsed > 1 ? parsed : DEFAULT_DISAGREEMENT_RATIO
+}
+
+// Same rule the prompt gives the model: short windows compare with the previous window, long ones with the 24h average
+export const getBaselineMethod = (window: Window): BaselineMethod =>
+  WINDOW_MINUTES[window] <= 15 ? 'previous_window' : 'avg_24h'
+
+// Runs a baseline is averaged over: for previous_window, those between one and two window lengths ago;
+// for avg_24h, every earlier run in the last day
+const getBaselineRange = (window: Window, generatedAt: Date): { fromMs: number, toMs: number } => {
+  const t = generatedAt.getTime()
+  if (getBaselineMethod(window) === 'avg_24h') {
+    return { fromMs: t - DAY_MS, toMs: t - 1 }
+  }
+  const windowMs = WINDOW_MINUTES[window] * 60 * 1000
+  return { fromMs: t - windowMs - Math.max(windowMs, MIN_PREVIOUS_SPAN_MS), toMs: t - windowMs }
+}
+
+type RunPoint = Pick<CoinSnapshot, 'counts' | 'generated_at_iso'>
+
+// A coin's baseline from its own earlier runs of this window, or null when none fall in range
+export function computeLocalBaseline(
+  window: Window,
+  generatedAtIso: string,
+  history: RunPoint[]
+): { baseline: Baseline | null, samples: number, method: BaselineMethod } {
+  const method = getBaselineMethod(window)
+  const { fromMs, toMs } = getBaselineRange(window, new Date(generatedAtIso))
+  const runs = history.filter(point => {
+    const at = new Date(point.generated_at_iso).getTime()
+    return at >= fromMs && at <= toMs
+  })
+
+  if (runs.length === 0) {
+    return { baseline: null, samples: 0, method }
+  }
+
+  const average = (field: Exclude<keyof Baseline, 'window'>): number =>
+    Math.round(runs.reduce((sum, run) => sum + run.counts[field], 0) / runs.length)
+  const baseline: Baseline = {
+    window,
+    tweet_count: average('tweet_count'),
+    unique_authors: average('unique_authors'),
+    verified_count: average('verified_count'),
+    kol_count: average('kol_count'),
+    cashtag_count: average('cashtag_count'),
+    hashtag_count: average('hashtag_count'),
+  }
+  return { baseline, samples: runs.length, method }
+}
+
+// Counts where the model's baseline is off from the measured one by at least `ratio` either way
+export function compareBaselines(
+  reported: Baseline,
+  measured: Baseline,
+  ratio: number = getBaselineDisagreementRatio()
+): BaselineDisagreement[] {
+  return COMPARED_FIELDS
+    .map(field => ({
+      field,
+      reported: reported[field],
+      measured: measured[field],
+      ratio: Math.round(((reported[field] + 1) / (measured[field] + 1)) * 100) / 100,
+    }))
+    .filter(d => Math.abs(d.reported - d.measured) >= MIN_DISAGREEMENT_DIFF && (d.ratio >= ratio || d.ratio <= 1 / ratio))
+}
+
+// Replace each coin's model-reported baseline with one computed from the same window's earlier runs (unless
+// BASELINE_SOURCE=model), keeping both in `baseline_check`. A coin without runs in range keeps the reported one:
+// a fixed stand-in would make any coin new to a long window look like it had grown many times over.
+// Must run before this run's snapshots are recorded.
+export async function attachLocalBaselines<T extends Coin>(
+  coins: T[],
+  window: Window,
+  generatedAtIso: string,
+  provider?: string,
+  store: SnapshotStore = getSnapshotStore()
+): Promise<T[]> {
+  const { fromMs, toMs } = getBaselineRange(window, new Date(generatedAtIso))
+  const snapshots = await store.query({
+    window,
+    provider,
+    from: new Date(fromMs).toISOString(),
+    to: new Date(toMs).toISOString(),
+    limit: 50000,
+  })
+  const mode = getBaselineMode()
+  const ratio = getBaselineDisagreementRatio()
+
+  return coins.map(coin => {
+    const { baseline, samples, method } = computeLocalBaseline(
+      window,
+      generatedAtIso,
+      snapshots.filter(snapshot => isSameCoin(snapshot, coin))
+    )
+    const disagreements = baseline ? compareBaselines(coin.baseline, baseline, ratio) : []
+    const useLocal = mode === 'local' && baseline !== null
+
+    return {
+      ...coin,
+      baseline: useLocal ? baseline : coin.baseline,
+      baseline_check: {
+        source: useLocal ? 'history' : 'model',
+        method,
+        samples,
+        local: baseline,
+        reported: coin.baseline,
+        disagreements,
+        flagged: disagreements.length > 0,
+      },
+    }
+  })
+}
+
+// "model 120 vs measured 20 tweets (5.8x higher)"
+export const formatBaselineDisagreement = (d: BaselineDisagreement): string => {
+  const label = d.field === 'tweet_count' ? 'tweets' : d.field === 'unique_authors' ? 'authors' : d.field === 'kol_count' ? 'KOLs' : 'verified'
+  const factor = d.ratio >= 1 ? `${d.ratio.toFixed(1)}x higher` : `${(1 / d.ratio).toFixed(1)}x lower`
+  return `model ${d.reported} vs measured ${d.measured} ${label} (${factor})`
+}
@@ -0,0 +1,108 @@
+// Registry of supported chains. Everything chain-specific (query validation, the trend prompt,
+// address checks, dashboard filters and colors, explorer and DEX links) reads from here,
+// so adding a chain is a single entry.
+
+export type AddressFormat = 'base58' | 'evm' | 'ton'
+
+export interface ChainInfo {
+  // Chain code used throughout the API, e.g. 'SOL'
+  id: string
+  name: string
+  // Brand color for badges
+  color: string
+  addressFormat: AddressFormat
+  // Token page on the chain's block explorer; `{address}` is replaced with the contract address
+  explorerTokenUrl: string
+  // Chain id on DexScreener
+  dexscreenerId: string
+  // Other spellings the model uses for this chain
+  aliases: string[]
+}
+
+export const CHAINS: ChainInfo[] = [
+  {
+    id: 'SOL',
+    name: 'Solana',
+    color: '#9945FF',
+    addressFormat: 'base58',
+    explorerTokenUrl: 'https://solscan.io/token/{address}',
+    dexscreenerId: 'solana',
+    aliases: ['SOLANA'],
+  },
+  {
+    id: 'ETH',
+    name: 'Ethereum',
+    color: '#627EEA',
+    addressFormat: 'evm',
+    explorerTokenUrl: 'https://etherscan.io/token/{address}',
+    dexscreenerId: 'ethereum',
+    aliases: ['ETHEREUM', 'ERC20', 'MAINNET'],
+  },
+  {
+    id: 'BSC',
+    name: 'BNB Chain',
+    color: '#F0B90B',
+    addressFormat: 'evm',
+    explorerTokenUrl: 'https://bscscan.com/token/{address}',
+    dexscreenerId: 'bsc',
+    aliases: ['BNB', 'BEP20', 'BNB CHAIN', 'BNB SMART CHAIN', 'BINANCE SMART CHAIN'],
+  },
+  {
+    id: 'BASE',
+    name: 'Base',
+    color: '#0052FF',
+    addressFormat: 'evm',
+    explorerTokenUrl: 'https://basescan.org/token/{address}',
+    dexscreenerId: 'base',
+    aliases: ['BASE MAINNET'],
+  },
+  {
+    id: 'POLYGON',
+    name: 'Polygon',
+    color: '#8247E5',
+    addressFormat: 'evm',
+    explorerTokenUrl: 'https://polygonscan.com/token/{address}',
+    dexscreenerId: 'polygon',
+    aliases: ['MATIC', 'POL', 'POLYGON POS'],
+  },
+  {
+    id: 'ARB',
+    name: 'Arbitrum',
+    color: '#28A0F0',
+    addressFormat: 'evm',
+    explorerTokenUrl: 'https://arbiscan.io/token/{address}',
+    dexscreenerId: 'arbitrum',
+    aliases: ['ARBITRUM', 'ARBITRUM ONE'],
+  },
+  {
+    id: 'TON',
+    name: 'TON',
+    color: '#0098EA',
+    addressFormat: 'ton',
+    explorerTokenUrl: 'https://tonviewer.com/{address}',
+    dexscreenerId: 'ton',
+    aliases: ['THE OPEN NETWORK', 'TONCOIN'],
+  },
+]
+
+export const CHAIN_IDS: string[] = CHAINS.map(chain => chain.id)
+
+const CHAINS_BY_NAME: Record<string, ChainInfo> = {}
+for (const chain of CHAINS) {
+  CHAINS_BY_NAME[chain.id] = chain
+  for (const alias of chain.aliases) CHAINS_BY_NAME[alias] = chain
+}
+
+// Look a chain up by code or alias, case-insensitively
+export const getChain = (chain: string): ChainInfo | null => CHAINS_BY_NAME[chain.trim().toUpperCase()] ?? null
+
+// Registry code for a chain name; unknown chains are upper-cased and passed through
+export const normalizeChain = (chain: string): string => getChain(chain)?.id ?? chain.trim().toUpperCase()
+
+// Neutral gray for chains outside the registry
+export const getChainColor = (chain: string): string => getChain(chain)?.color ?? '#6B7280'
+
+export const getExplorerUrl = (chain: string, address: string): string | null => {
+  const info = getChain(chain)
+  return info ? info.explorerTokenUrl.replace('{address}', encodeURIComponent(address)) : null
+}
@@ -0,0 +1,73 @@
+import { Coin, Confluence, Window } from './schemas'
+import { CoinIdentity, isSameCoin } from './addresses'
+
+// The windows send-alerts alerts from; confluence is always measured over these, longest first
+export const CONFLUENCE_WINDOWS: Window[] = ['15m', '5m', '1m']
+
+// Appearing in every window counts for more than the hype trend between them
+const PRESENCE_WEIGHT = 0.6
+const TREND_WEIGHT = 0.4
+
+// Trending alerts need this much confluence: a coin in only one of three windows scores 0.2,
+// in two without rising hype 0.4
+export const DEFAULT_MIN_CONFLUENCE = 0.4
+
+export const getMinConfluence = (): number => {
+  const parsed = parseFloat(process.env.ALERT_MIN_CONFLUENCE || '')
+  return parsed >= 0 && parsed <= 1 ? parsed : DEFAULT_MIN_CONFLUENCE
+}
+
+// Windows whose leaderboard failed to load are left out rather than counted as absences.
+// Presence is the share of compared windows the coin appears in. Trend is the share of neighbouring
+// windows (15m → 5m, 5m → 1m) where hype rises, comparing across a gap when the middle window lacks the coin.
+export function computeConfluence(
+  coin: CoinIdentity,
+  leaderboards: Partial<Record<Window, Coin[]>>,
+  windows: Window[] = CONFLUENCE_WINDOWS
+): Confluence {
+  const compared = windows.filter(window => leaderboards[window])
+  const hypeByWindow: Partial<Record<Window, number>> = {}
+  const hypes: number[] = []
+
+  for (const window of compared) {
+    const match = leaderboards[window]?.find(other => isSameCoin(other, coin))
+    if (match) {
+      hypeByWindow[window] = match.hype_score
+      hypes.push(match.hype_score)
+    }
+  }
+
+  let risingSteps = 0
+  for (let i = 1; i < hypes.length; i++) {
+    if (hypes[i] > hypes[i - 1]) risingSteps++
+  }
+
+  const presence = compared.length > 0 ? hypes.length / compared.length : 0
+  const trend = compared.length > 1 ? risingSteps / (compared.length - 1) : 0
+
+  return {
+    score: Math.round((PRESENCE_WEIGHT * presence + TREND_WEIGHT * trend) * 100) / 100,
+    windows: compared,
+    hype_by_window: hypeByWindow,
+    present: hypes.length,
+    rising: hypes.length >= 2 && risingSteps === hypes.length - 1,
+  }
+}
+
+// Every coin on every loaded leaderboard, with its confluence attached
+export function attachConfluence(leaderboards: Partial<Record<Window, Coin[]>>): Partial<Record<Window, Coin[]>> {
+  const result: Partial<Record<Window, Coin[]>> = {}
+  for (const window of Object.keys(leaderboards) as Window[]) {
+    result[window] = leaderboards[window]?.map(coin => ({ ...coin, confluence: computeConfluence(coin, leaderboards) }))
+  }
+  return result
+}
+
+// "15m 41% → 5m 55% → 1m 72% ▲", with absent windows shown as "—"
+export const formatConfluence = (confluence: Confluence): string => {
+  const steps = confluence.windows.map(window => {
+    const hype = confluence.hype_by_window[window]
+    return `${window} ${hype === undefined ? '—' : `${(hype * 100).toFixed(0)}%`}`
+  })
+  return `${steps.join(' → ')}${confluence.rising ? ' ▲' : ''}`
+}
@@ -0,0 +1,79 @@
+import { AlertRecord, AlertType, Coin } from './schemas'
+
+export interface CooldownRules {
+  cooldownMs: number
+  // Minimum hype_score increase (0..1) that justifies an update inside the cooldown
+  hypeEscalationDelta: number
+  // Minimum number of additional KOLs that justifies an update inside the cooldown
+  kolEscalationDelta: number
+}
+
+export interface CooldownDecision {
+  send: boolean
+  kind: 'new' | 'update'
+  reason: string
+  previous: AlertRecord | null
+}
+
+// Higher rank = more severe. Moving up the ladder inside a cooldown is an escalation.
+// A FUD spike ranks with pre-pump, and a switch into or out of one always gets through: a coin flipping from
+// euphoria to rug warnings, or recovering from them, is news either way.
+const ALERT_SEVERITY: Record<AlertType, number> = {
+  alert: 0,
+  trending: 1,
+  accelerating: 2,
+  pre_pump: 3,
+  fud_spike: 3,
+}
+
+const parsePositive = (value: string | undefined, fallback: number): number => {
+  const parsed = parseFloat(value || '')
+  return parsed > 0 ? parsed : fallback
+}
+
+export const getCooldownRules = (): CooldownRules => ({
+  cooldownMs: parsePositive(process.env.ALERT_COOLDOWN_MINUTES, 10) * 60 * 1000,
+  hypeEscalationDelta: parsePositive(process.env.ALERT_HYPE_ESCALATION_DELTA, 0.15),
+  kolEscalationDelta: parsePositive(process.env.ALERT_KOL_ESCALATION_DELTA, 2),
+})
+
+// Decide whether a coin may alert given its most recent ledger entry. Inside the cooldown only
+// escalations get through, and they go out as updates to the earlier alert.
+export function evaluateCooldown(
+  coin: Coin,
+  alertType: AlertType,
+  lastAlert: AlertRecord | null,
+  rules: CooldownRules = getCooldownRules(),
+  now: number = Date.now()
+): CooldownDecision {
+  if (!lastAlert) {
+    return { send: true, kind: 'new', reason: 'first alert', previous: null }
+  }
+
+  const elapsedMs = now - new Date(lastAlert.sent_at_iso).getTime()
+  if (elapsedMs > rules.cooldownMs) {
+    return { send: true, kind: 'new', reason: 'cooldown expired', previous: lastAlert }
+  }
+
+  const flippedFud = alertType !== lastAlert.alert_type && (alertType === 'fud_spike' || lastAlert.alert_type === 'fud_spike')
+  if (flippedFud || ALERT_SEVERITY[alertType] > ALERT_SEVERITY[lastAlert.alert_type]) {
+    return { send: true, kind: 'update', reason: `${lastAlert.alert_type} → ${alertType}`, previous: lastAlert }
+  }
+
+  const hypeDelta = coin.hype_score - lastAlert.hype_score
+  if (hypeDelta >= rules.hypeEscalationDelta) {
+    return {
+      send: true,
+      kind: 'update',
+      reason: `hype +${(hypeDelta * 100).toFixed(0)} pts (${(lastAlert.hype_score * 100).toFixed(0)}% → ${(coin.hype_score * 100).toFixed(0)}%)`,
+      previous: lastAlert,
+    }
+  }
+
+  const newKols = coin.counts.kol_count - lastAlert.counts.kol_count
+  if (newKols >= rules.kolEscalationDelta) {
+    return { send: true, kind: 'update', reason: `${newKols} new KOLs joined`, previous: lastAlert }
+  }
+
+  return { send: false, kind: 'new', reason: 'in cooldown, no escalation', previous: lastAlert }
+}
@@ -0,0 +1,307 @@
+import {
+  Coin,
+  CustomAlertRule,
+  CustomAlertRuleInput,
+  CustomAlertRuleSchema,
+  RuleCondition,
+  RuleConditionResult,
+  RuleEvaluation,
+  RuleFlag,
+  RuleMetric,
+  RuleOperator,
+  Window,
+} from './schemas'
+import { getKeyValueStore, KeyValueStore } from './kv'
+import { coinKey, isSameCoin, normalizeChain } from './addresses'
+import { isPrePump } from './pre-pump'
+import { isFudSpike } from './fud'
+import { isAccelerating } from './velocity'
+import { attachConfluence, CONFLUENCE_WINDOWS } from './confluence'
+
+const DEFAULT_MAX_RULES_PER_OWNER = 10
+
+// Every stored rule is evaluated each alert cycle, so owners get a bounded number of them
+export const getMaxRulesPerOwner = (): number => {
+  const parsed = parseInt(process.env.ALERT_RULES_MAX_PER_OWNER || '', 10)
+  return parsed > 0 ? parsed : DEFAULT_MAX_RULES_PER_OWNER
+}
+
+// Growth vs. baseline; a zero baseline can't demonstrate growth
+const growth = (current: number, baseline: number): number => baseline > 0 ? current / baseline : 0
+
+const readMetric = (coin: Coin, metric: RuleMetric): number | null => {
+  const { counts, baseline, market } = coin
+  switch (metric) {
+    case 'hype_score':
+    case 'grok_hype':
+    case 'sentiment':
+      return coin[metric]
+    case 'confluence':
+      return coin.confluence?.score ?? null
+    case 'mentions_per_min':
+    case 'mention_growth':
+    case 'acceleration':
+    case 'minutes_since_first_seen':
+      return coin.velocity?.[metric] ?? null
+    case 'tweet_count':
+    case 'unique_authors':
+    case 'verified_count':
+    case 'kol_count':
+    case 'cashtag_count':
+    case 'hashtag_count':
+    case 'new_wallet_signals':
+      return counts[metric]
+    case 'tweet_growth':
+      return growth(counts.tweet_count, baseline.tweet_count)
+    case 'author_growth':
+      return growth(counts.unique_authors, baseline.unique_authors)
+    case 'kol_growth':
+      return growth(counts.kol_count, baseline.kol_count)
+    case 'price_change_5m':
+    case 'price_change_1h':
+    case 'liquidity_usd':
+    case 'volume_1h_usd':
+    case 'fdv_usd':
+      return market?.[metric] ?? null
+  }
+}
+
+const readFlag = (coin: Coin, flag: RuleFlag): boolean => {
+  switch (flag) {
+    case 'pre_pump':
+      return isPrePump(coin)
+    case 'fud_spike':
+      return isFudSpike(coin)
+    case 'possible_clone':
+      return coin.collision?.possible_clone ?? false
+    case 'low_liquidity':
+      return coin.market?.low_liquidity ?? false
+    case 'accelerating':
+      return isAccelerating(coin)
+  }
+}
+
+const compare = (actual: number, op: RuleOperator, expected: number): boolean => {
+  switch (op) {
+    case '>=': return actual >= expected
+    case '>': return actual > expected
+    case '<=': return actual <= expected
+    case '<': return actual < expected
+    case '==': return actual === expected
+    case '!=': return actual !== expected
+  }
+}
+
+// Rule-language form of a condition, e.g. "kol_count >= 3", "tweet_growth >= 5 on 5m", "chain in SOL, BASE"
+export function describeCondition(condition: RuleCondition): string {
+  if ('chains' in condition) {
+    return condition.chains.length === 1 ? `chain = ${condition.chains[0]}` : `chain in ${condition.chains.join(', ')}`
+  }
+  const on = condition.window ? ` on ${condition.window}` : ''
+  if ('flag' in condition) {
+    return `${condition.is ? '' : 'not '}${condition.flag}${on}`
+  }
+  return `${condition.metric} ${condition.op} ${condition.value}${on}`
+}
+
+// e.g. "kol_count >= 3 AND tweet_growth >= 5 on 5m AND (pre_pump OR hype_score >= 0.4)"
+export function describeRule(rule: Pick<CustomAlertRule, 'all' | 'any'>): string {
+  const parts = rule.all.map(describeCondition)
+  if (rule.any && rule.any.length > 0) {
+    parts.push(`(${rule.any.map(describeCondition).join(' OR ')})`)
+  }
+  return parts.join(' AND ')
+}
+
+// The same coin in each window of the current cycle
+export type CoinWindows = Partial<Record<Window, Coin>>
+
+export function evaluateCondition(condition: RuleCondition, coin: Coin, coinWindows: CoinWindows): RuleConditionResult {
+  const description = describeCondition(condition)
+
+  if ('chains' in condition) {
+    const chain = normalizeChain(coin.chain)
+    return { condition: description, passed: condition.chains.some(c => normalizeChain(c) === chain), actual: chain }
+  }
+
+  // A condition pinned to another window fails when the coin isn't trending there
+  const subject = condition.window ? coinWindows[condition.window] : coin
+  if (!subject) {
+    return { condition: description, passed: false, actual: null }
+  }
+
+  if ('flag' in condition) {
+    const actual = readFlag(subject, condition.flag)
+    return { condition: description, passed: actual === condition.is, actual }
+  }
+
+  const actual = readMetric(subject, condition.metric)
+  return { condition: description, passed: actual !== null && compare(actual, condition.op, condition.value), actual }
+}
+
+export function evaluateCustomRule(
+  rule: Pick<CustomAlertRule, 'all' | 'any'>,
+  coin: Coin,
+  window: Window,
+  coinWindows: CoinWindows = { [window]: coin }
+): RuleEvaluation {
+  const all = rule.all.map(condition => evaluateCondition(condition, coin, coinWindows))
+  const any = (rule.any ?? []).map(condition => evaluateCondition(condition, coin, coinWindows))
+
+  return {
+    symbol: coin.symbol,
+    chain: coin.chain,
+    contract_address: coin.contract_address,
+    window,
+    hype_score: coin.hype_score,
+    matched: all.every(result => result.passed) && (any.length === 0 || any.some(result => result.passed)),
+    all,
+    any,
+  }
+}
+
+// Identifies a rule across owners, e.g. in the alert ledger and delivery routes
+export const customRuleId = (rule: Pick<CustomAlertRule, 'owner' | 'id'>): string => `${rule.owner}/${rule.id}`
+
+// Every window a rule needs fetched: the ones it's evaluated in plus any its conditions read from
+export function getRuleWindows(rule: Pick<CustomAlertRule, 'windows' | 'all' | 'any'>): Window[] {
+  const windows = [...rule.windows]
+  for (const condition of [...rule.all, ...(rule.any ?? [])]) {
+    if ('window' in condition && condition.window && !windows.includes(condition.window)) {
+      windows.push(condition.window)
+    }
+  }
+  return windows
+}
+
+export interface CustomRuleMatch {
+  rule: CustomAlertRule
+  coin: Coin
+  window: Window
+  evaluation: RuleEvaluation
+}
+
+// Evaluate a rule over a cycle's leaderboards. A coin matching in several windows counts once, in the first
+// of the rule's windows; matches are ranked by hype and capped at the rule's max_alerts_per_cycle.
+export function matchCustomRule(
+  rule: CustomAlertRule,
+  leaderboards: Partial<Record<Window, Coin[]>>,
+  limit: number = rule.max_alerts_per_cycle
+): { matches: CustomRuleMatch[], evaluated: number } {
+  const seen = new Set<string>()
+  const matches: CustomRuleMatch[] = []
+  let evaluated = 0
+
+  for (const window of rule.windows) {
+    for (const coin of leaderboards[window] ?? []) {
+      const key = coinKey(coin)
+      if (seen.has(key)) continue
+      evaluated++
+
+      const coinWindows: CoinWindows = {}
+      for (const other of Object.keys(leaderboards) as Window[]) {
+        const match = leaderboards[other]?.find(c => isSameCoin(c, coin))
+        if (match) coinWindows[other] = match
+      }
+
+      const evaluation = evaluateCustomRule(rule, coin, window, coinWindows)
+      if (evaluation.matched) {
+        seen.add(key)
+        matches.push({ rule, coin, window, evaluation })
+      }
+    }
+  }
+
+  return {
+    matches: matches.sort((a, b) => b.coin.hype_score - a.coin.hype_score).slice(0, limit),
+    evaluated,
+  }
+}
+
+// Every window a dry run fetches: the rule's own plus the confluence windows, as send-alerts loads them
+export const getDryRunWindows = (rule: Pick<CustomAlertRule, 'windows' | 'all' | 'any'>): Window[] =>
+  Array.from(new Set([...getRuleWindows(rule), ...CONFLUENCE_WINDOWS]))
+
+// A rule's matches on freshly fetched leaderboards, uncapped. Confluence is attached first, as in a send-alerts
+// cycle, so `confluence` conditions preview the way they fire.
+export const dryRunCustomRule = (
+  rule: CustomAlertRule,
+  fetched: Partial<Record<Window, Coin[]>>
+): { matches: CustomRuleMatch[], evaluated: number } =>
+  matchCustomRule(rule, attachConfluence(fetched), Infinity)
+
+// Chain names in `chains` conditions are stored as registry codes so they read the same as coins
+const normalizeConditions = (conditions: RuleCondition[]): RuleCondition[] =>
+  conditions.map(condition => 'chains' in condition ? { chains: condition.chains.map(normalizeChain) } : condition)
+
+// Build a complete rule from API input, for saving or a dry run
+export function buildCustomRule(
+  owner: string,
+  id: string,
+  input: CustomAlertRuleInput,
+  existing: CustomAlertRule | null = null,
+  now: Date = new Date()
+): CustomAlertRule {
+  const rule = CustomAlertRuleSchema.parse({
+    ...input,
+    id,
+    owner,
+    name: input.name ?? existing?.name ?? id,
+    created_at_iso: existing?.created_at_iso ?? now.toISOString(),
+    updated_at_iso: now.toISOString(),
+  })
+  return { ...rule, all: normalizeConditions(rule.all), any: rule.any && normalizeConditions(rule.any) }
+}
+
+// Custom rules kept in the key-value store as `rule:<owner>:<id>`, without expiry
+export class CustomRuleStore {
+  private store: KeyValueStore
+
+  constructor(store: KeyValueStore) {
+    this.store = store
+  }
+
+  async get(owner: string, id: string): Promise<CustomAlertRule | null> {
+    const parsed = CustomAlertRuleSchema.safeParse(await this.store.get<unknown>(this.key(owner, id)))
+    return parsed.success ? parsed.data : null
+  }
+
+  // One owner's rules, or every rule when no owner is given
+  async list(owner?: string): Promise<CustomAlertRule[]> {
+    const keys = await this.store.list(owner ? `rule:${owner}:` : 'rule:')
+    const rules: CustomAlertRule[] = []
+
+    for (const key of keys) {
+      const parsed = CustomAlertRuleSchema.safeParse(await this.store.get<unknown>(key))
+      if (parsed.success) rules.push(parsed.data)
+    }
+
+    return rules
+  }
+
+  async save(owner: string, id: string, input: CustomAlertRuleInput, now: Date = new Date()): Promise<CustomAlertRule> {
+    const rule = buildCustomRule(owner, id, input, await this.get(owner, id), now)
+    await this.store.set(this.key(owner, id), rule)
+    return rule
+  }
+
+  async delete(owner: string, id: string): Promise<boolean> {
+    if (!await this.get(owner, id)) return false
+    await this.store.delete(this.key(owner, id))
+    return true
+  }
+
+  private key(owner: string, id: string): string {
+    return `rule:${owner}:${id}`
+  }
+}
+
+// Singleton instance
+let customRuleStoreInstance: CustomRuleStore | null = null
+
+export function getCustomRuleStore(): CustomRuleStore {
+  if (!customRuleStoreInstance) {
+    customRuleStoreInstance = new CustomRuleStore(getKeyValueStore('alert-rules'))
+  }
+  return customRuleStoreInstance
+}
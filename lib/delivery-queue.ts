@@ -0,0 +1,142 @@
+import { randomUUID } from 'crypto'
+import { getKeyValueStore, KeyValueStore } from './kv'
+import { AlertContent, AlertDigest } from './notifiers/content'
+import { Notifier } from './notifiers/types'
+
+const DEFAULT_MAX_AGE_MINUTES = 60
+const DEFAULT_MAX_RUNS = 5
+
+// A single alert, or a digest bundling one cycle's alerts
+export type QueuedPayload = { content: AlertContent } | { digest: AlertDigest }
+
+// An alert a channel couldn't take, kept for the next scheduled run
+export type QueuedDelivery = QueuedPayload & {
+  id: string
+  channel: string
+  // Scheduled runs that have tried and failed to deliver it
+  runs: number
+  queued_at_iso: string
+  last_error?: string
+}
+
+export interface QueueLimits {
+  // Alerts older than this are stale and get dropped rather than delivered late
+  maxAgeMs: number
+  maxRuns: number
+}
+
+export interface DrainReport {
+  redelivered: number
+  requeued: number
+  dropped: number
+}
+
+export const getQueueLimits = (): QueueLimits => {
+  const minutes = parseFloat(process.env.DELIVERY_QUEUE_MAX_AGE_MINUTES || '')
+  const runs = parseInt(process.env.DELIVERY_QUEUE_MAX_RUNS || '', 10)
+  return {
+    maxAgeMs: (minutes > 0 ? minutes : DEFAULT_MAX_AGE_MINUTES) * 60 * 1000,
+    maxRuns: runs > 0 ? runs : DEFAULT_MAX_RUNS,
+  }
+}
+
+// Undelivered alerts, one entry per channel, keyed `pending:<queued_at>:<id>` so they drain oldest first
+export class DeliveryQueue {
+  private store: KeyValueStore
+  private limits: QueueLimits
+
+  constructor(store: KeyValueStore, limits: QueueLimits = getQueueLimits()) {
+    this.store = store
+    this.limits = limits
+  }
+
+  async enqueue(channel: string, payload: QueuedPayload, error?: string): Promise<QueuedDelivery> {
+    const entry: QueuedDelivery = {
+      ...payload,
+      id: randomUUID(),
+      channel,
+      runs: 1,
+      queued_at_iso: new Date().toISOString(),
+      last_error: error,
+    }
+    await this.store.set(this.key(entry), entry, this.limits.maxAgeMs)
+    return entry
+  }
+
+  async list(): Promise<QueuedDelivery[]> {
+    const entries: QueuedDelivery[] = []
+    for (const key of await this.store.list('pending:')) {
+      const entry = await this.store.get<QueuedDelivery>(key)
+      if (entry) entries.push(entry)
+    }
+    return entries
+  }
+
+  // Record another failed run; returns false once the entry has used up its runs and was dropped
+  async retryLater(entry: QueuedDelivery, error?: string): Promise<boolean> {
+    const updated = { ...entry, runs: entry.runs + 1, last_error: error }
+    if (updated.runs >= this.limits.maxRuns) {
+      await this.remove(entry)
+      return false
+    }
+
+    const remainingMs = new Date(entry.queued_at_iso).getTime() + this.limits.maxAgeMs - Date.now()
+    if (remainingMs <= 0) {
+      await this.remove(entry)
+      return false
+    }
+
+    await this.store.set(this.key(entry), updated, remainingMs)
+    return true
+  }
+
+  // Retry everything queued by earlier runs against the channel it was meant for
+  async drain(getChannel: (name: string) => Notifier | undefined): Promise<DrainReport> {
+    const report: DrainReport = { redelivered: 0, requeued: 0, dropped: 0 }
+
+    for (const entry of await this.list()) {
+      const notifier = getChannel(entry.channel)
+      if (!notifier) {
+        // Channel was removed from the routing config since the alert was queued
+        console.warn(`Dropping queued alert ${entry.id}: channel ${entry.channel} no longer exists`)
+        await this.remove(entry)
+        report.dropped++
+        continue
+      }
+
+      const result = 'digest' in entry
+        ? await notifier.sendDigest(entry.digest)
+        : await notifier.sendAlert(entry.content)
+      if (result.ok) {
+        await this.remove(entry)
+        report.redelivered++
+      } else if (result.retryable && await this.retryLater(entry, result.error)) {
+        report.requeued++
+      } else {
+        console.error(`Dropping queued alert ${entry.id} for ${entry.channel} after ${entry.runs + 1} runs: ${result.error}`)
+        await this.remove(entry)
+        report.dropped++
+      }
+    }
+
+    return report
+  }
+
+  async remove(entry: QueuedDelivery): Promise<void> {
+    await this.store.delete(this.key(entry))
+  }
+
+  private key(entry: QueuedDelivery): string {
+    return `pending:${entry.queued_at_iso}:${entry.id}`
+  }
+}
+
+// Singleton instance
+let queueInstance: DeliveryQueue | null = null
+
+export function getDeliveryQueue(): DeliveryQueue {
+  if (!queueInstance) {
+    queueInstance = new DeliveryQueue(getKeyValueStore('delivery-queue'))
+  }
+  return queueInstance
+}
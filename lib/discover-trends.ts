@@ -0,0 +1,15 @@
+import { GrokResponse, validateGrokResponse, Window } from './schemas'
+
+// Fetch a window through the deployed discover-trends function (so its cache and snapshots are shared) and validate it
+export async function getDiscoverTrends(window: Window): Promise<GrokResponse> {
+  const baseUrl = process.env.URL || 'http://localhost:8888'
+  const url = `${baseUrl}/.netlify/functions/discover-trends?window=${window}`
+
+  const response = await fetch(url)
+
+  if (!response.ok) {
+    throw new Error(`Failed to fetch trends for ${window}: ${response.status} ${response.statusText}`)
+  }
+
+  return validateGrokResponse(await response.json())
+}
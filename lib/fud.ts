@@ -0,0 +1,38 @@
+import { Coin, FudSpike } from './schemas'
+
+export type FudSpikeThresholds = FudSpike['thresholds']
+
+export const DEFAULT_FUD_SPIKE_THRESHOLDS: FudSpikeThresholds = {
+  min_tweet_growth: 2,
+  max_sentiment: -0.4,
+}
+
+// Thresholds can be tuned per deployment without code changes
+export const getFudSpikeThresholds = (): FudSpikeThresholds => {
+  const growth = parseFloat(process.env.FUD_SPIKE_TWEET_GROWTH || '')
+  const sentiment = parseFloat(process.env.FUD_SPIKE_MAX_SENTIMENT || '')
+  return {
+    min_tweet_growth: growth >= 0 ? growth : DEFAULT_FUD_SPIKE_THRESHOLDS.min_tweet_growth,
+    max_sentiment: sentiment >= -1 && sentiment <= 1 ? sentiment : DEFAULT_FUD_SPIKE_THRESHOLDS.max_sentiment,
+  }
+}
+
+// A FUD spike is a volume surge whose chatter is strongly negative (rug accusations, scam warnings)
+export const evaluateFudSpike = (
+  coin: Pick<Coin, 'counts' | 'baseline' | 'sentiment'>,
+  thresholds: FudSpikeThresholds = getFudSpikeThresholds()
+): FudSpike => {
+  const tweetGrowth = coin.baseline.tweet_count > 0 ? coin.counts.tweet_count / coin.baseline.tweet_count : 0
+
+  return {
+    is_fud_spike: tweetGrowth >= thresholds.min_tweet_growth && coin.sentiment <= thresholds.max_sentiment,
+    tweet_growth: tweetGrowth,
+    sentiment: coin.sentiment,
+    thresholds,
+  }
+}
+
+// Prefer the classification attached by discover-trends, as with pre-pump
+export const getFudSpike = (coin: Coin): FudSpike => coin.fud_spike ?? evaluateFudSpike(coin)
+
+export const isFudSpike = (coin: Coin): boolean => getFudSpike(coin).is_fud_spike
@@ -0,0 +1,170 @@
+import path from 'path'
+import { connectLambda, getStore, Store } from '@netlify/blobs'
+import { getDataDir, isNetlifyRuntime, listDir, readJsonFile, removeFile, writeJsonFile } from './storage'
+
+// Minimal key-value contract so deployments can swap in a hosted KV (Netlify Blobs, Redis, ...) without touching callers
+export interface KeyValueStore {
+  get<T>(key: string): Promise<T | null>
+  set<T>(key: string, value: T, ttlMs?: number): Promise<void>
+  delete(key: string): Promise<void>
+  list(prefix?: string): Promise<string[]>
+}
+
+interface StoredEntry<T> {
+  value: T
+  expires_at: number | null
+}
+
+const isExpired = (entry: StoredEntry<unknown>, now: number = Date.now()): boolean => {
+  return entry.expires_at !== null && entry.expires_at <= now
+}
+
+export class MemoryKeyValueStore implements KeyValueStore {
+  private entries = new Map<string, StoredEntry<unknown>>()
+
+  async get<T>(key: string): Promise<T | null> {
+    const entry = this.entries.get(key)
+    if (!entry) return null
+    if (isExpired(entry)) {
+      this.entries.delete(key)
+      return null
+    }
+    return entry.value as T
+  }
+
+  async set<T>(key: string, value: T, ttlMs?: number): Promise<void> {
+    this.entries.set(key, { value, expires_at: ttlMs ? Date.now() + ttlMs : null })
+  }
+
+  async delete(key: string): Promise<void> {
+    this.entries.delete(key)
+  }
+
+  async list(prefix: string = ''): Promise<string[]> {
+    const keys: string[] = []
+    this.entries.forEach((entry, key) => {
+      if (key.startsWith(prefix) && !isExpired(entry)) keys.push(key)
+    })
+    return keys.sort()
+  }
+}
+
+// One JSON file per key under <dir>; keys are URI-encoded so any string is a safe file name
+export class FileKeyValueStore implements KeyValueStore {
+  private dir: string
+
+  constructor(dir: string) {
+    this.dir = dir
+  }
+
+  async get<T>(key: string): Promise<T | null> {
+    const entry = await readJsonFile(this.keyFile(key)) as StoredEntry<T> | null
+    if (!entry) return null
+    if (isExpired(entry)) {
+      await removeFile(this.keyFile(key))
+      return null
+    }
+    return entry.value
+  }
+
+  async set<T>(key: string, value: T, ttlMs?: number): Promise<void> {
+    const entry: StoredEntry<T> = { value, expires_at: ttlMs ? Date.now() + ttlMs : null }
+    await writeJsonFile(this.keyFile(key), entry)
+  }
+
+  async delete(key: string): Promise<void> {
+    await removeFile(this.keyFile(key))
+  }
+
+  async list(prefix: string = ''): Promise<string[]> {
+    const files = await listDir(this.dir)
+    return files
+      .filter(file => file.endsWith('.json'))
+      .map(file => decodeURIComponent(file.slice(0, -'.json'.length)))
+      .filter(key => key.startsWith(prefix))
+      .sort()
+  }
+
+  private keyFile(key: string): string {
+    return path.join(this.dir, `${encodeURIComponent(key)}.json`)
+  }
+}
+
+// One Netlify Blobs store per namespace. Entries keep their expiry alongside the value since Blobs has no TTL.
+// Reads are strongly consistent so cooldowns and the ledger see writes from other instances straight away.
+export class BlobsKeyValueStore implements KeyValueStore {
+  private name: string
+
+  constructor(name: string) {
+    this.name = name
+  }
+
+  // Resolved per call: the credentials connectStorage() receives are per invocation, while this instance is reused
+  // across warm invocations. NETLIFY_BLOBS_TOKEN lets scripts outside Netlify reach a site's store.
+  private get store(): Store {
+    const token = process.env.NETLIFY_BLOBS_TOKEN
+    const siteID = process.env.NETLIFY_BLOBS_SITE_ID || process.env.SITE_ID
+    return token && siteID
+      ? getStore({ name: this.name, siteID, token, consistency: 'strong' })
+      : getStore({ name: this.name, consistency: 'strong' })
+  }
+
+  async get<T>(key: string): Promise<T | null> {
+    const entry = await this.store.get(key, { type: 'json' }) as StoredEntry<T> | null
+    if (!entry) return null
+    if (isExpired(entry)) {
+      await this.store.delete(key)
+      return null
+    }
+    return entry.value
+  }
+
+  async set<T>(key: string, value: T, ttlMs?: number): Promise<void> {
+    const entry: StoredEntry<T> = { value, expires_at: ttlMs ? Date.now() + ttlMs : null }
+    await this.store.setJSON(key, entry)
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.store.delete(key)
+  }
+
+  // Expired entries still list until they are next read; callers read every key they list
+  async list(prefix: string = ''): Promise<string[]> {
+    const { blobs } = await this.store.list(prefix ? { prefix } : {})
+    return blobs.map(blob => blob.key).sort()
+  }
+}
+
+// Lambda-style handlers receive their Blobs credentials on the event rather than in the environment.
+// Every handler calls this first; outside Netlify (no `blobs` field) it does nothing.
+export function connectStorage(event: { blobs?: string, headers: Record<string, string | undefined> }): void {
+  if (event.blobs) {
+    connectLambda({ blobs: event.blobs, headers: event.headers as Record<string, string> })
+  }
+}
+
+export const getDefaultKeyValueBackend = (): string => isNetlifyRuntime() ? 'blobs' : 'file'
+
+// One store per namespace, shared across the function instance
+const kvInstances: Record<string, KeyValueStore> = {}
+
+export function getKeyValueStore(namespace: string): KeyValueStore {
+  if (!kvInstances[namespace]) {
+    const backend = process.env.KV_STORE || getDefaultKeyValueBackend()
+
+    switch (backend) {
+      case 'file':
+        kvInstances[namespace] = new FileKeyValueStore(path.join(getDataDir(), 'kv', namespace))
+        break
+      case 'memory':
+        kvInstances[namespace] = new MemoryKeyValueStore()
+        break
+      case 'blobs':
+        kvInstances[namespace] = new BlobsKeyValueStore(`radar-${namespace}`)
+        break
+      default:
+        throw new Error(`Unknown KV_STORE backend: ${backend}`)
+    }
+  }
+  return kvInstances[namespace]
+}
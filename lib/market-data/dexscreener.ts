@@ -0,0 +1,69 @@
+import { DexScreenerPair, DexScreenerTokensResponseSchema } from '../schemas'
+import { getChain } from '../chains'
+import { MarketDataSource, marketKey, MarketQuote, MarketToken } from './types'
+
+// The tokens endpoint takes at most 30 comma-separated addresses
+const MAX_ADDRESSES_PER_REQUEST = 30
+
+const toQuote = (pair: DexScreenerPair, fetchedAtIso: string): MarketQuote => ({
+  source: 'dexscreener',
+  price_usd: pair.priceUsd ?? null,
+  price_change_5m: pair.priceChange?.m5 ?? null,
+  price_change_1h: pair.priceChange?.h1 ?? null,
+  liquidity_usd: pair.liquidity?.usd ?? null,
+  fdv_usd: pair.fdv ?? null,
+  volume_1h_usd: pair.volume?.h1 ?? null,
+  volume_24h_usd: pair.volume?.h24 ?? null,
+  dex: pair.dexId,
+  pair_address: pair.pairAddress,
+  pair_url: pair.url ?? null,
+  fetched_at_iso: fetchedAtIso,
+})
+
+// Looks tokens up on the public DexScreener API and reports each token's most liquid pair
+export class DexScreenerSource implements MarketDataSource {
+  readonly name = 'dexscreener'
+  private baseUrl: string
+
+  constructor(baseUrl: string = process.env.DEXSCREENER_API_URL || 'https://api.dexscreener.com') {
+    this.baseUrl = baseUrl.replace(/\/+$/, '')
+  }
+
+  async fetchQuotes(tokens: MarketToken[]): Promise<Map<string, MarketQuote>> {
+    const quotes = new Map<string, MarketQuote>()
+    const supported = tokens.filter(token => getChain(token.chain))
+
+    for (let i = 0; i < supported.length; i += MAX_ADDRESSES_PER_REQUEST) {
+      const batch = supported.slice(i, i + MAX_ADDRESSES_PER_REQUEST)
+      const pairs = await this.fetchPairs(batch.map(token => token.address))
+      const fetchedAtIso = new Date().toISOString()
+
+      for (const token of batch) {
+        // The same address can exist on several chains, and EVM addresses come back checksummed
+        const chainId = getChain(token.chain)?.dexscreenerId
+        const address = token.address.toLowerCase()
+        const best = pairs
+          .filter(pair => pair.chainId === chainId && pair.baseToken.address.toLowerCase() === address)
+          .reduce<DexScreenerPair | null>((top, pair) =>
+            !top || (pair.liquidity?.usd ?? 0) > (top.liquidity?.usd ?? 0) ? pair : top, null)
+
+        if (best) {
+          quotes.set(marketKey(token), toQuote(best, fetchedAtIso))
+        }
+      }
+    }
+
+    return quotes
+  }
+
+  private async fetchPairs(addresses: string[]): Promise<DexScreenerPair[]> {
+    const url = `${this.baseUrl}/latest/dex/tokens/${addresses.map(encodeURIComponent).join(',')}`
+    const response = await fetch(url, { headers: { Accept: 'application/json' } })
+
+    if (!response.ok) {
+      throw new Error(`DexScreener request failed: ${response.status} ${response.statusText}`)
+    }
+
+    return DexScreenerTokensResponseSchema.parse(await response.json()).pairs ?? []
+  }
+}
@@ -0,0 +1,25 @@
+// Display helpers for market data, shared by the dashboard and alert content
+
+// "$1.2M", "$850K", "$420"
+export const formatUsd = (value: number | null | undefined): string => {
+  if (value === null || value === undefined) return '—'
+  if (value >= 1e9) return `$${(value / 1e9).toFixed(1)}B`
+  if (value >= 1e6) return `$${(value / 1e6).toFixed(1)}M`
+  if (value >= 1e3) return `$${(value / 1e3).toFixed(1)}K`
+  return `$${value.toFixed(0)}`
+}
+
+// Memecoin prices span many orders of magnitude; keep four significant digits without exponents
+export const formatPrice = (value: number | null | undefined): string => {
+  if (value === null || value === undefined) return '—'
+  if (value >= 1) return `$${value.toFixed(2)}`
+  if (value === 0) return '$0'
+  const decimals = Math.min(-Math.floor(Math.log10(value)) + 3, 20)
+  return `$${value.toFixed(decimals)}`
+}
+
+// "+12.5%", "-3.0%"
+export const formatPriceChange = (value: number | null | undefined): string => {
+  if (value === null || value === undefined) return '—'
+  return `${value >= 0 ? '+' : ''}${value.toFixed(1)}%`
+}
@@ -0,0 +1,116 @@
+import { Coin, MarketData } from '../schemas'
+import { getKeyValueStore } from '../kv'
+import { DexScreenerSource } from './dexscreener'
+import { StubMarketDataSource } from './stub'
+import { MarketDataSource, marketKey, MarketQuote, MarketToken } from './types'
+
+export type { MarketDataSource, MarketQuote, MarketToken } from './types'
+export { marketKey } from './types'
+
+// Market-data source factories by name
+const MARKET_DATA_SOURCE_FACTORIES: Record<string, () => MarketDataSource> = {
+  dexscreener: () => new DexScreenerSource(),
+  stub: () => new StubMarketDataSource(),
+}
+
+export const getAvailableMarketDataSources = (): string[] => Object.keys(MARKET_DATA_SOURCE_FACTORIES)
+
+// MARKET_DATA_SOURCE=none turns enrichment off
+export const getDefaultMarketDataSourceName = (): string => process.env.MARKET_DATA_SOURCE || 'dexscreener'
+
+// Cached instances, one per source name
+const sourceInstances: Record<string, MarketDataSource> = {}
+
+export function getMarketDataSource(name: string = getDefaultMarketDataSourceName()): MarketDataSource | null {
+  if (name === 'none') return null
+  if (!sourceInstances[name]) {
+    const factory = MARKET_DATA_SOURCE_FACTORIES[name]
+    if (!factory) {
+      throw new Error(`Unknown market-data source: ${name}. Available: ${getAvailableMarketDataSources().join(', ')}, none`)
+    }
+    sourceInstances[name] = factory()
+  }
+  return sourceInstances[name]
+}
+
+const DEFAULT_MIN_LIQUIDITY_USD = 10000
+const DEFAULT_TTL_SECONDS = 60
+
+export const getMinLiquidityUsd = (): number => {
+  const value = parseFloat(process.env.MARKET_MIN_LIQUIDITY_USD || '')
+  return value >= 0 ? value : DEFAULT_MIN_LIQUIDITY_USD
+}
+
+const getMarketDataTtlMs = (): number =>
+  (parseInt(process.env.MARKET_DATA_TTL_SECONDS || '', 10) || DEFAULT_TTL_SECONDS) * 1000
+
+// Lookups that found no pair are cached too, so unlisted tokens aren't re-requested every call
+interface CachedQuote {
+  quote: MarketQuote | null
+}
+
+const withLiquidityFlag = (quote: MarketQuote, minLiquidityUsd: number): MarketData => ({
+  ...quote,
+  low_liquidity: quote.liquidity_usd === null || quote.liquidity_usd < minLiquidityUsd,
+})
+
+// Attach market data to every coin with a contract address. Quotes are cached briefly per token;
+// a failing source is logged and leaves coins without `market` rather than failing the request.
+export async function enrichWithMarketData<T extends Coin>(
+  coins: T[],
+  source: MarketDataSource | null = getMarketDataSource()
+): Promise<T[]> {
+  if (!source) return coins
+
+  const tokens = new Map<string, MarketToken>()
+  for (const coin of coins) {
+    if (coin.contract_address) {
+      const token = { chain: coin.chain, address: coin.contract_address }
+      tokens.set(marketKey(token), token)
+    }
+  }
+  if (tokens.size === 0) return coins
+
+  const cache = getKeyValueStore('market-data')
+  const cacheKey = (key: string) => `quote:${source.name}:${key}`
+  const quotes = new Map<string, MarketQuote | null>()
+  const missing: MarketToken[] = []
+
+  for (const [key, token] of Array.from(tokens.entries())) {
+    try {
+      const cached = await cache.get<CachedQuote>(cacheKey(key))
+      if (cached) {
+        quotes.set(key, cached.quote)
+        continue
+      }
+    } catch (error) {
+      console.error('Failed to read market-data cache:', error)
+    }
+    missing.push(token)
+  }
+
+  if (missing.length > 0) {
+    try {
+      const fetched = await source.fetchQuotes(missing)
+      const ttlMs = getMarketDataTtlMs()
+      for (const token of missing) {
+        const key = marketKey(token)
+        const quote = fetched.get(key) ?? null
+        quotes.set(key, quote)
+        await cache.set<CachedQuote>(cacheKey(key), { quote }, ttlMs)
+      }
+      console.log(`Fetched market data for ${fetched.size}/${missing.length} tokens from ${source.name}`)
+    } catch (error) {
+      console.error(`Failed to fetch market data from ${source.name}:`, error)
+    }
+  }
+
+  const minLiquidityUsd = getMinLiquidityUsd()
+  return coins.map(coin => {
+    if (!coin.contract_address) return coin
+    const key = marketKey({ chain: coin.chain, address: coin.contract_address })
+    if (!quotes.has(key)) return coin
+    const quote = quotes.get(key)
+    return { ...coin, market: quote ? withLiquidityFlag(quote, minLiquidityUsd) : null }
+  })
+}
@@ -0,0 +1,55 @@
+import { MarketDataSource, marketKey, MarketQuote, MarketToken } from './types'
+
+// Small deterministic PRNG seeded from the token, so the same coin always gets the same market
+const createRandom = (value: string): (() => number) => {
+  let state = 2166136261
+  for (let i = 0; i < value.length; i++) {
+    state ^= value.charCodeAt(i)
+    state = Math.imul(state, 16777619)
+  }
+  return () => {
+    state = (state + 0x6D2B79F5) >>> 0
+    let t = state
+    t = Math.imul(t ^ (t >>> 15), t | 1)
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+}
+
+const round = (value: number, decimals: number): number => Number(value.toFixed(decimals))
+
+// Offline market data for development and tests (MARKET_DATA_SOURCE=stub). About one token in ten
+// has no pair and one in five sits on a thin pool, so both cases show up in the UI and alerts.
+export class StubMarketDataSource implements MarketDataSource {
+  readonly name = 'stub'
+
+  async fetchQuotes(tokens: MarketToken[]): Promise<Map<string, MarketQuote>> {
+    const quotes = new Map<string, MarketQuote>()
+    const fetchedAtIso = new Date().toISOString()
+
+    for (const token of tokens) {
+      const random = createRandom(marketKey(token).toLowerCase())
+      if (random() < 0.1) continue
+
+      const liquidity = random() < 0.2 ? 500 + random() * 5000 : 20000 + random() * 2000000
+      const volume24h = liquidity * (0.5 + random() * 5)
+
+      quotes.set(marketKey(token), {
+        source: this.name,
+        price_usd: Number((10 ** (-8 + random() * 8)).toPrecision(4)),
+        price_change_5m: round((random() - 0.5) * 20, 2),
+        price_change_1h: round((random() - 0.5) * 60, 2),
+        liquidity_usd: Math.round(liquidity),
+        fdv_usd: Math.round(liquidity * (5 + random() * 45)),
+        volume_1h_usd: Math.round(volume24h * (0.02 + random() * 0.1)),
+        volume_24h_usd: Math.round(volume24h),
+        dex: 'stub',
+        pair_address: null,
+        pair_url: null,
+        fetched_at_iso: fetchedAtIso,
+      })
+    }
+
+    return quotes
+  }
+}
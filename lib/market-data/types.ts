@@ -0,0 +1,18 @@
+import { MarketData } from '../schemas'
+
+export interface MarketToken {
+  chain: string
+  address: string
+}
+
+// Market data as a source reports it; the low-liquidity flag is applied when it is attached to a coin
+export type MarketQuote = Omit<MarketData, 'low_liquidity'>
+
+// A source of DEX market data. Implementations look up a batch of tokens at once and leave
+// tokens without a tradable pair out of the result, keyed by `marketKey`.
+export interface MarketDataSource {
+  readonly name: string
+  fetchQuotes(tokens: MarketToken[]): Promise<Map<string, MarketQuote>>
+}
+
+export const marketKey = (token: MarketToken): string => `${token.chain.toUpperCase()}:${token.address}`
@@ -0,0 +1,403 @@
+import { AlertRecord, AlertType, BaselineCheck, Coin, RuleEvaluation, TickerCollision } from '../schemas'
+import { formatPrePumpCondition, getPrePumpEvaluation, isPrePump } from '../pre-pump'
+import { getFudSpike, isFudSpike } from '../fud'
+import { formatPrice, formatPriceChange, formatUsd } from '../market-data/format'
+import { getExplorerUrl } from '../chains'
+import { formatConfluence } from '../confluence'
+import { formatMentionRate, isAccelerating } from '../velocity'
+import { formatBaselineDisagreement } from '../baselines'
+
+// Context for a follow-up alert posted while the coin is still in cooldown
+export interface AlertUpdateContext {
+  previous: AlertRecord
+  reason: string
+}
+
+export interface AlertSection {
+  id: 'follow_up' | 'rule' | 'watchlist' | 'collision' | 'metrics' | 'baseline' | 'velocity' | 'market' | 'fud_spike' | 'pre_pump'
+  title: string
+  lines: string[]
+  // Short sections that can sit side by side where the channel supports it
+  inline: boolean
+}
+
+// Channel-neutral alert content. Every notifier renders this same structure in its native format,
+// so Discord, Telegram, Slack and webhook consumers all see identical facts.
+export interface AlertContent {
+  coin: Coin
+  window: string
+  alertType: AlertType
+  update?: AlertUpdateContext
+  // Emoji label for the alert type, e.g. "🚨 PRE-PUMP ALERT"
+  label: string
+  title: string
+  color: number
+  // Headline figures, rendered as "label: value" pairs
+  highlights: Array<{ label: string, value: string }>
+  reason: string
+  sections: AlertSection[]
+  sources: Array<{ label: string, url: string }>
+  contract: string | null
+  // Token page on the chain's block explorer
+  explorerUrl: string | null
+  // Names of the watchlists this alert is sent for
+  watchlists?: string[]
+  // Name of the custom rule that triggered the alert
+  rule?: string
+}
+
+export type SystemMessageType = 'info' | 'warning' | 'error'
+
+export const SYSTEM_MESSAGE_STYLES: Record<SystemMessageType, { icon: string, color: number }> = {
+  info: { icon: 'ℹ️', color: 0x3B82F6 },
+  warning: { icon: '⚠️', color: 0xF59E0B },
+  error: { icon: '❌', color: 0xEF4444 },
+}
+
+export const systemMessageTitle = (type: SystemMessageType): string =>
+  `${SYSTEM_MESSAGE_STYLES[type].icon} System ${type.charAt(0).toUpperCase() + type.slice(1)}`
+
+// Title label and color per alert type
+export const ALERT_STYLES: Record<AlertType, { label: string, shortLabel: string, color: number }> = {
+  pre_pump: { label: '🚨 PRE-PUMP ALERT', shortLabel: 'Pre-pump', color: 0xFF4444 },
+  fud_spike: { label: '⚠️ FUD SPIKE', shortLabel: 'FUD spike', color: 0xF59E0B },
+  accelerating: { label: '🚀 ACCELERATING', shortLabel: 'Accelerating', color: 0x8B5CF6 },
+  trending: { label: '📈 TRENDING', shortLabel: 'Trending', color: 0x3B82F6 },
+  alert: { label: '🔔 ALERT', shortLabel: 'Alert', color: 0x3B82F6 },
+}
+
+// Alert type for a coin when the caller hasn't classified it already
+export const classifyAlertType = (coin: Coin): AlertType => {
+  if (isPrePump(coin)) return 'pre_pump'
+  if (isFudSpike(coin)) return 'fud_spike'
+  if (isAccelerating(coin)) return 'accelerating'
+  return 'trending'
+}
+
+// "Pre-pump alert sent 14:05 UTC at 62% hype (5m)"; Discord passes its own relative-time markup as `when`
+export const describePreviousAlert = (
+  previous: AlertRecord,
+  when: string = `sent ${previous.sent_at_iso.slice(11, 16)} UTC`
+): string => `${ALERT_STYLES[previous.alert_type].shortLabel} alert ${when} at ${(previous.hype_score * 100).toFixed(0)}% hype (${previous.window})`
+
+const formatSeen = (iso: string): string => `${iso.slice(0, 10)} ${iso.slice(11, 16)} UTC`
+
+// Name both contracts when a ticker is shared, so readers know which one the alert is about
+const describeCollision = (coin: Coin, collision: TickerCollision): AlertSection => {
+  const { original } = collision
+  const others = collision.contracts - 1
+  if (collision.possible_clone) {
+    return {
+      id: 'collision',
+      title: '⚠️ Possible Clone',
+      lines: [
+        `Newcomer: ${coin.contract_address} (${coin.chain}), first seen ${formatSeen(collision.first_seen_iso)}`,
+        `Original: ${original.contract_address} (${original.chain}), first seen ${formatSeen(original.first_seen_iso)}`,
+        `${collision.contracts} contracts have used $${coin.symbol}; verify the contract before trading.`,
+      ],
+      inline: false,
+    }
+  }
+  return {
+    id: 'collision',
+    title: '🧬 Original Contract',
+    lines: [
+      `First $${coin.symbol} contract seen (${formatSeen(original.first_seen_iso)}); ${others} newer ${others === 1 ? 'contract copies' : 'contracts copy'} the ticker.`,
+    ],
+    inline: false,
+  }
+}
+
+// Where the baseline came from, and any counts where the model's report disagrees with history
+const describeBaselineCheck = (check: BaselineCheck): string[] => {
+  const source = check.source === 'history'
+    ? `${check.samples} earlier ${check.samples === 1 ? 'run' : 'runs'} (${check.method === 'avg_24h' ? '24h avg' : 'prev window'})`
+    : check.samples === 0 ? 'model report (no history)' : 'model report'
+  return [
+    `Source: ${source}`,
+    ...check.disagreements.map(d => `⚠️ ${formatBaselineDisagreement(d)}`),
+  ]
+}
+
+const formatMinutes = (minutes: number): string =>
+  minutes < 60 ? `${minutes}m` : `${Math.floor(minutes / 60)}h ${minutes % 60}m`
+
+const formatRatio = (current: number, baseline: number): string =>
+  baseline > 0 ? (current / baseline).toFixed(1) : 'N/A'
+
+export function buildAlertContent(
+  coin: Coin,
+  window: string = '5m',
+  alertType: AlertType = classifyAlertType(coin),
+  update?: AlertUpdateContext
+): AlertContent {
+  const { counts, baseline, hype_score, sentiment, reason_short, top_tweets } = coin
+  const { label, color } = ALERT_STYLES[alertType]
+
+  const tweetGrowth = formatRatio(counts.tweet_count, baseline.tweet_count)
+  const authorGrowth = formatRatio(counts.unique_authors, baseline.unique_authors)
+  const kolVerifiedCount = counts.kol_count + counts.verified_count
+
+  const sections: AlertSection[] = []
+
+  // Reference the alert this one escalates
+  if (update) {
+    sections.push({
+      id: 'follow_up',
+      title: '↩️ Follows Earlier Alert',
+      lines: [describePreviousAlert(update.previous), `Escalation: ${update.reason}`],
+      inline: false,
+    })
+  }
+
+  if (coin.collision) {
+    sections.push(describeCollision(coin, coin.collision))
+  }
+
+  sections.push(
+    {
+      id: 'metrics',
+      title: '📊 Metrics',
+      lines: [
+        `Tweets: ${counts.tweet_count} (${tweetGrowth}x)`,
+        `Authors: ${counts.unique_authors} (${authorGrowth}x)`,
+        `KOLs: ${counts.kol_count} | Verified: ${counts.verified_count}`,
+        `Cashtags: ${counts.cashtag_count} | Hashtags: ${counts.hashtag_count}`,
+        `New Wallets: ${counts.new_wallet_signals}`,
+        `Sentiment: ${sentiment >= 0 ? '+' : ''}${sentiment.toFixed(2)}`,
+      ],
+      inline: true,
+    },
+    {
+      id: 'baseline',
+      title: '🎯 Baseline Comparison',
+      lines: [
+        `Base Tweets: ${baseline.tweet_count}`,
+        `Base Authors: ${baseline.unique_authors}`,
+        `Base KOLs: ${baseline.kol_count}`,
+        `Base Verified: ${baseline.verified_count}`,
+        ...(coin.baseline_check ? describeBaselineCheck(coin.baseline_check) : []),
+      ],
+      inline: true,
+    }
+  )
+
+  // The radar's own measurements between runs, next to the baseline comparison
+  if (coin.velocity) {
+    const { velocity } = coin
+    sections.push({
+      id: 'velocity',
+      title: alertType === 'accelerating' ? '🚀 Acceleration' : '⏱️ Velocity',
+      lines: [
+        `Mentions: ${formatMentionRate(velocity)}`,
+        `Acceleration: ${velocity.acceleration === null ? 'N/A' : `${velocity.acceleration >= 0 ? '+' : ''}${velocity.acceleration.toFixed(2)}`}`,
+        `First seen: ${formatMinutes(velocity.minutes_since_first_seen)} ago (${velocity.runs} ${velocity.runs === 1 ? 'run' : 'runs'})`,
+      ],
+      inline: true,
+    })
+  }
+
+  // DEX market next to the social numbers, so hype on a thin pool is obvious
+  if (coin.market !== undefined) {
+    const { market } = coin
+    sections.push({
+      id: 'market',
+      title: '💧 Market',
+      lines: market
+        ? [
+            `Price: ${formatPrice(market.price_usd)}`,
+            `5m: ${formatPriceChange(market.price_change_5m)} | 1h: ${formatPriceChange(market.price_change_1h)}`,
+            `Liquidity: ${formatUsd(market.liquidity_usd)}${market.low_liquidity ? ' ⚠️ LOW' : ''}`,
+            `FDV: ${formatUsd(market.fdv_usd)}`,
+            `Volume 24h: ${formatUsd(market.volume_24h_usd)}`,
+          ]
+        : ['No DEX pair found'],
+      inline: true,
+    })
+  }
+
+  // Negative-sentiment surges get an explicit warning ahead of the pre-pump checklist
+  if (alertType === 'fud_spike') {
+    const fud = getFudSpike(coin)
+    sections.push({
+      id: 'fud_spike',
+      title: '⚠️ FUD Spike',
+      lines: [
+        `Tweets ${fud.tweet_growth.toFixed(1)}x baseline (≥ ${fud.thresholds.min_tweet_growth}x) with sentiment ${fud.sentiment.toFixed(2)} (≤ ${fud.thresholds.max_sentiment.toFixed(2)})`,
+        'Volume is driven by negative chatter (rug accusations, scam warnings) — not a buy signal.',
+      ],
+      inline: false,
+    })
+  }
+
+  // Show which pre-pump conditions passed and by how much
+  sections.push({
+    id: 'pre_pump',
+    title: alertType === 'pre_pump' ? '✅ Pre-pump Checks' : '🧪 Pre-pump Checks',
+    lines: getPrePumpEvaluation(coin).conditions.map(formatPrePumpCondition),
+    inline: false,
+  })
+
+  return {
+    coin,
+    window,
+    alertType,
+    update,
+    label,
+    title: `${update ? '🔺 UPDATE • ' : ''}${label} • $${coin.symbol} (${coin.chain})${coin.collision?.possible_clone ? ' ⚠️ CLONE?' : ''} • ${window}`,
+    color,
+    highlights: [
+      { label: 'Hype Score', value: `${(hype_score * 100).toFixed(0)}%` },
+      { label: 'Growth', value: `Tweets +${tweetGrowth}x, Authors +${authorGrowth}x` },
+      { label: 'Influence', value: `${kolVerifiedCount} KOL+Verified` },
+      ...(coin.confluence
+        ? [{ label: 'Confluence', value: `${(coin.confluence.score * 100).toFixed(0)}% (${formatConfluence(coin.confluence)})` }]
+        : []),
+    ],
+    reason: reason_short,
+    sections,
+    sources: top_tweets.slice(0, 3).map(tweet => ({ label: tweet.author_handle, url: tweet.url })),
+    contract: coin.contract_address ?? null,
+    explorerUrl: coin.contract_address ? getExplorerUrl(coin.chain, coin.contract_address) : null,
+  }
+}
+
+// Sections explaining why an alert went out sit right after the follow-up note, ahead of the metrics
+const insertLeadSection = (sections: AlertSection[], section: AlertSection): AlertSection[] => {
+  const at = sections[0]?.id === 'follow_up' ? 1 : 0
+  return [...sections.slice(0, at), section, ...sections.slice(at)]
+}
+
+// Mark an alert as sent for watchlists, so subscribers can tell why a coin below the usual cutoff alerted
+export function withWatchlists(content: AlertContent, names: string[]): AlertContent {
+  if (names.length === 0) return content
+  return {
+    ...content,
+    title: `👀 ${content.title}`,
+    sections: insertLeadSection(content.sections, {
+      id: 'watchlist',
+      title: '👀 Watchlist',
+      lines: [`On ${names.join(', ')}`],
+      inline: false,
+    }),
+    watchlists: names,
+  }
+}
+
+const formatRuleValue = (actual: RuleEvaluation['all'][number]['actual']): string =>
+  typeof actual === 'number' ? String(Number(actual.toFixed(2))) : String(actual)
+
+// Mark an alert as triggered by a custom rule, with the figures behind each condition it matched
+export function withRuleMatch(content: AlertContent, ruleName: string, evaluation: RuleEvaluation): AlertContent {
+  const passed = [...evaluation.all, ...evaluation.any].filter(result => result.passed)
+  return {
+    ...content,
+    title: `${content.title} • ${ruleName}`,
+    sections: insertLeadSection(content.sections, {
+      id: 'rule',
+      title: `🧩 Rule: ${ruleName}`,
+      lines: passed.map(result => `✅ ${result.condition} (${formatRuleValue(result.actual)})`),
+      inline: false,
+    }),
+    rule: ruleName,
+  }
+}
+
+// Digest mode bundles a cycle's alerts into one message per channel: 'embeds' keeps one compact card
+// per alert where the channel supports it (Discord, up to 10 per message), 'table' sends a ranked table
+export type DigestStyle = 'embeds' | 'table'
+
+export interface AlertDigest {
+  // 'cycle' bundles one send-alerts run; 'summary' is the scheduled top-coins recap
+  kind: 'cycle' | 'summary'
+  style: DigestStyle
+  title: string
+  color: number
+  // Ranked: position in the array is the row number
+  alerts: AlertContent[]
+  footer: string
+}
+
+export const DIGEST_TABLE_MAX_ROWS = 20
+
+// ALERT_DIGEST_MODE=embeds|table turns digest mode on; unset or 'off' sends one message per alert. An unknown
+// value is logged and treated as 'off', since a config typo mustn't stop a cycle's alerts.
+export function getDigestMode(): DigestStyle | null {
+  const mode = process.env.ALERT_DIGEST_MODE || 'off'
+  switch (mode) {
+    case 'off':
+      return null
+    case 'embeds':
+    case 'table':
+      return mode
+    default:
+      console.warn(`Unknown ALERT_DIGEST_MODE "${mode}", sending one message per alert`)
+      return null
+  }
+}
+
+const pad = (value: string, width: number): string =>
+  value.length > width ? `${value.slice(0, width - 1)}…` : value.padEnd(width)
+
+// Fixed-width ranked table, meant for a monospace block. Rows past `maxRows` collapse into a "+N more" line.
+export function formatDigestTable(alerts: AlertContent[], maxRows: number = DIGEST_TABLE_MAX_ROWS): string[] {
+  const lines = [`${pad('#', 3)}${pad('COIN', 11)}${pad('CHAIN', 6)}${pad('WIN', 4)}${pad('TYPE', 10)}${pad('HYPE', 5)}TWEETS`]
+
+  alerts.slice(0, maxRows).forEach((content, index) => {
+    const { coin } = content
+    const growth = formatRatio(coin.counts.tweet_count, coin.baseline.tweet_count)
+    const type = `${ALERT_STYLES[content.alertType].shortLabel}${content.update ? '↑' : ''}`
+    lines.push([
+      pad(`${index + 1}`, 3),
+      pad(`$${coin.symbol}`, 11),
+      pad(coin.chain, 6),
+      pad(content.window, 4),
+      pad(type, 10),
+      pad(`${(coin.hype_score * 100).toFixed(0)}%`, 5),
+      `${coin.counts.tweet_count} (${growth}x)`,
+    ].join(''))
+  })
+
+  if (alerts.length > maxRows) {
+    lines.push(`+${alerts.length - maxRows} more`)
+  }
+  return lines
+}
+
+// "2 Pre-pump • 1 FUD spike • 3 Trending"
+const describeAlertMix = (alerts: AlertContent[]): string =>
+  (Object.keys(ALERT_STYLES) as AlertType[])
+    .map(type => ({ type, count: alerts.filter(content => content.alertType === type).length }))
+    .filter(({ count }) => count > 0)
+    .map(({ type, count }) => `${count} ${ALERT_STYLES[type].shortLabel}`)
+    .join(' • ')
+
+// One send-alerts cycle for one channel; alerts arrive in priority order and keep it
+export function buildCycleDigest(alerts: AlertContent[], style: DigestStyle): AlertDigest {
+  return {
+    kind: 'cycle',
+    style,
+    title: `📬 Alert Digest • ${alerts.length} alert${alerts.length === 1 ? '' : 's'}`,
+    // The highest-priority alert sets the tone
+    color: alerts[0] ? alerts[0].color : SYSTEM_MESSAGE_STYLES.info.color,
+    alerts,
+    footer: `${describeAlertMix(alerts)} • Twitter Meme Radar`,
+  }
+}
+
+// Scheduled recap of the highest-hype coins across several windows, ranked by hype score
+export function buildSummaryDigest(
+  alerts: AlertContent[],
+  period: 'hourly' | 'daily',
+  windows: string[],
+  style: DigestStyle = 'table'
+): AlertDigest {
+  return {
+    kind: 'summary',
+    style,
+    title: `🏆 ${period === 'hourly' ? 'Hourly' : 'Daily'} Top Coins • ${windows.join(' / ')}`,
+    color: SYSTEM_MESSAGE_STYLES.info.color,
+    alerts: [...alerts].sort((a, b) => b.coin.hype_score - a.coin.hype_score),
+    footer: 'Twitter Meme Radar • Scheduled summary',
+  }
+}
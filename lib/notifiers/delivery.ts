@@ -0,0 +1,130 @@
+export interface DeliveryResult {
+  ok: boolean
+  attempts: number
+  status?: number
+  // Worth trying again later (rate limited, 5xx, network error) as opposed to a permanent rejection
+  retryable: boolean
+  error?: string
+}
+
+export interface RetryPolicy {
+  maxAttempts: number
+  baseDelayMs: number
+  // Longest wait we'll sit through inside one run; longer rate limits go to the delivery queue instead
+  maxWaitMs: number
+}
+
+const parsePositive = (value: string | undefined, fallback: number): number => {
+  const parsed = parseFloat(value || '')
+  return parsed > 0 ? parsed : fallback
+}
+
+export const getRetryPolicy = (): RetryPolicy => ({
+  maxAttempts: Math.round(parsePositive(process.env.NOTIFY_MAX_ATTEMPTS, 3)),
+  baseDelayMs: parsePositive(process.env.NOTIFY_RETRY_BASE_MS, 500),
+  maxWaitMs: parsePositive(process.env.NOTIFY_MAX_WAIT_MS, 15000),
+})
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms))
+
+// Exponential backoff with jitter: base, 2x base, 4x base, ... each ±25%
+const backoffMs = (attempt: number, policy: RetryPolicy): number =>
+  policy.baseDelayMs * Math.pow(2, attempt - 1) * (0.75 + Math.random() * 0.5)
+
+// How long a 429 asks us to wait. Discord sends `retry_after` (seconds) in the body, Telegram nests it
+// under `parameters`, and Slack uses the standard Retry-After header.
+async function getRetryAfterMs(response: Response): Promise<number | null> {
+  try {
+    const body = await response.clone().json()
+    const seconds = body?.retry_after ?? body?.parameters?.retry_after
+    if (typeof seconds === 'number') return seconds * 1000
+  } catch {
+    // Not JSON; fall back to headers
+  }
+
+  const header = response.headers.get('retry-after') ?? response.headers.get('x-ratelimit-reset-after')
+  const seconds = header ? parseFloat(header) : NaN
+  return Number.isFinite(seconds) ? seconds * 1000 : null
+}
+
+// Tracks a channel's rate-limit bucket from response headers so the next request waits for the
+// reset instead of hitting a 429
+export class RateLimiter {
+  private nextAllowedAt = 0
+
+  async wait(): Promise<void> {
+    const delay = this.nextAllowedAt - Date.now()
+    if (delay > 0) await sleep(delay)
+  }
+
+  update(response: Response): void {
+    const remaining = response.headers.get('x-ratelimit-remaining')
+    const resetAfter = parseFloat(response.headers.get('x-ratelimit-reset-after') || '')
+    if (remaining === '0' && Number.isFinite(resetAfter)) {
+      this.nextAllowedAt = Math.max(this.nextAllowedAt, Date.now() + resetAfter * 1000)
+    }
+  }
+
+  block(ms: number): void {
+    this.nextAllowedAt = Math.max(this.nextAllowedAt, Date.now() + ms)
+  }
+}
+
+// Send with rate-limit awareness: honor 429 retry hints, back off on 5xx and network errors,
+// and give up (retryable) when the wait would exceed the policy.
+export async function deliverWithRetry(
+  send: () => Promise<Response>,
+  limiter: RateLimiter,
+  policy: RetryPolicy = getRetryPolicy()
+): Promise<DeliveryResult> {
+  let lastStatus: number | undefined
+  let lastError = 'no attempts made'
+
+  for (let attempt = 1; attempt <= policy.maxAttempts; attempt++) {
+    await limiter.wait()
+
+    let response: Response
+    try {
+      response = await send()
+    } catch (error) {
+      lastError = error instanceof Error ? error.message : String(error)
+      if (attempt < policy.maxAttempts) await sleep(backoffMs(attempt, policy))
+      continue
+    }
+
+    limiter.update(response)
+    lastStatus = response.status
+
+    if (response.ok) {
+      return { ok: true, attempts: attempt, status: response.status, retryable: false }
+    }
+
+    if (response.status === 429) {
+      const waitMs = (await getRetryAfterMs(response)) ?? backoffMs(attempt, policy)
+      limiter.block(waitMs)
+      lastError = `rate limited for ${(waitMs / 1000).toFixed(1)}s`
+      if (waitMs > policy.maxWaitMs) {
+        return { ok: false, attempts: attempt, status: 429, retryable: true, error: lastError }
+      }
+      continue
+    }
+
+    if (response.status >= 500) {
+      lastError = `${response.status} ${response.statusText}`
+      if (attempt < policy.maxAttempts) await sleep(backoffMs(attempt, policy))
+      continue
+    }
+
+    // Other 4xx: the request itself is wrong and retrying won't help
+    const detail = await response.text().catch(() => '')
+    return {
+      ok: false,
+      attempts: attempt,
+      status: response.status,
+      retryable: false,
+      error: `${response.status} ${response.statusText}${detail ? `: ${detail.slice(0, 200)}` : ''}`,
+    }
+  }
+
+  return { ok: false, attempts: policy.maxAttempts, status: lastStatus, retryable: true, error: lastError }
+}
@@ -0,0 +1,256 @@
+import { Coin } from '../schemas'
+import {
+  AlertContent,
+  AlertDigest,
+  buildAlertContent,
+  buildCycleDigest,
+  DigestStyle,
+  formatDigestTable,
+  getDigestMode,
+  describePreviousAlert,
+  SYSTEM_MESSAGE_STYLES,
+  SystemMessageType,
+  systemMessageTitle,
+} from './content'
+import { deliverWithRetry, DeliveryResult, RateLimiter } from './delivery'
+import { Notifier } from './types'
+
+interface DiscordEmbed {
+  title: string
+  description: string
+  color: number
+  fields?: Array<{
+    name: string
+    value: string
+    inline?: boolean
+  }>
+  footer?: {
+    text: string
+  }
+  timestamp?: string
+}
+
+// Discord caps a message at 10 embeds
+const MAX_EMBEDS = 10
+
+interface DiscordMessage {
+  content?: string
+  embeds?: DiscordEmbed[]
+}
+
+export class DiscordWebhook implements Notifier {
+  readonly name: string
+  private webhookUrl: string
+  private dryRun: boolean
+  // Discord reports its per-webhook bucket in X-RateLimit-* headers; requests wait for the reset
+  private limiter = new RateLimiter()
+
+  constructor(webhookUrl: string, dryRun: boolean = false, name: string = 'discord') {
+    this.webhookUrl = webhookUrl
+    this.dryRun = dryRun
+    this.name = name
+  }
+
+  // POST a message to the webhook, or just log it in dry-run mode
+  private async post(message: DiscordMessage): Promise<Response> {
+    if (this.dryRun) {
+      console.log(`[${this.name} dry-run]`, JSON.stringify(message, null, 2))
+      return new Response(null, { status: 204 })
+    }
+
+    return fetch(this.webhookUrl, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(message),
+    })
+  }
+
+  async sendAlert(content: AlertContent): Promise<DeliveryResult> {
+    const message = this.formatAlertMessage(content)
+    const result = await deliverWithRetry(() => this.post(message), this.limiter)
+
+    if (!result.ok) {
+      console.error(`Discord webhook failed (${this.name}):`, result.error)
+    }
+
+    return result
+  }
+
+  private formatAlertMessage(content: AlertContent): DiscordMessage {
+    const description = `${content.highlights.map(h => `**${h.label}:** ${h.value}`).join(' | ')}\n\n**${content.reason}**`
+
+    const fields = content.sections.map(section => {
+      const lines = [...section.lines]
+      // Discord renders <t:...:R> as a live relative time in the reader's locale
+      if (section.id === 'follow_up' && content.update) {
+        const sentAtUnix = Math.floor(new Date(content.update.previous.sent_at_iso).getTime() / 1000)
+        lines[0] = describePreviousAlert(content.update.previous, `<t:${sentAtUnix}:R>`)
+        lines[1] = `**Escalation:** ${content.update.reason}`
+      }
+      if (section.id === 'market' && content.coin.market?.pair_url) {
+        lines.push(`[Chart on ${content.coin.market.dex ?? 'DEX'}](${content.coin.market.pair_url})`)
+      }
+      return { name: section.title, value: lines.join('\n'), inline: section.inline }
+    })
+
+    // Add tweet sources if available
+    if (content.sources.length > 0) {
+      fields.push({
+        name: '🔗 Top Sources',
+        value: content.sources.map(source => `[${source.label}](${source.url})`).join(' • '),
+        inline: false
+      })
+    }
+
+    // Add contract address if available
+    if (content.contract) {
+      fields.push({
+        name: '📝 Contract',
+        value: `\`${content.contract}\`${content.explorerUrl ? `\n[View on explorer](${content.explorerUrl})` : ''}`,
+        inline: false
+      })
+    }
+
+    const embed: DiscordEmbed = {
+      title: content.title,
+      description,
+      color: content.color,
+      fields,
+      footer: {
+        text: 'Twitter Meme Radar • Real-time crypto trend detection'
+      },
+      timestamp: new Date().toISOString()
+    }
+
+    return {
+      embeds: [embed]
+    }
+  }
+
+  async sendDigest(digest: AlertDigest): Promise<DeliveryResult> {
+    const message = this.formatDigestMessage(digest)
+    const result = await deliverWithRetry(() => this.post(message), this.limiter)
+
+    if (!result.ok) {
+      console.error(`Discord digest failed (${this.name}):`, result.error)
+    }
+
+    return result
+  }
+
+  // Headline and reason only, so ten of them stay well inside Discord's 6000-character message limit
+  private formatCompactEmbed(content: AlertContent): DiscordEmbed {
+    return {
+      title: content.title,
+      description: `${content.highlights.map(h => `**${h.label}:** ${h.value}`).join(' | ')}\n${content.reason}`,
+      color: content.color,
+    }
+  }
+
+  // The table is capped at DIGEST_TABLE_MAX_ROWS, which keeps it well under the 4096-character description limit
+  private formatTableEmbed(title: string, color: number, alerts: AlertContent[]): DiscordEmbed {
+    return { title, description: `\`\`\`\n${formatDigestTable(alerts).join('\n')}\n\`\`\``, color }
+  }
+
+  private formatDigestMessage(digest: AlertDigest): DiscordMessage {
+    const footer = { text: digest.footer }
+    const timestamp = new Date().toISOString()
+
+    if (digest.style === 'table') {
+      return {
+        embeds: [{ ...this.formatTableEmbed(digest.title, digest.color, digest.alerts), footer, timestamp }],
+      }
+    }
+
+    // One card per alert; past the embed cap the last slot becomes a table of the overflow
+    const overflow = digest.alerts.length > MAX_EMBEDS
+    const cards = overflow ? digest.alerts.slice(0, MAX_EMBEDS - 1) : digest.alerts
+    const embeds = cards.map(content => this.formatCompactEmbed(content))
+    if (overflow) {
+      const rest = digest.alerts.slice(MAX_EMBEDS - 1)
+      embeds.push(this.formatTableEmbed(`+${rest.length} more`, digest.color, rest))
+    }
+    embeds[embeds.length - 1] = { ...embeds[embeds.length - 1], footer, timestamp }
+
+    return { content: `**${digest.title}**`, embeds }
+  }
+
+  // Pre-pump alerts plus the top 3 others. In digest mode they go out as one message, otherwise one message each.
+  async sendBatchAlert(coins: Coin[], window: string = '5m', digestStyle: DigestStyle | null = getDigestMode()): Promise<boolean> {
+    if (coins.length === 0) return true
+
+    try {
+      const contents = coins.map(coin => buildAlertContent(coin, window))
+      const prePumpAlerts = contents.filter(content => content.alertType === 'pre_pump')
+      const otherAlerts = contents.filter(content => content.alertType !== 'pre_pump')
+
+      // Remaining alerts are capped at 3 to avoid spam
+      const topTrending = otherAlerts
+        .sort((a, b) => b.coin.hype_score - a.coin.hype_score)
+        .slice(0, 3)
+
+      if (digestStyle) {
+        const result = await this.sendDigest(buildCycleDigest([...prePumpAlerts, ...topTrending], digestStyle))
+        return result.ok
+      }
+
+      // Send pre-pump alerts first (higher priority); the rate limiter paces consecutive posts
+      for (const content of [...prePumpAlerts, ...topTrending]) {
+        await this.sendAlert(content)
+      }
+
+      return true
+    } catch (error) {
+      console.error('Error sending batch alerts:', error)
+      return false
+    }
+  }
+
+  async sendSystemMessage(message: string, type: SystemMessageType = 'info'): Promise<boolean> {
+    const embed: DiscordEmbed = {
+      title: systemMessageTitle(type),
+      description: message,
+      color: SYSTEM_MESSAGE_STYLES[type].color,
+      footer: {
+        text: 'Twitter Meme Radar System'
+      },
+      timestamp: new Date().toISOString()
+    }
+
+    const result = await deliverWithRetry(() => this.post({ embeds: [embed] }), this.limiter)
+    if (!result.ok) {
+      console.error(`Error sending system message (${this.name}):`, result.error)
+    }
+    return result.ok
+  }
+}
+
+// Singleton instance
+let discordInstance: DiscordWebhook | null = null
+
+export function getDiscordWebhook(): DiscordWebhook {
+  if (!discordInstance) {
+    // DISCORD_DRY_RUN=true logs messages instead of posting, for offline runs
+    const dryRun = process.env.DISCORD_DRY_RUN === 'true'
+    const webhookUrl = process.env.DISCORD_WEBHOOK_URL
+    if (!webhookUrl && !dryRun) {
+      throw new Error('DISCORD_WEBHOOK_URL environment variable is not set')
+    }
+    discordInstance = new DiscordWebhook(webhookUrl || '', dryRun)
+  }
+  return discordInstance
+}
+
+// Utility function for quick alerts
+export async function sendQuickAlert(coin: Coin, window: string = '5m'): Promise<boolean> {
+  try {
+    const discord = getDiscordWebhook()
+    const result = await discord.sendAlert(buildAlertContent(coin, window))
+    return result.ok
+  } catch (error) {
+    console.error('Failed to send quick alert:', error)
+    return false
+  }
+}
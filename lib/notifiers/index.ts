@@ -0,0 +1,52 @@
+import { AlertContent, AlertDigest, SystemMessageType } from './content'
+import { DeliveryResult } from './delivery'
+import { Notifier } from './types'
+
+export type { Notifier } from './types'
+export type { AlertContent, AlertDigest, AlertUpdateContext, DigestStyle, SystemMessageType } from './content'
+export { buildAlertContent, buildCycleDigest, buildSummaryDigest, getDigestMode, withRuleMatch, withWatchlists } from './content'
+export type { DeliveryResult } from './delivery'
+export { AlertRouter, findUnknownChannels, getAlertRouter } from './routing'
+
+export interface ChannelDelivery extends DeliveryResult {
+  channel: string
+}
+
+// Notifiers report failures rather than throwing; anything thrown anyway is treated as transient
+const settle = async (notifier: Notifier, send: Promise<DeliveryResult>): Promise<ChannelDelivery> => {
+  const result = await send.catch((error): DeliveryResult => ({
+    ok: false,
+    attempts: 1,
+    retryable: true,
+    error: error instanceof Error ? error.message : String(error),
+  }))
+  return { channel: notifier.name, ...result }
+}
+
+// Send one alert to every channel in parallel; a failing channel doesn't block the others
+export const fanOutAlert = (notifiers: Notifier[], content: AlertContent): Promise<ChannelDelivery[]> =>
+  Promise.all(notifiers.map(notifier => settle(notifier, notifier.sendAlert(content))))
+
+export const deliverDigest = (notifier: Notifier, digest: AlertDigest): Promise<ChannelDelivery> =>
+  settle(notifier, notifier.sendDigest(digest))
+
+export interface BroadcastResult {
+  delivered: string[]
+  failed: string[]
+}
+
+export async function broadcastSystemMessage(
+  notifiers: Notifier[],
+  message: string,
+  type: SystemMessageType = 'info'
+): Promise<BroadcastResult> {
+  const results = await Promise.all(notifiers.map(async notifier => ({
+    name: notifier.name,
+    ok: await notifier.sendSystemMessage(message, type).catch(() => false),
+  })))
+
+  return {
+    delivered: results.filter(r => r.ok).map(r => r.name),
+    failed: results.filter(r => !r.ok).map(r => r.name),
+  }
+}
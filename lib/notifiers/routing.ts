@@ -0,0 +1,158 @@
+import { readFileSync } from 'fs'
+import {
+  AlertRouteMatch,
+  AlertRoutingConfig,
+  AlertRoutingConfigSchema,
+  NotifierChannel,
+} from '../schemas'
+import { AlertContent, SystemMessageType } from './content'
+import { DiscordWebhook } from './discord'
+import { SlackNotifier } from './slack'
+import { TelegramNotifier } from './telegram'
+import { Notifier } from './types'
+import { SignedWebhookNotifier } from './webhook'
+
+// NOTIFIER_DRY_RUN=true logs every channel's payload instead of posting; DISCORD_DRY_RUN still covers Discord alone
+const isDryRun = (channel: NotifierChannel): boolean =>
+  process.env.NOTIFIER_DRY_RUN === 'true' || (channel.type === 'discord' && process.env.DISCORD_DRY_RUN === 'true')
+
+// Read a channel's env var; unset values are only tolerated in dry-run mode
+const readEnv = (channel: NotifierChannel, variable: string): string => {
+  const value = process.env[variable]
+  if (!value && !isDryRun(channel)) {
+    throw new Error(`Alert channel "${channel.name}" needs ${variable} to be set`)
+  }
+  return value || ''
+}
+
+export function createNotifier(channel: NotifierChannel): Notifier {
+  const dryRun = isDryRun(channel)
+
+  switch (channel.type) {
+    case 'discord':
+      return new DiscordWebhook(readEnv(channel, channel.url_env), dryRun, channel.name)
+    case 'telegram':
+      return new TelegramNotifier(readEnv(channel, channel.token_env), readEnv(channel, channel.chat_id_env), dryRun, channel.name)
+    case 'slack':
+      return new SlackNotifier(readEnv(channel, channel.url_env), dryRun, channel.name)
+    case 'webhook':
+      return new SignedWebhookNotifier(readEnv(channel, channel.url_env), readEnv(channel, channel.secret_env), dryRun, channel.name)
+  }
+}
+
+// Without ALERT_ROUTES_PATH, every channel configured through the standard env vars receives everything
+export function buildDefaultRoutingConfig(): AlertRoutingConfig {
+  const channels: NotifierChannel[] = []
+  const dryRun = process.env.NOTIFIER_DRY_RUN === 'true'
+
+  if (process.env.DISCORD_WEBHOOK_URL || process.env.DISCORD_DRY_RUN === 'true' || dryRun) {
+    channels.push({ name: 'discord', type: 'discord', url_env: 'DISCORD_WEBHOOK_URL' })
+  }
+  if (process.env.TELEGRAM_BOT_TOKEN && process.env.TELEGRAM_CHAT_ID) {
+    channels.push({ name: 'telegram', type: 'telegram', token_env: 'TELEGRAM_BOT_TOKEN', chat_id_env: 'TELEGRAM_CHAT_ID' })
+  }
+  if (process.env.SLACK_WEBHOOK_URL) {
+    channels.push({ name: 'slack', type: 'slack', url_env: 'SLACK_WEBHOOK_URL' })
+  }
+  if (process.env.ALERT_WEBHOOK_URL) {
+    channels.push({ name: 'webhook', type: 'webhook', url_env: 'ALERT_WEBHOOK_URL', secret_env: 'ALERT_WEBHOOK_SECRET' })
+  }
+
+  if (channels.length === 0) {
+    throw new Error('No alert channels configured. Set DISCORD_WEBHOOK_URL, TELEGRAM_BOT_TOKEN + TELEGRAM_CHAT_ID, SLACK_WEBHOOK_URL, ALERT_WEBHOOK_URL or ALERT_ROUTES_PATH')
+  }
+
+  const names = channels.map(channel => channel.name)
+  return {
+    channels,
+    routes: [{ name: 'all', match: {}, channels: names, stop: false }],
+    system: { info: names, warning: names, error: names },
+  }
+}
+
+export function getAlertRoutingConfig(): AlertRoutingConfig {
+  const path = process.env.ALERT_ROUTES_PATH
+  return path
+    ? AlertRoutingConfigSchema.parse(JSON.parse(readFileSync(path, 'utf8')))
+    : buildDefaultRoutingConfig()
+}
+
+export const matchesRoute = (match: AlertRouteMatch, content: Pick<AlertContent, 'coin' | 'alertType' | 'window'>): boolean => {
+  const { coin, alertType, window } = content
+  if (match.alert_types && !match.alert_types.includes(alertType)) return false
+  if (match.chains && !match.chains.some(chain => chain.toUpperCase() === coin.chain.toUpperCase())) return false
+  if (match.windows && !match.windows.some(w => w === window)) return false
+  if (match.min_hype_score !== undefined && coin.hype_score < match.min_hype_score) return false
+  if (match.min_kol_count !== undefined && coin.counts.kol_count < match.min_kol_count) return false
+  return true
+}
+
+// Resolves which channels an alert or system message goes to
+export class AlertRouter {
+  private config: AlertRoutingConfig
+  private notifiers: Record<string, Notifier> = {}
+
+  constructor(config: AlertRoutingConfig) {
+    this.config = config
+
+    for (const channel of config.channels) {
+      if (this.notifiers[channel.name]) {
+        throw new Error(`Duplicate alert channel name: ${channel.name}`)
+      }
+      this.notifiers[channel.name] = createNotifier(channel)
+    }
+
+    // Catch typos in routes at startup rather than silently dropping alerts
+    const referenced = [
+      ...config.routes.flatMap(route => route.channels),
+      ...config.system.info,
+      ...config.system.warning,
+      ...config.system.error,
+    ]
+    const unknown = referenced.filter(name => !this.notifiers[name])
+    if (unknown.length > 0) {
+      throw new Error(`Alert routes reference unknown channels: ${Array.from(new Set(unknown)).join(', ')}`)
+    }
+  }
+
+  get channelNames(): string[] {
+    return Object.keys(this.notifiers)
+  }
+
+  getChannel(name: string): Notifier | undefined {
+    return this.notifiers[name]
+  }
+
+  // Routes are evaluated in order; every matching route adds its channels until one with `stop` matches
+  resolve(content: Pick<AlertContent, 'coin' | 'alertType' | 'window'>): { routes: string[], notifiers: Notifier[] } {
+    const routes: string[] = []
+    const channels = new Set<string>()
+
+    for (const route of this.config.routes) {
+      if (!matchesRoute(route.match, content)) continue
+      routes.push(route.name)
+      route.channels.forEach(channel => channels.add(channel))
+      if (route.stop) break
+    }
+
+    return { routes, notifiers: Array.from(channels).map(name => this.notifiers[name]) }
+  }
+
+  systemChannels(type: SystemMessageType): Notifier[] {
+    return this.config.system[type].map(name => this.notifiers[name])
+  }
+}
+
+// Singleton instance
+let routerInstance: AlertRouter | null = null
+
+export function getAlertRouter(): AlertRouter {
+  if (!routerInstance) {
+    routerInstance = new AlertRouter(getAlertRoutingConfig())
+  }
+  return routerInstance
+}
+
+// Names in a watchlist's or rule's `channels` that the routing config doesn't define
+export const findUnknownChannels = (channels: string[], router: AlertRouter = getAlertRouter()): string[] =>
+  Array.from(new Set(channels.filter(name => !router.getChannel(name))))
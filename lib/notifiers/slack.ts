@@ -0,0 +1,138 @@
+import { AlertContent, AlertDigest, formatDigestTable, SystemMessageType, systemMessageTitle } from './content'
+import { deliverWithRetry, DeliveryResult, RateLimiter } from './delivery'
+import { Notifier } from './types'
+
+// Slack mrkdwn only needs these three escaped
+const escapeMrkdwn = (text: string): string =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;')
+
+// `<url|label>` link with both parts escaped; a `|` in the URL would end it early, so it is percent-encoded
+const link = (url: string, label: string): string =>
+  `<${escapeMrkdwn(url).replace(/\|/g, '%7C')}|${escapeMrkdwn(label)}>`
+
+interface SlackMessage {
+  // Fallback for notifications and clients without Block Kit
+  text: string
+  blocks?: unknown[]
+}
+
+const section = (text: string) => ({ type: 'section', text: { type: 'mrkdwn', text } })
+
+// Posts Block Kit messages to a Slack incoming webhook
+export class SlackNotifier implements Notifier {
+  readonly name: string
+  private webhookUrl: string
+  private dryRun: boolean
+  private limiter = new RateLimiter()
+
+  constructor(webhookUrl: string, dryRun: boolean = false, name: string = 'slack') {
+    this.webhookUrl = webhookUrl
+    this.dryRun = dryRun
+    this.name = name
+  }
+
+  private async post(message: SlackMessage): Promise<Response> {
+    if (this.dryRun) {
+      console.log(`[${this.name} dry-run]`, JSON.stringify(message, null, 2))
+      return new Response(null, { status: 200 })
+    }
+
+    return fetch(this.webhookUrl, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(message),
+    })
+  }
+
+  async sendAlert(content: AlertContent): Promise<DeliveryResult> {
+    const message = this.formatAlertMessage(content)
+    const result = await deliverWithRetry(() => this.post(message), this.limiter)
+
+    if (!result.ok) {
+      console.error(`Slack webhook failed (${this.name}):`, result.error)
+    }
+
+    return result
+  }
+
+  private formatAlertMessage(content: AlertContent): SlackMessage {
+    const blocks: unknown[] = [
+      // Header blocks are plain text and capped at 150 characters
+      { type: 'header', text: { type: 'plain_text', text: content.title.slice(0, 150), emoji: true } },
+      section(`${content.highlights.map(h => `*${escapeMrkdwn(h.label)}:* ${escapeMrkdwn(h.value)}`).join(' | ')}\n\n*${escapeMrkdwn(content.reason)}*`),
+    ]
+
+    // Inline sections become side-by-side fields; the rest get their own block
+    const inlineSections = content.sections.filter(s => s.inline)
+    const fullSections = content.sections.filter(s => !s.inline)
+
+    for (const s of fullSections.filter(s => s.id === 'follow_up')) {
+      blocks.push(section(`*${escapeMrkdwn(s.title)}*\n${s.lines.map(escapeMrkdwn).join('\n')}`))
+    }
+
+    if (inlineSections.length > 0) {
+      blocks.push({
+        type: 'section',
+        fields: inlineSections.map(s => ({
+          type: 'mrkdwn',
+          text: `*${escapeMrkdwn(s.title)}*\n${s.lines.map(escapeMrkdwn).join('\n')}`,
+        })),
+      })
+    }
+
+    for (const s of fullSections.filter(s => s.id !== 'follow_up')) {
+      blocks.push(section(`*${escapeMrkdwn(s.title)}*\n${s.lines.map(escapeMrkdwn).join('\n')}`))
+    }
+
+    if (content.sources.length > 0) {
+      const links = content.sources.map(source => link(source.url, source.label))
+      blocks.push(section(`*🔗 Top Sources*\n${links.join(' • ')}`))
+    }
+
+    if (content.contract) {
+      const explorer = content.explorerUrl ? `\n${link(content.explorerUrl, 'View on explorer')}` : ''
+      blocks.push(section(`*📝 Contract*\n\`${escapeMrkdwn(content.contract)}\`${explorer}`))
+    }
+
+    blocks.push({
+      type: 'context',
+      elements: [{ type: 'mrkdwn', text: 'Twitter Meme Radar • Real-time crypto trend detection' }],
+    })
+
+    return { text: content.title, blocks }
+  }
+
+  // Slack renders digests as the ranked table in a code block, whatever the style
+  async sendDigest(digest: AlertDigest): Promise<DeliveryResult> {
+    const message: SlackMessage = {
+      text: digest.title,
+      blocks: [
+        { type: 'header', text: { type: 'plain_text', text: digest.title.slice(0, 150), emoji: true } },
+        section(`\`\`\`${escapeMrkdwn(formatDigestTable(digest.alerts).join('\n'))}\`\`\``),
+        { type: 'context', elements: [{ type: 'mrkdwn', text: escapeMrkdwn(digest.footer) }] },
+      ],
+    }
+    const result = await deliverWithRetry(() => this.post(message), this.limiter)
+
+    if (!result.ok) {
+      console.error(`Slack digest failed (${this.name}):`, result.error)
+    }
+
+    return result
+  }
+
+  async sendSystemMessage(message: string, type: SystemMessageType = 'info'): Promise<boolean> {
+    const title = systemMessageTitle(type)
+    const payload = {
+      text: `${title}: ${message}`,
+      blocks: [section(`*${escapeMrkdwn(title)}*\n${escapeMrkdwn(message)}`)],
+    }
+    const result = await deliverWithRetry(() => this.post(payload), this.limiter)
+    if (!result.ok) {
+      console.error(`Error sending Slack system message (${this.name}):`, result.error)
+    }
+    return result.ok
+  }
+}
@@ -0,0 +1,104 @@
+import { AlertContent, AlertDigest, formatDigestTable, SystemMessageType, systemMessageTitle } from './content'
+import { deliverWithRetry, DeliveryResult, RateLimiter } from './delivery'
+import { Notifier } from './types'
+
+// Quotes too, since the same escaping is used inside href="..." attributes
+const escapeHtml = (text: string): string =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;')
+
+// Posts to a chat through the Telegram Bot API using its HTML parse mode
+export class TelegramNotifier implements Notifier {
+  readonly name: string
+  private botToken: string
+  private chatId: string
+  private dryRun: boolean
+  private limiter = new RateLimiter()
+
+  constructor(botToken: string, chatId: string, dryRun: boolean = false, name: string = 'telegram') {
+    this.botToken = botToken
+    this.chatId = chatId
+    this.dryRun = dryRun
+    this.name = name
+  }
+
+  private async post(text: string): Promise<Response> {
+    const payload = {
+      chat_id: this.chatId,
+      text,
+      parse_mode: 'HTML',
+      disable_web_page_preview: true,
+    }
+
+    if (this.dryRun) {
+      console.log(`[${this.name} dry-run]`, JSON.stringify(payload, null, 2))
+      return new Response(null, { status: 200 })
+    }
+
+    return fetch(`https://api.telegram.org/bot${this.botToken}/sendMessage`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(payload),
+    })
+  }
+
+  async sendAlert(content: AlertContent): Promise<DeliveryResult> {
+    const text = this.formatAlertMessage(content)
+    const result = await deliverWithRetry(() => this.post(text), this.limiter)
+
+    if (!result.ok) {
+      console.error(`Telegram sendMessage failed (${this.name}):`, result.error)
+    }
+
+    return result
+  }
+
+  private formatAlertMessage(content: AlertContent): string {
+    const blocks = [
+      `<b>${escapeHtml(content.title)}</b>`,
+      content.highlights.map(h => `<b>${escapeHtml(h.label)}:</b> ${escapeHtml(h.value)}`).join('\n'),
+      `<i>${escapeHtml(content.reason)}</i>`,
+      ...content.sections.map(section =>
+        [`<b>${escapeHtml(section.title)}</b>`, ...section.lines.map(escapeHtml)].join('\n')
+      ),
+    ]
+
+    if (content.sources.length > 0) {
+      const links = content.sources.map(source => `<a href="${escapeHtml(source.url)}">${escapeHtml(source.label)}</a>`)
+      blocks.push(`<b>🔗 Top Sources</b>\n${links.join(' • ')}`)
+    }
+
+    if (content.contract) {
+      const explorer = content.explorerUrl ? `\n<a href="${escapeHtml(content.explorerUrl)}">View on explorer</a>` : ''
+      blocks.push(`<b>📝 Contract</b>\n<code>${escapeHtml(content.contract)}</code>${explorer}`)
+    }
+
+    return blocks.join('\n\n')
+  }
+
+  // Telegram has no embeds, so digests are always the ranked table
+  async sendDigest(digest: AlertDigest): Promise<DeliveryResult> {
+    const text = [
+      `<b>${escapeHtml(digest.title)}</b>`,
+      `<pre>${escapeHtml(formatDigestTable(digest.alerts).join('\n'))}</pre>`,
+      `<i>${escapeHtml(digest.footer)}</i>`,
+    ].join('\n\n')
+    const result = await deliverWithRetry(() => this.post(text), this.limiter)
+
+    if (!result.ok) {
+      console.error(`Telegram digest failed (${this.name}):`, result.error)
+    }
+
+    return result
+  }
+
+  async sendSystemMessage(message: string, type: SystemMessageType = 'info'): Promise<boolean> {
+    const text = `<b>${escapeHtml(systemMessageTitle(type))}</b>\n${escapeHtml(message)}`
+    const result = await deliverWithRetry(() => this.post(text), this.limiter)
+    if (!result.ok) {
+      console.error(`Error sending Telegram system message (${this.name}):`, result.error)
+    }
+    return result.ok
+  }
+}
@@ -0,0 +1,12 @@
+import { AlertContent, AlertDigest, SystemMessageType } from './content'
+import { DeliveryResult } from './delivery'
+
+// A channel alerts can be delivered to. Implementations render the shared AlertContent in their
+// native format, retry transient failures, and report the outcome rather than throwing.
+export interface Notifier {
+  readonly name: string
+  sendAlert(content: AlertContent): Promise<DeliveryResult>
+  // Several alerts as a single message
+  sendDigest(digest: AlertDigest): Promise<DeliveryResult>
+  sendSystemMessage(message: string, type?: SystemMessageType): Promise<boolean>
+}
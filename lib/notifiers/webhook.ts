@@ -0,0 +1,117 @@
+import { createHmac } from 'crypto'
+import { AlertContent, AlertDigest, SystemMessageType } from './content'
+import { deliverWithRetry, DeliveryResult, RateLimiter } from './delivery'
+import { Notifier } from './types'
+
+// Signature over `${timestamp}.${body}`, so receivers can reject replayed or tampered payloads:
+//   expected = 'sha256=' + hex(HMAC-SHA256(secret, `${X-Radar-Timestamp}.${rawBody}`))
+export const signWebhookPayload = (secret: string, timestamp: string, body: string): string =>
+  `sha256=${createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex')}`
+
+// POSTs JSON to an arbitrary endpoint, signed with a shared secret
+export class SignedWebhookNotifier implements Notifier {
+  readonly name: string
+  private url: string
+  private secret: string
+  private dryRun: boolean
+  private limiter = new RateLimiter()
+
+  constructor(url: string, secret: string, dryRun: boolean = false, name: string = 'webhook') {
+    this.url = url
+    this.secret = secret
+    this.dryRun = dryRun
+    this.name = name
+  }
+
+  private async post(payload: Record<string, unknown>): Promise<Response> {
+    const body = JSON.stringify(payload)
+    const timestamp = Math.floor(Date.now() / 1000).toString()
+
+    if (this.dryRun) {
+      console.log(`[${this.name} dry-run]`, body)
+      return new Response(null, { status: 204 })
+    }
+
+    return fetch(this.url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'X-Radar-Timestamp': timestamp,
+        'X-Radar-Signature': signWebhookPayload(this.secret, timestamp, body),
+      },
+      body,
+    })
+  }
+
+  private formatAlert(content: AlertContent) {
+    const { coin, update } = content
+    return {
+      alert_type: content.alertType,
+      window: content.window,
+      kind: update ? 'update' : 'new',
+      previous_alert_id: update?.previous.id ?? null,
+      escalation_reason: update?.reason ?? null,
+      watchlists: content.watchlists ?? [],
+      rule: content.rule ?? null,
+      coin,
+      content: {
+        title: content.title,
+        highlights: content.highlights,
+        reason: content.reason,
+        sections: content.sections,
+        sources: content.sources,
+        contract: content.contract,
+        explorer_url: content.explorerUrl,
+      },
+    }
+  }
+
+  async sendAlert(content: AlertContent): Promise<DeliveryResult> {
+    const payload = {
+      type: 'alert',
+      ...this.formatAlert(content),
+      sent_at_iso: new Date().toISOString(),
+    }
+
+    // Each attempt is re-signed with a fresh timestamp
+    const result = await deliverWithRetry(() => this.post(payload), this.limiter)
+
+    if (!result.ok) {
+      console.error(`Alert webhook failed (${this.name}):`, result.error)
+    }
+
+    return result
+  }
+
+  // Receivers get every alert in full; the style only matters to chat channels
+  async sendDigest(digest: AlertDigest): Promise<DeliveryResult> {
+    const payload = {
+      type: 'digest',
+      kind: digest.kind,
+      title: digest.title,
+      alerts: digest.alerts.map(content => this.formatAlert(content)),
+      sent_at_iso: new Date().toISOString(),
+    }
+    const result = await deliverWithRetry(() => this.post(payload), this.limiter)
+
+    if (!result.ok) {
+      console.error(`Digest webhook failed (${this.name}):`, result.error)
+    }
+
+    return result
+  }
+
+  async sendSystemMessage(message: string, type: SystemMessageType = 'info'): Promise<boolean> {
+    const payload = {
+      type: 'system',
+      level: type,
+      message,
+      sent_at_iso: new Date().toISOString(),
+    }
+    const result = await deliverWithRetry(() => this.post(payload), this.limiter)
+    if (!result.ok) {
+      console.error(`Error sending webhook system message (${this.name}):`, result.error)
+    }
+    return result.ok
+  }
+}
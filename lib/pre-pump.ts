@@ -0,0 +1,90 @@
+import { Coin, PrePumpCondition, PrePumpEvaluation, PrePumpThresholds } from './schemas'
+
+export const DEFAULT_PRE_PUMP_THRESHOLDS: PrePumpThresholds = {
+  tweet_growth: 3,
+  author_growth: 2,
+  kol_verified: 5,
+  // Strongly negative chatter is a FUD spike, not an early pump
+  min_sentiment: -0.2,
+}
+
+const parseThreshold = (value: string | undefined, fallback: number): number => {
+  const parsed = parseFloat(value || '')
+  return parsed >= 0 ? parsed : fallback
+}
+
+const parseSentiment = (value: string | undefined, fallback: number): number => {
+  const parsed = parseFloat(value || '')
+  return parsed >= -1 && parsed <= 1 ? parsed : fallback
+}
+
+// Thresholds can be tuned per deployment without code changes
+export const getPrePumpThresholds = (): PrePumpThresholds => ({
+  tweet_growth: parseThreshold(process.env.PRE_PUMP_TWEET_GROWTH, DEFAULT_PRE_PUMP_THRESHOLDS.tweet_growth),
+  author_growth: parseThreshold(process.env.PRE_PUMP_AUTHOR_GROWTH, DEFAULT_PRE_PUMP_THRESHOLDS.author_growth),
+  kol_verified: parseThreshold(process.env.PRE_PUMP_KOL_VERIFIED, DEFAULT_PRE_PUMP_THRESHOLDS.kol_verified),
+  min_sentiment: parseSentiment(process.env.PRE_PUMP_MIN_SENTIMENT, DEFAULT_PRE_PUMP_THRESHOLDS.min_sentiment),
+})
+
+// The rule as the provider prompt states it, e.g. "tweet_count ≥3x baseline, authors ≥2x baseline, KOL+verified ≥5, sentiment ≥-0.2"
+export const describePrePumpRule = (thresholds: PrePumpThresholds = getPrePumpThresholds()): string =>
+  `tweet_count ≥${thresholds.tweet_growth}x baseline, authors ≥${thresholds.author_growth}x baseline, ` +
+  `KOL+verified ≥${thresholds.kol_verified}, sentiment ≥${thresholds.min_sentiment}`
+
+const condition = (id: PrePumpCondition['id'], label: string, value: number, threshold: number): PrePumpCondition => ({
+  id,
+  label,
+  value,
+  threshold,
+  passed: value >= threshold,
+  margin: value - threshold,
+})
+
+// The single pre-pump rule. Every endpoint, alert and UI element reads its result from here.
+export const evaluatePrePump = (
+  coin: Pick<Coin, 'counts' | 'baseline' | 'sentiment'>,
+  thresholds: PrePumpThresholds = getPrePumpThresholds()
+): PrePumpEvaluation => {
+  const { counts, baseline } = coin
+
+  // Growth vs. baseline; a zero baseline can't demonstrate growth
+  const tweetGrowth = baseline.tweet_count > 0 ? counts.tweet_count / baseline.tweet_count : 0
+  const authorGrowth = baseline.unique_authors > 0 ? counts.unique_authors / baseline.unique_authors : 0
+  const kolVerifiedCount = counts.kol_count + counts.verified_count
+
+  const conditions = [
+    condition('tweet_growth', 'Tweet growth vs baseline', tweetGrowth, thresholds.tweet_growth),
+    condition('author_growth', 'Author growth vs baseline', authorGrowth, thresholds.author_growth),
+    condition('kol_verified', 'KOL + verified authors', kolVerifiedCount, thresholds.kol_verified),
+    condition('sentiment', 'Sentiment', coin.sentiment, thresholds.min_sentiment),
+  ]
+  const passedCount = conditions.filter(c => c.passed).length
+
+  return {
+    is_pre_pump: passedCount === conditions.length,
+    passed_count: passedCount,
+    conditions,
+    thresholds,
+  }
+}
+
+// Prefer the evaluation attached by discover-trends so every consumer sees the same verdict
+export const getPrePumpEvaluation = (coin: Coin): PrePumpEvaluation => {
+  return coin.pre_pump ?? evaluatePrePump(coin)
+}
+
+export const isPrePump = (coin: Coin): boolean => getPrePumpEvaluation(coin).is_pre_pump
+
+// Human-readable one-liner, e.g. "✅ Tweet growth vs baseline: 4.2x (needs ≥ 3x)"
+export const formatPrePumpCondition = (c: PrePumpCondition): string => {
+  let value = `${c.value.toFixed(1)}x`
+  let threshold = `${c.threshold}x`
+  if (c.id === 'kol_verified') {
+    value = c.value.toFixed(0)
+    threshold = c.threshold.toFixed(0)
+  } else if (c.id === 'sentiment') {
+    value = c.value.toFixed(2)
+    threshold = c.threshold.toFixed(2)
+  }
+  return `${c.passed ? '✅' : '❌'} ${c.label}: ${value} (needs ≥ ${threshold})`
+}
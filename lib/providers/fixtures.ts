@@ -0,0 +1,49 @@
+import path from 'path'
+import { Window } from '../schemas'
+import { listDir, readJsonFile, writeJsonFile } from '../storage'
+
+// One recorded provider response, exactly as the provider returned it
+export interface TrendFixture {
+  provider: string
+  window: Window
+  recorded_at_iso: string
+  response: unknown
+}
+
+export function getFixturesDir(): string {
+  return path.resolve(process.env.FIXTURES_DIR || 'fixtures/trends')
+}
+
+export const isFixtureRecordingEnabled = (): boolean => process.env.RECORD_FIXTURES === 'true'
+
+// Save a raw response as <fixtures>/<window>/<timestamp>-<provider>.json
+export async function recordFixture(provider: string, window: Window, response: unknown): Promise<string> {
+  const recordedAt = new Date().toISOString()
+  const fileName = `${recordedAt.replace(/[:.]/g, '-')}-${provider}.json`
+  const filePath = path.join(getFixturesDir(), window, fileName)
+
+  const fixture: TrendFixture = {
+    provider,
+    window,
+    recorded_at_iso: recordedAt,
+    response,
+  }
+
+  await writeJsonFile(filePath, fixture)
+  return filePath
+}
+
+// All fixtures for a window, oldest first (file names sort chronologically)
+export async function loadFixtures(window: Window): Promise<TrendFixture[]> {
+  const dir = path.join(getFixturesDir(), window)
+  const files = (await listDir(dir)).filter(file => file.endsWith('.json')).sort()
+  const fixtures: TrendFixture[] = []
+
+  for (const file of files) {
+    const fixture = await readJsonFile(path.join(dir, file)) as TrendFixture | null
+    if (fixture && fixture.response) fixtures.push(fixture)
+  }
+
+  return fixtures
+}
+
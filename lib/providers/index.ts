@@ -0,0 +1,30 @@
+import { createGrokProvider, createLLMProvider } from './openai-compatible'
+import { ReplayProvider } from './replay'
+import { TrendProvider } from './types'
+
+export type { TrendProvider } from './types'
+
+// Provider factories by name. Add new backends (tweet ingestion, ...) here.
+const PROVIDER_FACTORIES: Record<string, () => TrendProvider> = {
+  grok: createGrokProvider,
+  llm: createLLMProvider,
+  replay: () => new ReplayProvider(),
+}
+
+export const getAvailableProviders = (): string[] => Object.keys(PROVIDER_FACTORIES)
+
+export const getDefaultProviderName = (): string => process.env.TREND_PROVIDER || 'grok'
+
+// Cached instances, one per provider name
+const providerInstances: Record<string, TrendProvider> = {}
+
+export function getTrendProvider(name: string = getDefaultProviderName()): TrendProvider {
+  if (!providerInstances[name]) {
+    const factory = PROVIDER_FACTORIES[name]
+    if (!factory) {
+      throw new Error(`Unknown trend provider: ${name}. Available: ${getAvailableProviders().join(', ')}`)
+    }
+    providerInstances[name] = factory()
+  }
+  return providerInstances[name]
+}
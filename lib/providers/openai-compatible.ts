@@ -0,0 +1,173 @@
+import { GrokResponse, validateGrokResponse, Window } from '../schemas'
+import { describeProfileFormula } from '../scoring'
+import { describePrePumpRule } from '../pre-pump'
+import { AddressFormat, CHAINS } from '../chains'
+import { isFixtureRecordingEnabled, recordFixture } from './fixtures'
+import { TrendProvider } from './types'
+
+interface ChatCompletionRequest {
+  model: string
+  messages: Array<{
+    role: 'system' | 'user'
+    content: string
+  }>
+  temperature: number
+  max_tokens: number
+  response_format: {
+    type: 'json_object'
+  }
+}
+
+export interface OpenAICompatibleConfig {
+  name: string
+  endpoint: string
+  model: string
+  apiKey: string | undefined
+  // Environment variable that should hold the API key, used in error messages
+  apiKeyEnv: string
+  temperature?: number
+  maxTokens?: number
+}
+
+const SYSTEM_PROMPT = "You are a crypto meme-coin trend hunter for X.com. Output valid JSON only matching schema. No prose."
+
+const ADDRESS_FORMAT_HINTS: Record<AddressFormat, string> = {
+  base58: 'base58 mint',
+  evm: '0x checksummed hex',
+  ton: 'user-friendly EQ… form',
+}
+
+// "SOL base58 mint, ETH/BSC/... 0x checksummed hex, TON user-friendly EQ… form"
+const describeAddressFormats = (): string => {
+  const formats = Object.keys(ADDRESS_FORMAT_HINTS) as AddressFormat[]
+  return formats
+    .map(format => ({ format, ids: CHAINS.filter(chain => chain.addressFormat === format).map(chain => chain.id) }))
+    .filter(({ ids }) => ids.length > 0)
+    .map(({ format, ids }) => `${ids.join('/')} ${ADDRESS_FORMAT_HINTS[format]}`)
+    .join(', ')
+}
+
+export const generateUserPrompt = (window: Window): string => {
+  return `Find trending meme coins on X in the last ${window}.
+Chains: ${CHAINS.map(chain => chain.id).join(', ')}. Use these exact codes for chain. English only.
+contract_address in the chain's native format: ${describeAddressFormats()}; null if unknown.
+Extract: tweet_count, unique_authors, verified_count, kol_count, cashtag_count, hashtag_count, new_wallet_signals.
+Return 1–3 top tweet URLs + authors with flags.
+Disambiguate tokens (cashtags/contracts).
+Exclude spam/bots.
+Add baseline: if ${window} ∈ {1m,5m,15m} → prev window; if {1h,4h,24h} → avg_24h.
+Compute hype_score 0..1 using:
+${describeProfileFormula()}.
+Reason_short ≤18 words.
+Pre-pump (we compute): ${describePrePumpRule()}.
+Output JSON only. If no coins pass ≥5 tweets & 3 authors, return {"coins":[],"window_used":"${window}","generated_at_iso":"${new Date().toISOString()}"}.`
+}
+
+// Any chat-completions endpoint that supports JSON mode (xAI Grok, OpenAI, OpenRouter, local gateways, ...)
+export class OpenAICompatibleProvider implements TrendProvider {
+  readonly name: string
+  private config: OpenAICompatibleConfig
+
+  constructor(config: OpenAICompatibleConfig) {
+    this.name = config.name
+    this.config = config
+  }
+
+  async fetchTrends(window: Window): Promise<GrokResponse> {
+    const raw = await this.fetchRaw(window)
+
+    // Capture the untouched response for offline replay (RECORD_FIXTURES=true)
+    if (isFixtureRecordingEnabled()) {
+      try {
+        const fixturePath = await recordFixture(this.name, window, raw)
+        console.log(`Recorded ${this.name} fixture: ${fixturePath}`)
+      } catch (error) {
+        console.error('Failed to record fixture:', error)
+      }
+    }
+
+    return validateGrokResponse(raw)
+  }
+
+  // Call the endpoint and return the parsed, not yet validated, JSON content
+  async fetchRaw(window: Window): Promise<unknown> {
+    const apiKey = this.config.apiKey
+    if (!apiKey) {
+      throw new Error(`${this.config.apiKeyEnv} environment variable is not set`)
+    }
+
+    const request: ChatCompletionRequest = {
+      model: this.config.model,
+      messages: [
+        {
+          role: 'system',
+          content: SYSTEM_PROMPT
+        },
+        {
+          role: 'user',
+          content: generateUserPrompt(window)
+        }
+      ],
+      temperature: this.config.temperature ?? 0.1,
+      max_tokens: this.config.maxTokens ?? 4000,
+      response_format: {
+        type: 'json_object'
+      }
+    }
+
+    const response = await fetch(this.config.endpoint, {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${apiKey}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(request),
+    })
+
+    if (!response.ok) {
+      const errorText = await response.text()
+      throw new Error(`${this.name} API error: ${response.status} ${response.statusText} - ${errorText}`)
+    }
+
+    const data = await response.json()
+
+    if (!data.choices || !data.choices[0] || !data.choices[0].message) {
+      throw new Error(`Invalid response format from ${this.name} API`)
+    }
+
+    const content = data.choices[0].message.content
+
+    try {
+      return JSON.parse(content)
+    } catch (error) {
+      console.error(`Failed to parse ${this.name} response:`, content)
+      throw new Error(`Invalid JSON response from ${this.name} API`)
+    }
+  }
+}
+
+export function createGrokProvider(): OpenAICompatibleProvider {
+  return new OpenAICompatibleProvider({
+    name: 'grok',
+    endpoint: process.env.GROK_API_ENDPOINT || 'https://api.x.ai/v1/chat/completions',
+    model: process.env.GROK_MODEL || 'grok-beta',
+    apiKey: process.env.GROK_API_KEY,
+    apiKeyEnv: 'GROK_API_KEY',
+  })
+}
+
+export function createLLMProvider(): OpenAICompatibleProvider {
+  const endpoint = process.env.LLM_API_ENDPOINT
+  const model = process.env.LLM_MODEL
+  if (!endpoint || !model) {
+    throw new Error('LLM_API_ENDPOINT and LLM_MODEL environment variables must be set for the llm provider')
+  }
+
+  return new OpenAICompatibleProvider({
+    name: 'llm',
+    endpoint,
+    model,
+    apiKey: process.env.LLM_API_KEY,
+    apiKeyEnv: 'LLM_API_KEY',
+  })
+}
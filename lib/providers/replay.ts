@@ -0,0 +1,101 @@
+import { Counts, GrokResponse, validateGrokResponse, Window } from '../schemas'
+import { getKeyValueStore } from '../kv'
+import { loadFixtures } from './fixtures'
+import { TrendProvider } from './types'
+
+export interface ReplayConfig {
+  // Rewrite generated_at_iso to the time of replay so downstream freshness checks behave as live
+  timeShift: boolean
+  // Max relative jitter applied to counts, e.g. 0.2 = ±20%. 0 replays fixtures verbatim.
+  jitter: number
+  seed: number
+}
+
+const COUNT_FIELDS: Array<keyof Counts> = [
+  'tweet_count',
+  'unique_authors',
+  'verified_count',
+  'kol_count',
+  'cashtag_count',
+  'hashtag_count',
+  'new_wallet_signals',
+]
+
+// Small deterministic PRNG (mulberry32) so jittered replays are reproducible for a given seed
+const createRandom = (seed: number): (() => number) => {
+  let state = seed >>> 0
+  return () => {
+    state = (state + 0x6D2B79F5) >>> 0
+    let t = state
+    t = Math.imul(t ^ (t >>> 15), t | 1)
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+}
+
+const hashString = (value: string): number => {
+  let hash = 2166136261
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i)
+    hash = Math.imul(hash, 16777619)
+  }
+  return hash >>> 0
+}
+
+export const getReplayConfig = (): ReplayConfig => ({
+  timeShift: process.env.REPLAY_TIME_SHIFT !== 'false',
+  jitter: Math.min(Math.max(parseFloat(process.env.REPLAY_JITTER || '0') || 0, 0), 1),
+  seed: parseInt(process.env.REPLAY_SEED || '42', 10) || 42,
+})
+
+// Serves recorded fixtures back in order, cycling when it reaches the end
+export class ReplayProvider implements TrendProvider {
+  readonly name = 'replay'
+  private config: ReplayConfig
+
+  constructor(config: ReplayConfig = getReplayConfig()) {
+    this.config = config
+  }
+
+  async fetchTrends(window: Window): Promise<GrokResponse> {
+    const fixtures = await loadFixtures(window)
+    if (fixtures.length === 0) {
+      throw new Error(`No replay fixtures found for ${window} window`)
+    }
+
+    // Cursor is shared through the KV store so separate functions walk the same sequence
+    const cursors = getKeyValueStore('replay')
+    const cursor = (await cursors.get<number>(`cursor:${window}`)) ?? 0
+    await cursors.set(`cursor:${window}`, cursor + 1)
+
+    const fixture = fixtures[cursor % fixtures.length]
+    const response = validateGrokResponse(fixture.response)
+
+    console.log(`Replaying fixture ${cursor % fixtures.length + 1}/${fixtures.length} for ${window} (recorded ${fixture.recorded_at_iso})`)
+
+    return validateGrokResponse(this.transform(response, window, cursor))
+  }
+
+  private transform(response: GrokResponse, window: Window, cursor: number): GrokResponse {
+    const { timeShift, jitter, seed } = this.config
+    const generatedAt = timeShift ? new Date().toISOString() : response.generated_at_iso
+
+    if (jitter === 0) {
+      return { ...response, generated_at_iso: generatedAt }
+    }
+
+    const coins = response.coins.map(coin => {
+      const random = createRandom(seed ^ hashString(`${window}:${cursor}:${coin.chain}:${coin.symbol}`))
+      const counts = { ...coin.counts }
+
+      for (const field of COUNT_FIELDS) {
+        const factor = 1 + (random() * 2 - 1) * jitter
+        counts[field] = Math.max(Math.round(counts[field] * factor), 0)
+      }
+
+      return { ...coin, counts }
+    })
+
+    return { ...response, coins, generated_at_iso: generatedAt }
+  }
+}
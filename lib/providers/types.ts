@@ -0,0 +1,8 @@
+import { GrokResponse, Window } from '../schemas'
+
+// A source of trend data for a window. Implementations must return a validated GrokResponse;
+// hype scores are recalculated downstream so every provider is ranked by the same formula.
+export interface TrendProvider {
+  readonly name: string
+  fetchTrends(window: Window): Promise<GrokResponse>
+}
@@ -1,4 +1,5 @@
 import { z } from 'zod'
+import { CHAIN_IDS } from './chains'
 
 // Window enum for time periods
 export const WindowSchema = z.enum(['1m', '5m', '15m', '1h', '4h', '24h'])
@@ -37,6 +38,261 @@ export const BaselineSchema = z.object({
 })
 export type Baseline = z.infer<typeof BaselineSchema>
 
+// Where the baseline a coin is scored against came from: its own stored history, or the model's report
+// (BASELINE_SOURCE=model, or a coin without usable history)
+export const BaselineSourceSchema = z.enum(['history', 'model'])
+export type BaselineSource = z.infer<typeof BaselineSourceSchema>
+
+// A count where the model's reported baseline and the one measured from history differ by a large factor
+export const BaselineDisagreementSchema = z.object({
+  field: z.enum(['tweet_count', 'unique_authors', 'verified_count', 'kol_count']),
+  reported: z.number().min(0),
+  measured: z.number().min(0),
+  // reported / measured, each plus one so zeros compare
+  ratio: z.number().min(0),
+})
+export type BaselineDisagreement = z.infer<typeof BaselineDisagreementSchema>
+
+export const BaselineCheckSchema = z.object({
+  source: BaselineSourceSchema,
+  // previous_window for 1m/5m/15m, avg_24h for the longer windows
+  method: z.enum(['previous_window', 'avg_24h']),
+  // Earlier runs the local baseline was built from
+  samples: z.number().int().min(0),
+  // Null when no earlier run of the window has the coin
+  local: BaselineSchema.nullable(),
+  // As the model reported it
+  reported: BaselineSchema,
+  // Only measured against history, so empty without a local baseline
+  disagreements: z.array(BaselineDisagreementSchema),
+  flagged: z.boolean(),
+})
+export type BaselineCheck = z.infer<typeof BaselineCheckSchema>
+
+// Pre-pump rule thresholds
+export const PrePumpThresholdsSchema = z.object({
+  tweet_growth: z.number().min(0),
+  author_growth: z.number().min(0),
+  kol_verified: z.number().min(0),
+  min_sentiment: z.number().min(-1).max(1),
+})
+export type PrePumpThresholds = z.infer<typeof PrePumpThresholdsSchema>
+
+// One evaluated pre-pump condition
+export const PrePumpConditionSchema = z.object({
+  id: z.enum(['tweet_growth', 'author_growth', 'kol_verified', 'sentiment']),
+  label: z.string(),
+  value: z.number(),
+  threshold: z.number(),
+  passed: z.boolean(),
+  // value - threshold: positive means cleared by that much, negative means short by that much
+  margin: z.number(),
+})
+export type PrePumpCondition = z.infer<typeof PrePumpConditionSchema>
+
+// Full pre-pump evaluation with the breakdown and thresholds used
+export const PrePumpEvaluationSchema = z.object({
+  is_pre_pump: z.boolean(),
+  passed_count: z.number().int().min(0),
+  conditions: z.array(PrePumpConditionSchema),
+  thresholds: PrePumpThresholdsSchema,
+})
+export type PrePumpEvaluation = z.infer<typeof PrePumpEvaluationSchema>
+
+// Hype score components, in the order they appear in breakdowns
+export const HypeComponentIdSchema = z.enum(['volume_growth', 'kol', 'verified', 'cashtag', 'hashtag', 'wallet', 'grok_hype', 'sentiment'])
+export type HypeComponentId = z.infer<typeof HypeComponentIdSchema>
+
+const ScoringWeightsSchema = z.object({
+  volume_growth: z.number().min(0),
+  kol: z.number().min(0),
+  verified: z.number().min(0),
+  cashtag: z.number().min(0),
+  hashtag: z.number().min(0),
+  wallet: z.number().min(0),
+  grok_hype: z.number().min(0),
+  sentiment: z.number().min(0).default(0),
+})
+
+// Normalization caps: the raw value at which a component saturates at 1.0
+const ScoringCapsSchema = z.object({
+  volume_growth: z.number().positive(),
+  kol: z.number().positive(),
+  verified: z.number().positive(),
+  cashtag: z.number().positive(),
+  hashtag: z.number().positive(),
+  wallet: z.number().positive(),
+})
+
+// Named hype scoring profile, optionally with per-chain variants
+export const ScoringProfileSchema = z.object({
+  name: z.string().min(1),
+  description: z.string().optional(),
+  weights: ScoringWeightsSchema,
+  caps: ScoringCapsSchema,
+  // Fraction of the score removed at sentiment -1, scaled linearly for milder negative sentiment
+  negative_sentiment_penalty: z.number().min(0).max(1).default(0),
+  chain_overrides: z.record(z.string(), z.object({
+    weights: ScoringWeightsSchema.partial().optional(),
+    caps: ScoringCapsSchema.partial().optional(),
+  })).optional(),
+})
+export type ScoringProfile = z.infer<typeof ScoringProfileSchema>
+
+export const ScoringProfilesConfigSchema = z.object({
+  default_profile: z.string(),
+  profiles: z.array(ScoringProfileSchema).min(1),
+})
+export type ScoringProfilesConfig = z.infer<typeof ScoringProfilesConfigSchema>
+
+// Per-component contribution to a coin's hype score
+export const HypeComponentSchema = z.object({
+  id: HypeComponentIdSchema,
+  raw: z.number(),
+  normalized: z.number().min(0).max(1),
+  weight: z.number().min(0),
+  contribution: z.number(),
+})
+export type HypeComponent = z.infer<typeof HypeComponentSchema>
+
+export const HypeBreakdownSchema = z.object({
+  profile: z.string(),
+  // Chain whose override was applied, if any
+  chain_variant: z.string().nullable(),
+  components: z.array(HypeComponentSchema),
+  // Multiplier applied to the summed contributions (below 1 when sentiment is negative)
+  sentiment_multiplier: z.number().min(0).max(1),
+})
+export type HypeBreakdown = z.infer<typeof HypeBreakdownSchema>
+
+// Negative-sentiment surge ("FUD spike") classification
+export const FudSpikeSchema = z.object({
+  is_fud_spike: z.boolean(),
+  tweet_growth: z.number(),
+  sentiment: z.number().min(-1).max(1),
+  thresholds: z.object({
+    min_tweet_growth: z.number().min(0),
+    max_sentiment: z.number().min(-1).max(1),
+  }),
+})
+export type FudSpike = z.infer<typeof FudSpikeSchema>
+
+// Rates the radar measures itself from this window's earlier runs, independent of the model's baseline
+export const VelocitySchema = z.object({
+  // This run's tweet_count over the window length
+  mentions_per_min: z.number().min(0),
+  // Relative change in mentions/minute since the previous run, e.g. 0.5 = +50%; null without a recent previous run
+  mention_growth: z.number().nullable(),
+  // Change in mention_growth since the previous run; null until three successive runs are seen
+  acceleration: z.number().nullable(),
+  previous_run_iso: z.string().datetime().nullable(),
+  minutes_since_previous: z.number().min(0).nullable(),
+  // Earliest run of this window within the lookback that included the coin
+  first_seen_iso: z.string().datetime(),
+  minutes_since_first_seen: z.number().min(0),
+  // Runs within the lookback that included the coin, this one too
+  runs: z.number().int().min(1),
+  is_accelerating: z.boolean(),
+  thresholds: z.object({
+    min_acceleration: z.number().min(0),
+    min_mentions_per_min: z.number().min(0),
+  }),
+})
+export type Velocity = z.infer<typeof VelocitySchema>
+
+// Outcome of checking a coin's contract address against its chain
+export const AddressStatusSchema = z.enum(['valid', 'invalid', 'chain_mismatch', 'unknown_chain'])
+export type AddressStatus = z.infer<typeof AddressStatusSchema>
+
+export const AddressCheckSchema = z.object({
+  status: AddressStatusSchema,
+  // The address exactly as the provider returned it
+  original: z.string(),
+  message: z.string(),
+})
+export type AddressCheck = z.infer<typeof AddressCheckSchema>
+
+// A contract seen trading under a ticker, as kept by the ticker registry
+export const TickerContractSchema = z.object({
+  chain: z.string(),
+  contract_address: z.string(),
+  first_seen_iso: z.string().datetime(),
+  last_seen_iso: z.string().datetime(),
+})
+export type TickerContract = z.infer<typeof TickerContractSchema>
+
+export const TickerHistorySchema = z.object({
+  symbol: z.string(),
+  // In the order first seen
+  contracts: z.array(TickerContractSchema),
+})
+export type TickerHistory = z.infer<typeof TickerHistorySchema>
+
+// Several contracts share this coin's ticker. The earliest seen is taken as the original; the rest are possible clones.
+export const TickerCollisionSchema = z.object({
+  role: z.enum(['original', 'newcomer']),
+  possible_clone: z.boolean(),
+  first_seen_iso: z.string().datetime(),
+  original: TickerContractSchema.omit({ last_seen_iso: true }),
+  // Distinct contracts seen with this ticker, this one included
+  contracts: z.number().int().min(2),
+})
+export type TickerCollision = z.infer<typeof TickerCollisionSchema>
+
+// DEX market data for a coin's contract, from the configured market-data source
+export const MarketDataSchema = z.object({
+  source: z.string(),
+  price_usd: z.number().min(0).nullable(),
+  // Percent change over the trailing period, e.g. 12.5 = +12.5%
+  price_change_5m: z.number().nullable(),
+  price_change_1h: z.number().nullable(),
+  liquidity_usd: z.number().min(0).nullable(),
+  fdv_usd: z.number().min(0).nullable(),
+  volume_1h_usd: z.number().min(0).nullable(),
+  volume_24h_usd: z.number().min(0).nullable(),
+  dex: z.string().nullable(),
+  pair_address: z.string().nullable(),
+  pair_url: z.string().url().nullable(),
+  // Liquidity below MARKET_MIN_LIQUIDITY_USD (or unknown): hype on a pool this thin is cheap to fake
+  low_liquidity: z.boolean(),
+  fetched_at_iso: z.string().datetime(),
+})
+export type MarketData = z.infer<typeof MarketDataSchema>
+
+// Subset of a DexScreener pair that the market-data source reads
+export const DexScreenerPairSchema = z.object({
+  chainId: z.string(),
+  dexId: z.string(),
+  url: z.string().url().optional(),
+  pairAddress: z.string(),
+  baseToken: z.object({ address: z.string(), symbol: z.string().optional() }),
+  // DexScreener sends prices as strings
+  priceUsd: z.coerce.number().optional(),
+  priceChange: z.object({ m5: z.number(), h1: z.number() }).partial().optional(),
+  volume: z.object({ h1: z.number(), h24: z.number() }).partial().optional(),
+  liquidity: z.object({ usd: z.number() }).partial().optional(),
+  fdv: z.number().optional(),
+})
+export type DexScreenerPair = z.infer<typeof DexScreenerPairSchema>
+
+export const DexScreenerTokensResponseSchema = z.object({
+  pairs: z.array(DexScreenerPairSchema).nullable(),
+})
+
+// How consistently a coin trends across the short windows: in how many it appears, and whether hype
+// rises from the longer windows to the shorter ones
+export const ConfluenceSchema = z.object({
+  score: z.number().min(0).max(1),
+  // Windows compared (those that loaded), longest first
+  windows: z.array(WindowSchema),
+  // The coin's hype in each compared window it appears in
+  hype_by_window: z.record(WindowSchema, z.number().min(0).max(1)),
+  present: z.number().int().min(0),
+  // In at least two windows, with hype higher in every shorter one
+  rising: z.boolean(),
+})
+export type Confluence = z.infer<typeof ConfluenceSchema>
+
 // Coin schema for individual coin data
 export const CoinSchema = z.object({
   symbol: z.string(),
@@ -52,6 +308,24 @@ export const CoinSchema = z.object({
   grok_hype: z.number().min(0).max(1),
   reason_short: z.string().max(18 * 10), // ~18 words max
   hype_score: z.number().min(0).max(1),
+  // Attached by discover-trends; clients should read this rather than re-deriving pre-pump status
+  pre_pump: PrePumpEvaluationSchema.optional(),
+  // Attached by discover-trends; how hype_score was built under the selected scoring profile
+  hype_breakdown: HypeBreakdownSchema.optional(),
+  // Attached by discover-trends; flags surges driven by negative sentiment
+  fud_spike: FudSpikeSchema.optional(),
+  // Set by discover-trends when the provider's contract address was rejected or couldn't be verified
+  address_check: AddressCheckSchema.optional(),
+  // Attached by discover-trends when other contracts have used the same ticker
+  collision: TickerCollisionSchema.optional(),
+  // Attached by discover-trends for coins with a contract address; null when no DEX pair was found
+  market: MarketDataSchema.nullable().optional(),
+  // Attached by discover-trends: the locally computed baseline against the model's report
+  baseline_check: BaselineCheckSchema.optional(),
+  // Attached by discover-trends from earlier runs' snapshots
+  velocity: VelocitySchema.optional(),
+  // Attached by send-alerts and api-leaderboard, which load several windows
+  confluence: ConfluenceSchema.optional(),
 })
 export type Coin = z.infer<typeof CoinSchema>
 
@@ -78,10 +352,43 @@ export type GrokResponse = z.infer<typeof GrokResponseSchema>
 // Query parameters for API endpoints
 export const QueryParamsSchema = z.object({
   window: WindowSchema.optional().default('5m'),
-  chain: z.enum(['SOL', 'ETH', 'BSC', 'ALL']).optional().default('ALL'),
+  chain: z.enum(['ALL', ...CHAIN_IDS] as [string, ...string[]]).optional().default('ALL'),
+  provider: z.string().optional(),
+  profile: z.string().optional(),
 })
 export type QueryParams = z.infer<typeof QueryParamsSchema>
 
+// Coin history built from stored snapshots
+export const TimelineRangeSchema = z.enum(['1h', '6h', '24h', '7d'])
+export type TimelineRange = z.infer<typeof TimelineRangeSchema>
+
+export const HypeTimelinePointSchema = z.object({
+  timestamp: z.string().datetime(),
+  hype_score: z.number().min(0).max(1),
+  tweet_count: z.number().int().min(0),
+  unique_authors: z.number().int().min(0),
+  is_pre_pump: z.boolean(),
+})
+export type HypeTimelinePoint = z.infer<typeof HypeTimelinePointSchema>
+
+export const HypeTimelineSchema = z.object({
+  range: TimelineRangeSchema,
+  // Trend window whose snapshots make up the series
+  window: WindowSchema,
+  // Trend provider whose snapshots make up the series
+  provider: z.string(),
+  from_iso: z.string().datetime(),
+  to_iso: z.string().datetime(),
+  points: z.array(HypeTimelinePointSchema),
+})
+export type HypeTimeline = z.infer<typeof HypeTimelineSchema>
+
+export const TimelineQuerySchema = z.object({
+  range: TimelineRangeSchema.optional().default('24h'),
+  window: WindowSchema.optional(),
+})
+export type TimelineQuery = z.infer<typeof TimelineQuerySchema>
+
 // Coin detail response with multiple windows
 export const CoinDetailSchema = z.object({
   symbol: z.string(),
@@ -94,17 +401,353 @@ export const CoinDetailSchema = z.object({
     hype_score: z.number().min(0).max(1),
     timestamp: z.string().datetime(),
   })),
+  timeline: HypeTimelineSchema.optional(),
 })
 export type CoinDetail = z.infer<typeof CoinDetailSchema>
 
+// Alert types sent by the alerting pipeline
+export const AlertTypeSchema = z.enum(['pre_pump', 'trending', 'fud_spike', 'accelerating', 'alert'])
+export type AlertType = z.infer<typeof AlertTypeSchema>
+
 // Discord alert schema
 export const DiscordAlertSchema = z.object({
   coin: CoinSchema,
   is_pre_pump: z.boolean(),
-  alert_type: z.enum(['pre_pump', 'trending', 'alert']),
+  alert_type: AlertTypeSchema,
 })
 export type DiscordAlert = z.infer<typeof DiscordAlertSchema>
 
+// Alert delivery channels. Secrets stay in the environment; configs name the variables that hold them.
+export const NotifierChannelSchema = z.discriminatedUnion('type', [
+  z.object({ name: z.string(), type: z.literal('discord'), url_env: z.string() }),
+  z.object({ name: z.string(), type: z.literal('telegram'), token_env: z.string(), chat_id_env: z.string() }),
+  z.object({ name: z.string(), type: z.literal('slack'), url_env: z.string() }),
+  z.object({ name: z.string(), type: z.literal('webhook'), url_env: z.string(), secret_env: z.string() }),
+])
+export type NotifierChannel = z.infer<typeof NotifierChannelSchema>
+
+// Every listed criterion must hold; omitted criteria match anything
+export const AlertRouteMatchSchema = z.object({
+  alert_types: z.array(AlertTypeSchema).optional(),
+  chains: z.array(z.string()).optional(),
+  windows: z.array(WindowSchema).optional(),
+  min_hype_score: z.number().min(0).max(1).optional(),
+  min_kol_count: z.number().int().min(0).optional(),
+})
+export type AlertRouteMatch = z.infer<typeof AlertRouteMatchSchema>
+
+export const AlertRouteSchema = z.object({
+  name: z.string(),
+  match: AlertRouteMatchSchema.optional().default({}),
+  channels: z.array(z.string()).min(1),
+  // Stop evaluating later routes once this one matches
+  stop: z.boolean().optional().default(false),
+})
+export type AlertRoute = z.infer<typeof AlertRouteSchema>
+
+export const AlertRoutingConfigSchema = z.object({
+  channels: z.array(NotifierChannelSchema).min(1),
+  routes: z.array(AlertRouteSchema),
+  // Channels for system messages, by level
+  system: z.object({
+    info: z.array(z.string()).optional().default([]),
+    warning: z.array(z.string()).optional().default([]),
+    error: z.array(z.string()).optional().default([]),
+  }),
+})
+export type AlertRoutingConfig = z.infer<typeof AlertRoutingConfigSchema>
+
+// A sent alert as recorded in the alert ledger
+export const AlertRecordSchema = z.object({
+  id: z.string(),
+  symbol: z.string(),
+  chain: z.string(),
+  contract_address: z.string().nullable().optional(),
+  window: WindowSchema,
+  alert_type: AlertTypeSchema,
+  hype_score: z.number().min(0).max(1),
+  counts: CountsSchema,
+  // Metrics at alert time, kept for outcome tracking; older records may lack them
+  baseline: BaselineSchema.optional(),
+  sentiment: z.number().min(-1).max(1).optional(),
+  scoring_profile: z.string().optional(),
+  sent_at_iso: z.string().datetime(),
+  // Updates are follow-ups to an earlier alert for the same coin
+  kind: z.enum(['new', 'update']).default('new'),
+  parent_id: z.string().nullable().optional(),
+  escalation_reason: z.string().optional(),
+  // Custom rule (`<owner>/<id>`) that triggered the alert; such alerts keep their own cooldown per rule
+  rule_id: z.string().optional(),
+})
+export type AlertRecord = z.infer<typeof AlertRecordSchema>
+
+// How long after an alert its outcome is checked
+export const OutcomeCheckpointSchema = z.enum(['15m', '1h', '4h'])
+export type OutcomeCheckpoint = z.infer<typeof OutcomeCheckpointSchema>
+
+// continued: momentum held or grew; fizzled: faded without collapsing; reversed: collapsed.
+// no_data: no snapshots were recorded around the checkpoint, so it can't be judged.
+export const OutcomeStatusSchema = z.enum(['continued', 'fizzled', 'reversed', 'no_data'])
+export type OutcomeStatus = z.infer<typeof OutcomeStatusSchema>
+
+export const CheckpointResultSchema = z.object({
+  status: OutcomeStatusSchema,
+  checked_at_iso: z.string().datetime(),
+  // The snapshot the alert was compared against; null when the coin had dropped out of the trends
+  snapshot_at_iso: z.string().datetime().nullable(),
+  hype_score: z.number().nullable(),
+  tweet_count: z.number().nullable(),
+  hype_delta: z.number().nullable(),
+  tweet_ratio: z.number().nullable(),
+})
+export type CheckpointResult = z.infer<typeof CheckpointResultSchema>
+
+export const AlertOutcomeSchema = z.object({
+  alert_id: z.string(),
+  sent_at_iso: z.string().datetime(),
+  checkpoints: z.object({
+    '15m': CheckpointResultSchema.optional(),
+    '1h': CheckpointResultSchema.optional(),
+    '4h': CheckpointResultSchema.optional(),
+  }),
+})
+export type AlertOutcome = z.infer<typeof AlertOutcomeSchema>
+
+export const OutcomeReportQuerySchema = z.object({
+  days: z.coerce.number().int().min(1).max(90).optional().default(7),
+  checkpoint: OutcomeCheckpointSchema.optional().default('1h'),
+})
+export type OutcomeReportQuery = z.infer<typeof OutcomeReportQuerySchema>
+
+// Outcome counts for one slice of alerts (e.g. every pre_pump alert)
+export const OutcomeReportGroupSchema = z.object({
+  key: z.string(),
+  alerts: z.number().int(),
+  continued: z.number().int(),
+  fizzled: z.number().int(),
+  reversed: z.number().int(),
+  no_data: z.number().int(),
+  // Not yet checked at this checkpoint
+  pending: z.number().int(),
+  // continued / (continued + fizzled + reversed); null until something has resolved
+  hit_rate: z.number().min(0).max(1).nullable(),
+})
+export type OutcomeReportGroup = z.infer<typeof OutcomeReportGroupSchema>
+
+export const OutcomeDimensionSchema = z.enum(['alert_type', 'window', 'chain', 'scoring_profile'])
+export type OutcomeDimension = z.infer<typeof OutcomeDimensionSchema>
+
+export const OutcomeReportSchema = z.object({
+  checkpoint: OutcomeCheckpointSchema,
+  from_iso: z.string().datetime(),
+  to_iso: z.string().datetime(),
+  overall: OutcomeReportGroupSchema,
+  by: z.record(OutcomeDimensionSchema, z.array(OutcomeReportGroupSchema)),
+})
+export type OutcomeReport = z.infer<typeof OutcomeReportSchema>
+
+// Thresholds that decide which coins alert; the backtester swaps in alternatives
+export const AlertRulesSchema = z.object({
+  pre_pump: PrePumpThresholdsSchema,
+  fud_spike: FudSpikeSchema.shape.thresholds,
+  trending_min_hype: z.number().min(0).max(1),
+  max_trending_per_cycle: z.number().int().min(0),
+})
+export type AlertRules = z.infer<typeof AlertRulesSchema>
+
+// A backtest rules file: anything left out keeps the current setting
+export const BacktestRulesSchema = z.object({
+  pre_pump: PrePumpThresholdsSchema.partial().optional(),
+  fud_spike: FudSpikeSchema.shape.thresholds.partial().optional(),
+  trending_min_hype: z.number().min(0).max(1).optional(),
+  max_trending_per_cycle: z.number().int().min(0).optional(),
+  cooldown: z.object({
+    minutes: z.number().positive(),
+    hype_escalation_delta: z.number().positive(),
+    kol_escalation_delta: z.number().positive(),
+  }).partial().optional(),
+})
+export type BacktestRules = z.infer<typeof BacktestRulesSchema>
+
+// Cache metadata attached to discover-trends responses so clients can show data age
+export const CacheInfoSchema = z.object({
+  hit: z.boolean(),
+  stale: z.boolean(),
+  age_seconds: z.number().min(0),
+  ttl_seconds: z.number().min(0),
+  fetched_at_iso: z.string().datetime(),
+})
+export type CacheInfo = z.infer<typeof CacheInfoSchema>
+
+// Snapshot of a single coin as seen by one discover-trends run
+export const CoinSnapshotSchema = z.object({
+  symbol: z.string(),
+  chain: z.string(),
+  name: z.string().optional(),
+  contract_address: z.string().nullable().optional(),
+  window: WindowSchema,
+  counts: CountsSchema,
+  baseline: BaselineSchema,
+  sentiment: z.number().min(-1).max(1),
+  grok_hype: z.number().min(0).max(1),
+  hype_score: z.number().min(0).max(1),
+  generated_at_iso: z.string().datetime(),
+  recorded_at_iso: z.string().datetime(),
+  provider: z.string().optional(),
+})
+export type CoinSnapshot = z.infer<typeof CoinSnapshotSchema>
+
+// Query parameters for reading snapshots back
+export const SnapshotQuerySchema = z.object({
+  symbol: z.string().optional(),
+  chain: z.string().optional(),
+  // Contract address; narrows a symbol shared by several tokens down to one
+  address: z.string().optional(),
+  window: WindowSchema.optional(),
+  provider: z.string().optional(),
+  from: z.string().datetime().optional(),
+  to: z.string().datetime().optional(),
+  limit: z.coerce.number().int().min(1).max(5000).optional().default(500),
+})
+export type SnapshotQuery = z.input<typeof SnapshotQuerySchema>
+
+// Ids for user-owned records (watchlists, custom alert rules). There are no accounts, so the id is the only handle on a record.
+export const RecordIdSchema = z.string().regex(/^[A-Za-z0-9_-]{1,64}$/, 'Use 1-64 letters, digits, dashes or underscores')
+
+export const WatchlistIdSchema = RecordIdSchema
+
+// A watched coin: chain plus symbol, contract address or both. The address pins one token when several share a ticker.
+export const WatchlistEntrySchema = z.object({
+  chain: z.string().min(1),
+  symbol: z.string().min(1).optional(),
+  contract_address: z.string().min(1).optional(),
+  added_at_iso: z.string().datetime().optional(),
+}).refine(entry => entry.symbol || entry.contract_address, { message: 'Each entry needs a symbol or a contract_address' })
+export type WatchlistEntry = z.infer<typeof WatchlistEntrySchema>
+
+// Alert subscription for a watchlist's coins
+export const WatchlistAlertsSchema = z.object({
+  enabled: z.boolean().default(true),
+  // Watched coins alert as trending from this hype score, below the global cutoff (default WATCHLIST_MIN_HYPE)
+  min_hype_score: z.number().min(0).max(1).optional(),
+  // Alert channels that receive this watchlist's alerts; empty means the normal routes
+  channels: z.array(z.string()).default([]),
+})
+export type WatchlistAlerts = z.infer<typeof WatchlistAlertsSchema>
+
+export const WatchlistSchema = z.object({
+  id: WatchlistIdSchema,
+  name: z.string().min(1).max(80),
+  entries: z.array(WatchlistEntrySchema).max(100),
+  alerts: WatchlistAlertsSchema.default({}),
+  created_at_iso: z.string().datetime(),
+  updated_at_iso: z.string().datetime(),
+})
+export type Watchlist = z.infer<typeof WatchlistSchema>
+
+// Body of a PUT to api-watchlists; the name defaults to the id
+export const WatchlistInputSchema = z.object({
+  name: z.string().min(1).max(80).optional(),
+  entries: z.array(WatchlistEntrySchema).max(100),
+  alerts: WatchlistAlertsSchema.optional(),
+})
+export type WatchlistInput = z.infer<typeof WatchlistInputSchema>
+
+// Where a watched coin stands in one window: live from the leaderboard, or its last stored snapshot once it has dropped off
+export const WatchedWindowSchema = z.object({
+  hype_score: z.number().min(0).max(1),
+  kol_count: z.number().int().min(0),
+  sentiment: z.number().min(-1).max(1),
+  // Position on the current leaderboard, null when the coin isn't on it
+  rank: z.number().int().min(1).nullable(),
+  on_leaderboard: z.boolean(),
+  seen_at_iso: z.string().datetime(),
+})
+export type WatchedWindow = z.infer<typeof WatchedWindowSchema>
+
+export const WatchedCoinSchema = z.object({
+  entry: WatchlistEntrySchema,
+  symbol: z.string(),
+  chain: z.string(),
+  name: z.string().optional(),
+  contract_address: z.string().nullable().optional(),
+  windows: z.record(WindowSchema, WatchedWindowSchema),
+  // Most recent sighting in any window, null when the coin has never been seen
+  last_seen_iso: z.string().datetime().nullable(),
+})
+export type WatchedCoin = z.infer<typeof WatchedCoinSchema>
+
+// Coin metrics a custom alert rule can test. Growth metrics are current / baseline ratios; market metrics need DEX data.
+export const RuleMetricSchema = z.enum([
+  'hype_score', 'grok_hype', 'sentiment', 'confluence',
+  'mentions_per_min', 'mention_growth', 'acceleration', 'minutes_since_first_seen',
+  'tweet_count', 'unique_authors', 'verified_count', 'kol_count', 'cashtag_count', 'hashtag_count', 'new_wallet_signals',
+  'tweet_growth', 'author_growth', 'kol_growth',
+  'price_change_5m', 'price_change_1h', 'liquidity_usd', 'volume_1h_usd', 'fdv_usd',
+])
+export type RuleMetric = z.infer<typeof RuleMetricSchema>
+
+export const RuleOperatorSchema = z.enum(['>=', '>', '<=', '<', '==', '!='])
+export type RuleOperator = z.infer<typeof RuleOperatorSchema>
+
+export const RuleFlagSchema = z.enum(['pre_pump', 'fud_spike', 'possible_clone', 'low_liquidity', 'accelerating'])
+export type RuleFlag = z.infer<typeof RuleFlagSchema>
+
+// One test in a custom rule. `window` reads the same coin's figures from another window than the one being evaluated.
+export const RuleConditionSchema = z.union([
+  z.object({ metric: RuleMetricSchema, op: RuleOperatorSchema, value: z.number(), window: WindowSchema.optional() }).strict(),
+  z.object({ flag: RuleFlagSchema, is: z.boolean().default(true), window: WindowSchema.optional() }).strict(),
+  z.object({ chains: z.array(z.string()).min(1) }).strict(),
+])
+export type RuleCondition = z.infer<typeof RuleConditionSchema>
+
+// A user-defined alert rule: every `all` condition must hold, and at least one `any` condition when given
+export const CustomAlertRuleSchema = z.object({
+  id: RecordIdSchema,
+  // The user or channel the rule belongs to
+  owner: RecordIdSchema,
+  name: z.string().min(1).max(80),
+  enabled: z.boolean().default(true),
+  // Windows the rule is evaluated in, each on its own
+  windows: z.array(WindowSchema).min(1).default(['5m']),
+  all: z.array(RuleConditionSchema).min(1).max(20),
+  any: z.array(RuleConditionSchema).max(20).optional(),
+  // Alert channels that receive matches; empty means the normal routes
+  channels: z.array(z.string()).default([]),
+  max_alerts_per_cycle: z.number().int().min(1).max(20).default(5),
+  created_at_iso: z.string().datetime(),
+  updated_at_iso: z.string().datetime(),
+})
+export type CustomAlertRule = z.infer<typeof CustomAlertRuleSchema>
+
+// Body of a PUT or dry run to api-alert-rules; the name defaults to the id
+export const CustomAlertRuleInputSchema = CustomAlertRuleSchema
+  .omit({ id: true, owner: true, created_at_iso: true, updated_at_iso: true })
+  .extend({ name: z.string().min(1).max(80).optional() })
+export type CustomAlertRuleInput = z.input<typeof CustomAlertRuleInputSchema>
+
+export const RuleConditionResultSchema = z.object({
+  // The condition in rule-language form, e.g. "tweet_growth >= 5 on 5m"
+  condition: z.string(),
+  passed: z.boolean(),
+  // What the coin had; null when the figure is unavailable (no DEX data, coin absent from the window)
+  actual: z.union([z.number(), z.string(), z.boolean()]).nullable(),
+})
+export type RuleConditionResult = z.infer<typeof RuleConditionResultSchema>
+
+// A custom rule checked against one coin in one window
+export const RuleEvaluationSchema = z.object({
+  symbol: z.string(),
+  chain: z.string(),
+  contract_address: z.string().nullable().optional(),
+  window: WindowSchema,
+  hype_score: z.number().min(0).max(1),
+  matched: z.boolean(),
+  all: z.array(RuleConditionResultSchema),
+  any: z.array(RuleConditionResultSchema),
+})
+export type RuleEvaluation = z.infer<typeof RuleEvaluationSchema>
+
 // Validation helpers
 export const validateWindow = (window: string): Window => {
   return WindowSchema.parse(window)
@@ -122,48 +765,30 @@ export const validateQueryParams = (params: unknown): QueryParams => {
   return QueryParamsSchema.parse(params)
 }
 
-// Pre-pump detection logic
-export const isPrePump = (coin: Coin): boolean => {
-  const { counts, baseline } = coin
-  
-  // Pre-pump conditions:
-  // 1. tweet_count >= 3x baseline
-  // 2. unique_authors >= 2x baseline  
-  // 3. KOL + verified >= 5
-  
-  const tweetGrowth = baseline.tweet_count > 0 ? counts.tweet_count / baseline.tweet_count : 0
-  const authorGrowth = baseline.unique_authors > 0 ? counts.unique_authors / baseline.unique_authors : 0
-  const kolVerifiedCount = counts.kol_count + counts.verified_count
-  
-  return tweetGrowth >= 3 && authorGrowth >= 2 && kolVerifiedCount >= 5
+export const validateSnapshotQuery = (params: unknown): z.infer<typeof SnapshotQuerySchema> => {
+  return SnapshotQuerySchema.parse(params)
+}
+
+export const validateTimelineQuery = (params: unknown): TimelineQuery => {
+  return TimelineQuerySchema.parse(params)
 }
 
-// Hype score calculation
-export const calculateHypeScore = (coin: Omit<Coin, 'hype_score'>): number => {
-  const { counts, baseline, grok_hype } = coin
-  
-  // Growth ratios (capped at 10x for stability)
-  const volGrowth = Math.min(
-    baseline.tweet_count > 0 ? counts.tweet_count / baseline.tweet_count : 1,
-    10
-  ) / 10
-  
-  // Normalize other metrics (0-1 scale)
-  const kolScore = Math.min(counts.kol_count / 10, 1)
-  const verifiedScore = Math.min(counts.verified_count / 20, 1)
-  const cashtagScore = Math.min(counts.cashtag_count / 50, 1)
-  const hashtagScore = Math.min(counts.hashtag_count / 100, 1)
-  const walletScore = Math.min(counts.new_wallet_signals / 10, 1)
-  
-  // Weighted calculation
-  const hypeScore = 
-    0.30 * volGrowth +
-    0.20 * kolScore +
-    0.10 * verifiedScore +
-    0.10 * cashtagScore +
-    0.10 * hashtagScore +
-    0.10 * walletScore +
-    0.10 * grok_hype
-  
-  return Math.min(Math.max(hypeScore, 0), 1)
-}
\ No newline at end of file
+export const validateOutcomeReportQuery = (params: unknown): OutcomeReportQuery => {
+  return OutcomeReportQuerySchema.parse(params)
+}
+
+export const validateWatchlistId = (id: unknown): string => {
+  return WatchlistIdSchema.parse(id, { path: ['id'] })
+}
+
+export const validateRecordId = (id: unknown, field: string): string => {
+  return RecordIdSchema.parse(id, { path: [field] })
+}
+
+export const validateCustomAlertRuleInput = (data: unknown): z.infer<typeof CustomAlertRuleInputSchema> => {
+  return CustomAlertRuleInputSchema.parse(data)
+}
+
+export const validateWatchlistInput = (data: unknown): WatchlistInput => {
+  return WatchlistInputSchema.parse(data)
+}
@@ -0,0 +1,138 @@
+import { readFileSync } from 'fs'
+import {
+  Coin,
+  HypeBreakdown,
+  HypeComponent,
+  HypeComponentId,
+  ScoringProfile,
+  ScoringProfilesConfig,
+  ScoringProfilesConfigSchema,
+} from './schemas'
+import bundledProfiles from '../config/scoring-profiles.json'
+
+export interface ScoreResult {
+  hype_score: number
+  breakdown: HypeBreakdown
+}
+
+let profilesConfig: ScoringProfilesConfig | null = null
+
+// Profiles ship in config/scoring-profiles.json; SCORING_PROFILES_PATH points at a replacement file
+export function getScoringProfilesConfig(): ScoringProfilesConfig {
+  if (!profilesConfig) {
+    const overridePath = process.env.SCORING_PROFILES_PATH
+    const raw = overridePath ? JSON.parse(readFileSync(overridePath, 'utf8')) : bundledProfiles
+    const config = ScoringProfilesConfigSchema.parse(raw)
+
+    if (!config.profiles.some(profile => profile.name === config.default_profile)) {
+      throw new Error(`Default scoring profile "${config.default_profile}" is not defined`)
+    }
+    profilesConfig = config
+  }
+  return profilesConfig
+}
+
+export const getScoringProfileNames = (): string[] => getScoringProfilesConfig().profiles.map(profile => profile.name)
+
+export function getScoringProfile(name?: string): ScoringProfile {
+  const config = getScoringProfilesConfig()
+  const profileName = name || config.default_profile
+  const profile = config.profiles.find(p => p.name === profileName)
+  if (!profile) {
+    throw new Error(`Unknown scoring profile: ${profileName}. Available: ${getScoringProfileNames().join(', ')}`)
+  }
+  return profile
+}
+
+// Apply the profile's override for a chain, if it has one
+const resolveForChain = (profile: ScoringProfile, chain: string): { profile: ScoringProfile, variant: string | null } => {
+  const override = profile.chain_overrides?.[chain.toUpperCase()]
+  if (!override) return { profile, variant: null }
+
+  return {
+    profile: {
+      ...profile,
+      weights: { ...profile.weights, ...override.weights },
+      caps: { ...profile.caps, ...override.caps },
+    },
+    variant: chain.toUpperCase(),
+  }
+}
+
+const component = (id: HypeComponentId, raw: number, normalized: number, weight: number): HypeComponent => ({
+  id,
+  raw,
+  normalized,
+  weight,
+  contribution: weight * normalized,
+})
+
+// Fields scoring reads; snapshots carry them too, so history can be rescored under another profile
+export type ScorableCoin = Pick<Coin, 'chain' | 'counts' | 'baseline' | 'sentiment' | 'grok_hype'>
+
+// Score a coin under a profile and return every component's contribution
+export const scoreCoin = (coin: ScorableCoin, profile: ScoringProfile = getScoringProfile()): ScoreResult => {
+  const { counts, baseline, grok_hype } = coin
+  const resolved = resolveForChain(profile, coin.chain)
+  const { weights, caps } = resolved.profile
+
+  // Growth ratio; a zero baseline counts as no growth
+  const volumeGrowth = baseline.tweet_count > 0 ? counts.tweet_count / baseline.tweet_count : 1
+
+  // Normalize each metric to 0-1 against its cap
+  const normalize = (value: number, cap: number): number => Math.min(Math.max(value / cap, 0), 1)
+
+  // Sentiment in [-1, 1] mapped to [0, 1]
+  const sentimentScore = (coin.sentiment + 1) / 2
+
+  const components = [
+    component('volume_growth', volumeGrowth, normalize(volumeGrowth, caps.volume_growth), weights.volume_growth),
+    component('kol', counts.kol_count, normalize(counts.kol_count, caps.kol), weights.kol),
+    component('verified', counts.verified_count, normalize(counts.verified_count, caps.verified), weights.verified),
+    component('cashtag', counts.cashtag_count, normalize(counts.cashtag_count, caps.cashtag), weights.cashtag),
+    component('hashtag', counts.hashtag_count, normalize(counts.hashtag_count, caps.hashtag), weights.hashtag),
+    component('wallet', counts.new_wallet_signals, normalize(counts.new_wallet_signals, caps.wallet), weights.wallet),
+    component('grok_hype', grok_hype, grok_hype, weights.grok_hype),
+    component('sentiment', coin.sentiment, sentimentScore, weights.sentiment),
+  ]
+
+  // Negative sentiment scales the whole score down so FUD-driven volume can't rank like euphoria
+  const sentimentMultiplier = 1 - resolved.profile.negative_sentiment_penalty * Math.max(-coin.sentiment, 0)
+  const total = components.reduce((sum, c) => sum + c.contribution, 0) * sentimentMultiplier
+
+  return {
+    hype_score: Math.min(Math.max(total, 0), 1),
+    breakdown: {
+      profile: profile.name,
+      chain_variant: resolved.variant,
+      components,
+      sentiment_multiplier: sentimentMultiplier,
+    },
+  }
+}
+
+// Hype score calculation
+export const calculateHypeScore = (coin: ScorableCoin, profile?: ScoringProfile): number => {
+  return scoreCoin(coin, profile).hype_score
+}
+
+// Formula text for LLM prompts, e.g. "0.30*vol_growth + 0.20*kol + ..."
+export const describeProfileFormula = (profile: ScoringProfile = getScoringProfile()): string => {
+  const labels: Record<HypeComponentId, string> = {
+    volume_growth: 'vol_growth',
+    kol: 'kol',
+    verified: 'verified',
+    cashtag: 'cashtag',
+    hashtag: 'hashtag',
+    wallet: 'wallet',
+    grok_hype: 'grok_hype',
+    sentiment: 'sentiment01',
+  }
+  const formula = (Object.keys(labels) as HypeComponentId[])
+    .filter(id => profile.weights[id] > 0)
+    .map(id => `${profile.weights[id].toFixed(2)}*${labels[id]}`)
+    .join(' + ')
+  return profile.negative_sentiment_penalty > 0
+    ? `(${formula}) * (1 - ${profile.negative_sentiment_penalty.toFixed(2)}*max(-sentiment, 0)), where sentiment01 = (sentiment+1)/2`
+    : formula
+}
@@ -0,0 +1,273 @@
+import path from 'path'
+import { CoinSnapshot, CoinSnapshotSchema, GrokResponse, SnapshotQuery, Window, WindowSchema } from './schemas'
+import { appendJsonLines, getDataDir, isNetlifyRuntime, listDir, readJsonLines, removeFile } from './storage'
+import { getKeyValueStore, KeyValueStore } from './kv'
+
+const DEFAULT_QUERY_LIMIT = 500
+const DEFAULT_RETENTION_DAYS = 30
+const HOUR_MS = 60 * 60 * 1000
+
+// How long snapshots are kept; backtests can't replay further back than this
+export const getSnapshotRetentionMs = (): number => {
+  const days = parseFloat(process.env.SNAPSHOT_RETENTION_DAYS || '')
+  return (days > 0 ? days : DEFAULT_RETENTION_DAYS) * 24 * HOUR_MS
+}
+
+export interface SnapshotStore {
+  save(snapshots: CoinSnapshot[]): Promise<void>
+  query(query: SnapshotQuery): Promise<CoinSnapshot[]>
+  // Drop snapshots past the retention period; returns how many partitions (snapshots, in memory) were removed
+  prune(now?: number): Promise<number>
+}
+
+// Convert a validated discover-trends response into one snapshot per coin
+export function snapshotsFromResponse(response: GrokResponse, provider?: string, recordedAt: Date = new Date()): CoinSnapshot[] {
+  const recordedAtIso = recordedAt.toISOString()
+
+  return response.coins.map(coin => ({
+    symbol: coin.symbol,
+    chain: coin.chain,
+    name: coin.name,
+    contract_address: coin.contract_address,
+    window: response.window_used,
+    counts: coin.counts,
+    baseline: coin.baseline,
+    sentiment: coin.sentiment,
+    grok_hype: coin.grok_hype,
+    hype_score: coin.hype_score,
+    generated_at_iso: response.generated_at_iso,
+    recorded_at_iso: recordedAtIso,
+    provider,
+  }))
+}
+
+const matchesQuery = (snapshot: CoinSnapshot, query: SnapshotQuery): boolean => {
+  if (query.symbol && snapshot.symbol.toLowerCase() !== query.symbol.toLowerCase()) return false
+  if (query.chain && snapshot.chain.toLowerCase() !== query.chain.toLowerCase()) return false
+  if (query.address && snapshot.contract_address?.toLowerCase() !== query.address.toLowerCase()) return false
+  if (query.window && snapshot.window !== query.window) return false
+  if (query.provider && snapshot.provider !== query.provider) return false
+  if (query.from && snapshot.generated_at_iso < new Date(query.from).toISOString()) return false
+  if (query.to && snapshot.generated_at_iso > new Date(query.to).toISOString()) return false
+  return true
+}
+
+// Sort oldest first and keep the most recent `limit` entries
+const finalizeResults = (snapshots: CoinSnapshot[], limit?: number): CoinSnapshot[] => {
+  const sorted = snapshots.sort((a, b) => a.generated_at_iso.localeCompare(b.generated_at_iso))
+  const max = limit ?? DEFAULT_QUERY_LIMIT
+  return sorted.length > max ? sorted.slice(sorted.length - max) : sorted
+}
+
+// In-process store, useful for tests and for deployments without a writable disk
+export class MemorySnapshotStore implements SnapshotStore {
+  private snapshots: CoinSnapshot[] = []
+
+  async save(snapshots: CoinSnapshot[]): Promise<void> {
+    this.snapshots.push(...snapshots)
+  }
+
+  async query(query: SnapshotQuery): Promise<CoinSnapshot[]> {
+    return finalizeResults(this.snapshots.filter(snapshot => matchesQuery(snapshot, query)), query.limit)
+  }
+
+  async prune(now: number = Date.now()): Promise<number> {
+    const cutoffIso = new Date(now - getSnapshotRetentionMs()).toISOString()
+    const before = this.snapshots.length
+    this.snapshots = this.snapshots.filter(snapshot => snapshot.generated_at_iso >= cutoffIso)
+    return before - this.snapshots.length
+  }
+}
+
+// JSON-lines store partitioned as <dir>/<window>/<YYYY-MM-DD>.jsonl so range queries only read the days they need
+export class FileSnapshotStore implements SnapshotStore {
+  private baseDir: string
+
+  constructor(baseDir: string) {
+    this.baseDir = baseDir
+  }
+
+  async save(snapshots: CoinSnapshot[]): Promise<void> {
+    const partitions: Record<string, CoinSnapshot[]> = {}
+
+    for (const snapshot of snapshots) {
+      const file = this.partitionFile(snapshot.window, snapshot.generated_at_iso.slice(0, 10))
+      if (!partitions[file]) partitions[file] = []
+      partitions[file].push(snapshot)
+    }
+
+    for (const file of Object.keys(partitions)) {
+      await appendJsonLines(file, partitions[file])
+    }
+  }
+
+  async query(query: SnapshotQuery): Promise<CoinSnapshot[]> {
+    const windows = query.window ? [query.window] : await listDir(this.baseDir)
+    const fromDay = query.from ? new Date(query.from).toISOString().slice(0, 10) : null
+    const toDay = query.to ? new Date(query.to).toISOString().slice(0, 10) : null
+    const results: CoinSnapshot[] = []
+
+    for (const window of windows) {
+      const days = (await listDir(path.join(this.baseDir, window)))
+        .filter(file => file.endsWith('.jsonl'))
+        .map(file => file.replace('.jsonl', ''))
+        .filter(day => (!fromDay || day >= fromDay) && (!toDay || day <= toDay))
+
+      for (const day of days) {
+        const lines = await readJsonLines(this.partitionFile(window, day))
+        for (const line of lines) {
+          const parsed = CoinSnapshotSchema.safeParse(line)
+          if (parsed.success && matchesQuery(parsed.data, query)) {
+            results.push(parsed.data)
+          }
+        }
+      }
+    }
+
+    return finalizeResults(results, query.limit)
+  }
+
+  // Whole days are dropped once their last hour is past the retention period
+  async prune(now: number = Date.now()): Promise<number> {
+    const cutoffDay = new Date(now - getSnapshotRetentionMs()).toISOString().slice(0, 10)
+    let removed = 0
+
+    for (const window of await listDir(this.baseDir)) {
+      for (const file of await listDir(path.join(this.baseDir, window))) {
+        if (file.endsWith('.jsonl') && file.replace('.jsonl', '') < cutoffDay) {
+          await removeFile(this.partitionFile(window, file.replace('.jsonl', '')))
+          removed++
+        }
+      }
+    }
+
+    return removed
+  }
+
+  private partitionFile(window: Window | string, day: string): string {
+    return path.join(this.baseDir, window, `${day}.jsonl`)
+  }
+}
+
+// Snapshots on a key-value store (Netlify Blobs when deployed), one entry per <window>/<YYYY-MM-DDTHH> so a day's
+// query reads at most 24 entries per window. Saves read and rewrite the hour's entry: two instances saving the same
+// window in the same instant can drop one run, which the trend cache makes rare.
+export class KeyValueSnapshotStore implements SnapshotStore {
+  private kv: KeyValueStore
+
+  constructor(kv: KeyValueStore) {
+    this.kv = kv
+  }
+
+  async save(snapshots: CoinSnapshot[]): Promise<void> {
+    const partitions: Record<string, CoinSnapshot[]> = {}
+
+    for (const snapshot of snapshots) {
+      const key = this.partitionKey(snapshot.window, snapshot.generated_at_iso.slice(0, 13))
+      if (!partitions[key]) partitions[key] = []
+      partitions[key].push(snapshot)
+    }
+
+    // Each hour's entry expires once the whole hour is past the retention period
+    const retentionMs = getSnapshotRetentionMs()
+    for (const key of Object.keys(partitions)) {
+      const existing = await this.kv.get<CoinSnapshot[]>(key) ?? []
+      const hourEndMs = new Date(`${key.slice(key.indexOf('/') + 1)}:00:00.000Z`).getTime() + HOUR_MS
+      await this.kv.set(key, [...existing, ...partitions[key]], Math.max(hourEndMs + retentionMs - Date.now(), 1))
+    }
+  }
+
+  async query(query: SnapshotQuery): Promise<CoinSnapshot[]> {
+    const windows = query.window ? [query.window] : WindowSchema.options
+    const fromHour = query.from ? new Date(query.from).toISOString().slice(0, 13) : null
+    const toHour = query.to ? new Date(query.to).toISOString().slice(0, 13) : null
+    const results: CoinSnapshot[] = []
+
+    for (const window of windows) {
+      const keys = (await this.kv.list(`${window}/`))
+        .filter(key => {
+          const hour = key.slice(window.length + 1)
+          return (!fromHour || hour >= fromHour) && (!toHour || hour <= toHour)
+        })
+
+      for (const key of keys) {
+        for (const entry of await this.kv.get<unknown[]>(key) ?? []) {
+          const parsed = CoinSnapshotSchema.safeParse(entry)
+          if (parsed.success && matchesQuery(parsed.data, query)) {
+            results.push(parsed.data)
+          }
+        }
+      }
+    }
+
+    return finalizeResults(results, query.limit)
+  }
+
+  // Backends that only expire entries on read (file, Blobs) would otherwise keep listing old hours
+  async prune(now: number = Date.now()): Promise<number> {
+    const cutoffHour = new Date(now - getSnapshotRetentionMs()).toISOString().slice(0, 13)
+    let removed = 0
+
+    for (const window of WindowSchema.options) {
+      for (const key of await this.kv.list(`${window}/`)) {
+        if (key.slice(window.length + 1) < cutoffHour) {
+          await this.kv.delete(key)
+          removed++
+        }
+      }
+    }
+
+    return removed
+  }
+
+  private partitionKey(window: Window, hour: string): string {
+    return `${window}/${hour}`
+  }
+}
+
+// Singleton instance
+let snapshotStoreInstance: SnapshotStore | null = null
+
+export function getSnapshotStore(): SnapshotStore {
+  if (!snapshotStoreInstance) {
+    const backend = process.env.SNAPSHOT_STORE || (isNetlifyRuntime() ? 'kv' : 'file')
+
+    switch (backend) {
+      case 'file':
+        snapshotStoreInstance = new FileSnapshotStore(path.join(getDataDir(), 'snapshots'))
+        break
+      case 'memory':
+        snapshotStoreInstance = new MemorySnapshotStore()
+        break
+      case 'kv':
+        snapshotStoreInstance = new KeyValueSnapshotStore(getKeyValueStore('snapshots'))
+        break
+      default:
+        throw new Error(`Unknown SNAPSHOT_STORE backend: ${backend}`)
+    }
+  }
+  return snapshotStoreInstance
+}
+
+// Persist every coin from a discover-trends run and drop history past retention. Failures are logged, never thrown,
+// so history can't break discovery.
+export async function recordSnapshots(response: GrokResponse, provider?: string): Promise<number> {
+  if (response.coins.length === 0) return 0
+
+  try {
+    const snapshots = snapshotsFromResponse(response, provider)
+    const store = getSnapshotStore()
+    await store.save(snapshots)
+    const pruned = await store.prune().catch(error => {
+      console.error('Failed to prune snapshots:', error)
+      return 0
+    })
+    if (pruned > 0) {
+      console.log(`Pruned ${pruned} snapshot partitions past retention`)
+    }
+    return snapshots.length
+  } catch (error) {
+    console.error('Failed to record snapshots:', error)
+    return 0
+  }
+}
@@ -0,0 +1,84 @@
+import { promises as fs } from 'fs'
+import path from 'path'
+
+// Root directory for locally persisted radar data (snapshots, caches, ledgers)
+export function getDataDir(): string {
+  return path.resolve(process.env.RADAR_DATA_DIR || '.radar-data')
+}
+
+// Deployed functions (and `netlify dev`) can't rely on the working directory: it is read-only or lost
+// between invocations, so stores default to Netlify Blobs there
+export const isNetlifyRuntime = (): boolean =>
+  process.env.NETLIFY === 'true' || Boolean(process.env.NETLIFY_BLOBS_CONTEXT || process.env.SITE_ID)
+
+const isMissingFileError = (error: unknown): boolean => {
+  return typeof error === 'object' && error !== null && (error as NodeJS.ErrnoException).code === 'ENOENT'
+}
+
+// Append JSON documents as one line each, creating parent directories as needed
+export async function appendJsonLines(filePath: string, values: unknown[]): Promise<void> {
+  if (values.length === 0) return
+  await fs.mkdir(path.dirname(filePath), { recursive: true })
+  await fs.appendFile(filePath, values.map(value => JSON.stringify(value)).join('\n') + '\n', 'utf8')
+}
+
+// Read a JSON-lines file, skipping lines that fail to parse. Missing files read as empty.
+export async function readJsonLines(filePath: string): Promise<unknown[]> {
+  let content: string
+  try {
+    content = await fs.readFile(filePath, 'utf8')
+  } catch (error) {
+    if (isMissingFileError(error)) return []
+    throw error
+  }
+
+  const values: unknown[] = []
+  for (const line of content.split('\n')) {
+    if (!line.trim()) continue
+    try {
+      values.push(JSON.parse(line))
+    } catch (error) {
+      console.error(`Skipping malformed line in ${filePath}`)
+    }
+  }
+  return values
+}
+
+// List entries of a directory. Missing directories list as empty.
+export async function listDir(dirPath: string): Promise<string[]> {
+  try {
+    return await fs.readdir(dirPath)
+  } catch (error) {
+    if (isMissingFileError(error)) return []
+    throw error
+  }
+}
+
+// Read and parse a JSON file. Missing files read as null.
+export async function readJsonFile(filePath: string): Promise<unknown | null> {
+  let content: string
+  try {
+    content = await fs.readFile(filePath, 'utf8')
+  } catch (error) {
+    if (isMissingFileError(error)) return null
+    throw error
+  }
+  return JSON.parse(content)
+}
+
+// Write a JSON file atomically (write to a temp file, then rename over the target)
+export async function writeJsonFile(filePath: string, value: unknown): Promise<void> {
+  await fs.mkdir(path.dirname(filePath), { recursive: true })
+  const tempPath = `${filePath}.${process.pid}.${Date.now()}.tmp`
+  await fs.writeFile(tempPath, JSON.stringify(value), 'utf8')
+  await fs.rename(tempPath, filePath)
+}
+
+// Delete a file if it exists
+export async function removeFile(filePath: string): Promise<void> {
+  try {
+    await fs.unlink(filePath)
+  } catch (error) {
+    if (!isMissingFileError(error)) throw error
+  }
+}
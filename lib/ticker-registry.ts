@@ -0,0 +1,110 @@
+import { Coin, TickerCollision, TickerContract, TickerHistory, TickerHistorySchema } from './schemas'
+import { getKeyValueStore, KeyValueStore } from './kv'
+import { isSameCoin } from './addresses'
+
+const DEFAULT_HISTORY_DAYS = 30
+
+// Contracts not seen for this long are forgotten, so a long-dead original doesn't brand every relaunch a clone forever
+export const getTickerHistoryMs = (): number => {
+  const days = parseFloat(process.env.TICKER_HISTORY_DAYS || '')
+  return (days > 0 ? days : DEFAULT_HISTORY_DAYS) * 24 * 60 * 60 * 1000
+}
+
+const asIdentity = (contract: TickerContract) => ({
+  symbol: '',
+  chain: contract.chain,
+  contract_address: contract.contract_address,
+})
+
+// Remembers every contract seen under each ticker (across chains) so copycat launches can be told
+// apart from the token they imitate. Stored as `ticker:<SYMBOL>` with the contracts in first-seen order.
+export class TickerRegistry {
+  private store: KeyValueStore
+  private historyMs: number
+
+  constructor(store: KeyValueStore, historyMs: number = getTickerHistoryMs()) {
+    this.store = store
+    this.historyMs = historyMs
+  }
+
+  // Record a run's coins and flag those whose ticker is shared with other contracts. Within one run,
+  // new contracts are registered in ranking order, so the higher-ranked one is treated as the original.
+  async observe<T extends Coin>(coins: T[], seenAt: Date = new Date()): Promise<T[]> {
+    const seenAtIso = seenAt.toISOString()
+    const bySymbol: Record<string, T[]> = {}
+    for (const coin of coins) {
+      if (!coin.contract_address) continue
+      const symbol = coin.symbol.toUpperCase()
+      if (!bySymbol[symbol]) bySymbol[symbol] = []
+      bySymbol[symbol].push(coin)
+    }
+
+    const collisions = new Map<T, TickerCollision>()
+
+    for (const symbol of Object.keys(bySymbol)) {
+      const cutoffIso = new Date(seenAt.getTime() - this.historyMs).toISOString()
+      const history = await this.get(symbol) ?? { symbol, contracts: [] }
+      history.contracts = history.contracts.filter(contract => contract.last_seen_iso >= cutoffIso)
+
+      for (const coin of bySymbol[symbol]) {
+        const existing = history.contracts.find(contract => isSameCoin(asIdentity(contract), coin))
+        if (existing) {
+          existing.last_seen_iso = seenAtIso
+        } else {
+          history.contracts.push({
+            chain: coin.chain,
+            contract_address: coin.contract_address as string,
+            first_seen_iso: seenAtIso,
+            last_seen_iso: seenAtIso,
+          })
+        }
+      }
+
+      await this.store.set(this.key(symbol), history, this.historyMs)
+
+      if (history.contracts.length < 2) continue
+      const original = history.contracts.reduce((earliest, contract) =>
+        contract.first_seen_iso < earliest.first_seen_iso ? contract : earliest)
+
+      for (const coin of bySymbol[symbol]) {
+        const own = history.contracts.find(contract => isSameCoin(asIdentity(contract), coin)) as TickerContract
+        const isOriginal = own === original
+        collisions.set(coin, {
+          role: isOriginal ? 'original' : 'newcomer',
+          possible_clone: !isOriginal,
+          first_seen_iso: own.first_seen_iso,
+          original: {
+            chain: original.chain,
+            contract_address: original.contract_address,
+            first_seen_iso: original.first_seen_iso,
+          },
+          contracts: history.contracts.length,
+        })
+      }
+    }
+
+    return coins.map(coin => {
+      const collision = collisions.get(coin)
+      return collision ? { ...coin, collision } : coin
+    })
+  }
+
+  async get(symbol: string): Promise<TickerHistory | null> {
+    const parsed = TickerHistorySchema.safeParse(await this.store.get<unknown>(this.key(symbol)))
+    return parsed.success ? parsed.data : null
+  }
+
+  private key(symbol: string): string {
+    return `ticker:${symbol.toUpperCase()}`
+  }
+}
+
+// Singleton instance
+let registryInstance: TickerRegistry | null = null
+
+export function getTickerRegistry(): TickerRegistry {
+  if (!registryInstance) {
+    registryInstance = new TickerRegistry(getKeyValueStore('tickers'))
+  }
+  return registryInstance
+}
@@ -0,0 +1,102 @@
+import { CoinSnapshot, HypeTimeline, HypeTimelinePoint, TimelineRange, Window } from './schemas'
+import { getSnapshotStore, SnapshotStore } from './snapshots'
+import { evaluatePrePump, getPrePumpThresholds } from './pre-pump'
+import { getDefaultProviderName } from './providers'
+
+export const TIMELINE_RANGE_MS: Record<TimelineRange, number> = {
+  '1h': 60 * 60 * 1000,
+  '6h': 6 * 60 * 60 * 1000,
+  '24h': 24 * 60 * 60 * 1000,
+  '7d': 7 * 24 * 60 * 60 * 1000,
+}
+
+// Snapshot window used when the caller doesn't pick one: finer windows for shorter ranges
+export const DEFAULT_TIMELINE_WINDOWS: Record<TimelineRange, Window> = {
+  '1h': '1m',
+  '6h': '5m',
+  '24h': '15m',
+  '7d': '1h',
+}
+
+// Upper bound on points returned, so a week of 1m snapshots stays chartable
+const MAX_POINTS = 300
+// Snapshots read per store query; longer ranges are paged
+const QUERY_PAGE_SIZE = 5000
+
+// Collapse points into at most MAX_POINTS time buckets, keeping the latest point per bucket.
+// A bucket counts as pre-pump if any point in it was, so short-lived moments survive downsampling.
+const downsample = (points: HypeTimelinePoint[], fromMs: number, rangeMs: number): HypeTimelinePoint[] => {
+  if (points.length <= MAX_POINTS) return points
+
+  const bucketMs = rangeMs / MAX_POINTS
+  const buckets: Record<number, HypeTimelinePoint> = {}
+
+  for (const point of points) {
+    const bucket = Math.min(Math.floor((new Date(point.timestamp).getTime() - fromMs) / bucketMs), MAX_POINTS - 1)
+    const existing = buckets[bucket]
+    buckets[bucket] = { ...point, is_pre_pump: point.is_pre_pump || (existing?.is_pre_pump ?? false) }
+  }
+
+  return Object.keys(buckets)
+    .map(Number)
+    .sort((a, b) => a - b)
+    .map(bucket => buckets[bucket])
+}
+
+// Hype score, tweets and authors for a coin over a range, from stored snapshots of a single window and provider
+// (the live one unless given), so runs from different providers never interleave in one series
+export async function buildHypeTimeline(
+  coin: { symbol: string, chain: string, address?: string },
+  range: TimelineRange,
+  window: Window = DEFAULT_TIMELINE_WINDOWS[range],
+  store: SnapshotStore = getSnapshotStore(),
+  now: number = Date.now(),
+  provider: string = getDefaultProviderName()
+): Promise<HypeTimeline> {
+  const rangeMs = TIMELINE_RANGE_MS[range]
+  const from = new Date(now - rangeMs)
+  const to = new Date(now)
+
+  // The store returns the latest `limit` matches, so page back from the end until the whole range is read
+  let snapshots: CoinSnapshot[] = []
+  let pageTo = to
+  while (pageTo >= from) {
+    const page = await store.query({
+      symbol: coin.symbol,
+      chain: coin.chain,
+      address: coin.address,
+      window,
+      provider,
+      from: from.toISOString(),
+      to: pageTo.toISOString(),
+      limit: QUERY_PAGE_SIZE,
+    })
+    snapshots = page.concat(snapshots)
+    if (page.length < QUERY_PAGE_SIZE) break
+    pageTo = new Date(new Date(page[0].generated_at_iso).getTime() - 1)
+  }
+
+  // The same generation can be recorded more than once (e.g. concurrent cache misses); keep one point per generation
+  const thresholds = getPrePumpThresholds()
+  const byGeneration: Record<string, HypeTimelinePoint> = {}
+  for (const snapshot of snapshots) {
+    byGeneration[snapshot.generated_at_iso] = {
+      timestamp: snapshot.generated_at_iso,
+      hype_score: snapshot.hype_score,
+      tweet_count: snapshot.counts.tweet_count,
+      unique_authors: snapshot.counts.unique_authors,
+      is_pre_pump: evaluatePrePump(snapshot, thresholds).is_pre_pump,
+    }
+  }
+
+  const points = Object.values(byGeneration).sort((a, b) => a.timestamp.localeCompare(b.timestamp))
+
+  return {
+    range,
+    window,
+    provider,
+    from_iso: from.toISOString(),
+    to_iso: to.toISOString(),
+    points: downsample(points, from.getTime(), rangeMs),
+  }
+}
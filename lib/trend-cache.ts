@@ -0,0 +1,110 @@
+import { CacheInfo, GrokResponse, Window } from './schemas'
+import { getKeyValueStore } from './kv'
+
+interface CachePolicy {
+  ttlMs: number
+  staleMs: number
+}
+
+// Fresh for ttlMs, then served stale (while refreshing in the background) for a further staleMs
+export const CACHE_POLICIES: Record<Window, CachePolicy> = {
+  '1m': { ttlMs: 30 * 1000, staleMs: 60 * 1000 },
+  '5m': { ttlMs: 2 * 60 * 1000, staleMs: 3 * 60 * 1000 },
+  '15m': { ttlMs: 5 * 60 * 1000, staleMs: 10 * 60 * 1000 },
+  '1h': { ttlMs: 15 * 60 * 1000, staleMs: 30 * 60 * 1000 },
+  '4h': { ttlMs: 30 * 60 * 1000, staleMs: 90 * 60 * 1000 },
+  '24h': { ttlMs: 2 * 60 * 60 * 1000, staleMs: 4 * 60 * 60 * 1000 },
+}
+
+interface CachedTrends {
+  response: GrokResponse
+  fetched_at_iso: string
+}
+
+export interface CachedTrendsResult {
+  response: GrokResponse
+  cache: CacheInfo
+}
+
+// Refreshes in flight in this instance, so concurrent misses share a single upstream call
+const inFlight: Record<string, Promise<CachedTrends> | undefined> = {}
+
+const cacheKey = (provider: string, window: Window): string => `trends:${provider}:${window}`
+
+const buildCacheInfo = (entry: CachedTrends, policy: CachePolicy, hit: boolean, now: number): CacheInfo => {
+  const ageMs = Math.max(now - new Date(entry.fetched_at_iso).getTime(), 0)
+  return {
+    hit,
+    stale: ageMs > policy.ttlMs,
+    age_seconds: Math.round(ageMs / 1000),
+    ttl_seconds: Math.round(policy.ttlMs / 1000),
+    fetched_at_iso: entry.fetched_at_iso,
+  }
+}
+
+async function refresh(key: string, window: Window, fetcher: () => Promise<GrokResponse>): Promise<CachedTrends> {
+  const pending = inFlight[key]
+  if (pending) return pending
+
+  const policy = CACHE_POLICIES[window]
+  const request = (async () => {
+    const response = await fetcher()
+    const entry: CachedTrends = { response, fetched_at_iso: new Date().toISOString() }
+    // The fetch already succeeded (and was snapshotted), so a failed cache write must not fail the request
+    try {
+      await getKeyValueStore('trend-cache').set(key, entry, policy.ttlMs + policy.staleMs)
+    } catch (error) {
+      console.error(`Failed to write trend cache for ${window}:`, error)
+    }
+    return entry
+  })()
+
+  inFlight[key] = request
+  try {
+    return await request
+  } finally {
+    delete inFlight[key]
+  }
+}
+
+// Serve a provider's trends for a window from the shared cache, calling the fetcher only on a miss or once the entry goes stale
+export async function getCachedTrends(
+  provider: string,
+  window: Window,
+  fetcher: () => Promise<GrokResponse>
+): Promise<CachedTrendsResult> {
+  const policy = CACHE_POLICIES[window]
+  const key = cacheKey(provider, window)
+  const now = Date.now()
+
+  let entry: CachedTrends | null = null
+  try {
+    entry = await getKeyValueStore('trend-cache').get<CachedTrends>(key)
+  } catch (error) {
+    console.error(`Failed to read trend cache for ${window}:`, error)
+  }
+
+  // Past its stale limit an entry is dropped and the window is refreshed inline. The store's TTL normally
+  // expires it first, but a backend may keep it around longer.
+  if (entry && now - new Date(entry.fetched_at_iso).getTime() > policy.ttlMs + policy.staleMs) {
+    entry = null
+  }
+
+  if (entry) {
+    const cache = buildCacheInfo(entry, policy, true, now)
+
+    if (cache.stale) {
+      // Stale-while-revalidate: answer now, refresh for the next caller. A serverless instance may be frozen
+      // once the response is sent, so this refresh is best effort; if it never completes, the entry ages past
+      // its stale limit and the next caller refreshes inline.
+      refresh(key, window, fetcher).catch(error => {
+        console.error(`Background refresh failed for ${window}:`, error)
+      })
+    }
+
+    return { response: entry.response, cache }
+  }
+
+  const fresh = await refresh(key, window, fetcher)
+  return { response: fresh.response, cache: buildCacheInfo(fresh, policy, false, Date.now()) }
+}
@@ -0,0 +1,137 @@
+import { Coin, CoinSnapshot, Velocity, Window } from './schemas'
+import { isSameCoin } from './addresses'
+import { getSnapshotStore, SnapshotStore } from './snapshots'
+
+export type AccelerationThresholds = Velocity['thresholds']
+
+// Mention growth must jump by 50 points between runs (say +10% → +60%) on at least a mention a minute
+export const DEFAULT_ACCELERATION_THRESHOLDS: AccelerationThresholds = {
+  min_acceleration: 0.5,
+  min_mentions_per_min: 1,
+}
+
+const DEFAULT_LOOKBACK_HOURS = 24
+const DEFAULT_MAX_GAP_MINUTES = 15
+
+export const WINDOW_MINUTES: Record<Window, number> = {
+  '1m': 1,
+  '5m': 5,
+  '15m': 15,
+  '1h': 60,
+  '4h': 4 * 60,
+  '24h': 24 * 60,
+}
+
+// Thresholds can be tuned per deployment without code changes
+export const getAccelerationThresholds = (): AccelerationThresholds => {
+  const acceleration = parseFloat(process.env.ACCELERATION_MIN || '')
+  const mentions = parseFloat(process.env.ACCELERATION_MIN_MENTIONS_PER_MIN || '')
+  return {
+    min_acceleration: acceleration >= 0 ? acceleration : DEFAULT_ACCELERATION_THRESHOLDS.min_acceleration,
+    min_mentions_per_min: mentions >= 0 ? mentions : DEFAULT_ACCELERATION_THRESHOLDS.min_mentions_per_min,
+  }
+}
+
+// How far back first sightings are looked up
+export const getVelocityLookbackMs = (): number => {
+  const hours = parseFloat(process.env.VELOCITY_LOOKBACK_HOURS || '')
+  return (hours > 0 ? hours : DEFAULT_LOOKBACK_HOURS) * 60 * 60 * 1000
+}
+
+// Runs further apart than this aren't successive: a coin that left the leaderboard and came back starts over
+export const getVelocityMaxGapMs = (): number => {
+  const minutes = parseFloat(process.env.VELOCITY_MAX_GAP_MINUTES || '')
+  return (minutes > 0 ? minutes : DEFAULT_MAX_GAP_MINUTES) * 60 * 1000
+}
+
+type RunPoint = Pick<CoinSnapshot, 'counts' | 'generated_at_iso'>
+
+const round = (value: number): number => Math.round(value * 1000) / 1000
+
+const relativeChange = (current: number, previous: number): number | null =>
+  previous > 0 ? current / previous - 1 : null
+
+// First and second derivatives of a coin's mentions over successive runs of one window.
+// `history` holds the coin's earlier runs, oldest first; `current` is this run.
+export function computeVelocity(
+  current: RunPoint,
+  window: Window,
+  history: RunPoint[],
+  thresholds: AccelerationThresholds = getAccelerationThresholds(),
+  maxGapMs: number = getVelocityMaxGapMs()
+): Velocity {
+  const rate = (point: RunPoint): number => point.counts.tweet_count / WINDOW_MINUTES[window]
+  const gapMs = (later: RunPoint, earlier: RunPoint): number =>
+    new Date(later.generated_at_iso).getTime() - new Date(earlier.generated_at_iso).getTime()
+
+  const earlier = history.filter(point => point.generated_at_iso < current.generated_at_iso)
+  const previous = earlier.length > 0 && gapMs(current, earlier[earlier.length - 1]) <= maxGapMs
+    ? earlier[earlier.length - 1]
+    : null
+  const beforePrevious = previous && earlier.length > 1 && gapMs(previous, earlier[earlier.length - 2]) <= maxGapMs
+    ? earlier[earlier.length - 2]
+    : null
+
+  const mentionsPerMin = rate(current)
+  const growth = previous ? relativeChange(mentionsPerMin, rate(previous)) : null
+  const previousGrowth = previous && beforePrevious ? relativeChange(rate(previous), rate(beforePrevious)) : null
+  const acceleration = growth !== null && previousGrowth !== null ? growth - previousGrowth : null
+
+  const firstSeenIso = earlier.length > 0 ? earlier[0].generated_at_iso : current.generated_at_iso
+
+  return {
+    mentions_per_min: round(mentionsPerMin),
+    mention_growth: growth === null ? null : round(growth),
+    acceleration: acceleration === null ? null : round(acceleration),
+    previous_run_iso: previous?.generated_at_iso ?? null,
+    minutes_since_previous: previous ? round(gapMs(current, previous) / 60000) : null,
+    first_seen_iso: firstSeenIso,
+    minutes_since_first_seen: Math.round((new Date(current.generated_at_iso).getTime() - new Date(firstSeenIso).getTime()) / 60000),
+    runs: earlier.length + 1,
+    is_accelerating: acceleration !== null && growth !== null && growth > 0 &&
+      acceleration >= thresholds.min_acceleration &&
+      mentionsPerMin >= thresholds.min_mentions_per_min,
+    thresholds,
+  }
+}
+
+// Attach velocity to a run's coins from the snapshots of the same window and provider recorded by earlier runs.
+// Must run before this run's snapshots are recorded.
+export async function attachVelocity<T extends Coin>(
+  coins: T[],
+  window: Window,
+  generatedAtIso: string,
+  provider?: string,
+  store: SnapshotStore = getSnapshotStore()
+): Promise<T[]> {
+  const generatedAt = new Date(generatedAtIso)
+  const snapshots = await store.query({
+    window,
+    provider,
+    from: new Date(generatedAt.getTime() - getVelocityLookbackMs()).toISOString(),
+    to: generatedAtIso,
+    limit: 50000,
+  })
+  const thresholds = getAccelerationThresholds()
+  const maxGapMs = getVelocityMaxGapMs()
+
+  return coins.map(coin => ({
+    ...coin,
+    velocity: computeVelocity(
+      { counts: coin.counts, generated_at_iso: generatedAtIso },
+      window,
+      snapshots.filter(snapshot => isSameCoin(snapshot, coin)),
+      thresholds,
+      maxGapMs
+    ),
+  }))
+}
+
+export const isAccelerating = (coin: Coin): boolean => coin.velocity?.is_accelerating ?? false
+
+// "12.4/min (+35% vs last run)"
+export const formatMentionRate = (velocity: Velocity): string => {
+  const growth = velocity.mention_growth
+  if (growth === null) return `${velocity.mentions_per_min.toFixed(1)}/min`
+  return `${velocity.mentions_per_min.toFixed(1)}/min (${growth >= 0 ? '+' : ''}${(growth * 100).toFixed(0)}% vs last run)`
+}
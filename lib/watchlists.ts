@@ -0,0 +1,243 @@
+import {
+  AlertType,
+  Coin,
+  Watchlist,
+  WatchlistEntry,
+  WatchlistInput,
+  WatchlistSchema,
+  WatchedCoin,
+  WatchedWindow,
+  Window,
+} from './schemas'
+import { getKeyValueStore, KeyValueStore } from './kv'
+import { CoinIdentity, isSameCoin, normalizeChain, validateContractAddress } from './addresses'
+import { getSnapshotStore, SnapshotStore } from './snapshots'
+import { getDefaultProviderName } from './providers'
+
+// Watched coins alert as trending from this hype score; the global trending cutoff is DEFAULT_TRENDING_MIN_HYPE
+export const DEFAULT_WATCHLIST_MIN_HYPE = 0.3
+const DEFAULT_LOOKBACK_HOURS = 24
+const DEFAULT_MAX_WATCHLISTS = 100
+
+export const getWatchlistMinHype = (): number => {
+  const parsed = parseFloat(process.env.WATCHLIST_MIN_HYPE || '')
+  return parsed >= 0 && parsed <= 1 ? parsed : DEFAULT_WATCHLIST_MIN_HYPE
+}
+
+// How far back the watchlist view looks for a coin that has dropped off a window's leaderboard
+export const getWatchlistLookbackMs = (): number => {
+  const hours = parseFloat(process.env.WATCHLIST_LOOKBACK_HOURS || '')
+  return (hours > 0 ? hours : DEFAULT_LOOKBACK_HOURS) * 60 * 60 * 1000
+}
+
+// Watchlists have no accounts, so the total is capped to keep the store and each alert cycle's lookups bounded
+export const getMaxWatchlists = (): number => {
+  const parsed = parseInt(process.env.WATCHLISTS_MAX || '', 10)
+  return parsed > 0 ? parsed : DEFAULT_MAX_WATCHLISTS
+}
+
+// An entry with a contract address watches that token; a symbol-only entry watches the ticker on its chain.
+// Address-only entries never match on symbol, since their symbol is blank.
+export const watchesCoin = (entry: WatchlistEntry, coin: CoinIdentity): boolean =>
+  isSameCoin({ symbol: entry.symbol ?? '', chain: entry.chain, contract_address: entry.contract_address }, coin)
+
+// Canonicalize chains, symbols and addresses and drop duplicate entries. Addresses that are invalid
+// for their chain are reported rather than silently dropped, since the user typed them.
+export function normalizeWatchlistEntries(entries: WatchlistEntry[]): { entries: WatchlistEntry[], errors: string[] } {
+  const result: WatchlistEntry[] = []
+  const errors: string[] = []
+
+  entries.forEach((entry, index) => {
+    const chain = normalizeChain(entry.chain)
+    const symbol = entry.symbol?.trim().replace(/^\$/, '').toUpperCase() || undefined
+    let contractAddress: string | undefined
+
+    if (entry.contract_address) {
+      const { address, check } = validateContractAddress(chain, entry.contract_address)
+      if (check && check.status !== 'unknown_chain') {
+        errors.push(`entries.${index}.contract_address: ${check.message}`)
+        return
+      }
+      contractAddress = address ?? undefined
+    }
+
+    const normalized: WatchlistEntry = { ...entry, chain, symbol, contract_address: contractAddress }
+    const duplicate = result.some(existing =>
+      existing.chain === chain &&
+      (existing.contract_address ?? '').toLowerCase() === (contractAddress ?? '').toLowerCase() &&
+      (contractAddress || existing.symbol === symbol))
+    if (!duplicate) result.push(normalized)
+  })
+
+  return { entries: result, errors }
+}
+
+// Watchlists kept in the key-value store as `watchlist:<id>`, without expiry
+export class WatchlistStore {
+  private store: KeyValueStore
+
+  constructor(store: KeyValueStore) {
+    this.store = store
+  }
+
+  async get(id: string): Promise<Watchlist | null> {
+    const parsed = WatchlistSchema.safeParse(await this.store.get<unknown>(this.key(id)))
+    return parsed.success ? parsed.data : null
+  }
+
+  async list(): Promise<Watchlist[]> {
+    const keys = await this.store.list('watchlist:')
+    const watchlists = await Promise.all(keys.map(key => this.get(key.slice('watchlist:'.length))))
+    return watchlists.filter((watchlist): watchlist is Watchlist => watchlist !== null)
+  }
+
+  async count(): Promise<number> {
+    return (await this.store.list('watchlist:')).length
+  }
+
+  // Create or replace a watchlist. Entries already on the list keep the time they were first added.
+  async save(id: string, input: WatchlistInput, now: Date = new Date()): Promise<Watchlist> {
+    const nowIso = now.toISOString()
+    const existing = await this.get(id)
+
+    const watchlist = WatchlistSchema.parse({
+      id,
+      name: input.name ?? existing?.name ?? id,
+      entries: input.entries.map(entry => {
+        const previous = existing?.entries.find(e =>
+          e.chain === entry.chain && e.symbol === entry.symbol && e.contract_address === entry.contract_address)
+        return { ...entry, added_at_iso: previous?.added_at_iso ?? entry.added_at_iso ?? nowIso }
+      }),
+      alerts: input.alerts ?? existing?.alerts ?? {},
+      created_at_iso: existing?.created_at_iso ?? nowIso,
+      updated_at_iso: nowIso,
+    })
+
+    await this.store.set(this.key(id), watchlist)
+    return watchlist
+  }
+
+  async delete(id: string): Promise<boolean> {
+    if (!await this.get(id)) return false
+    await this.store.delete(this.key(id))
+    return true
+  }
+
+  private key(id: string): string {
+    return `watchlist:${id}`
+  }
+}
+
+// Singleton instance
+let watchlistStoreInstance: WatchlistStore | null = null
+
+export function getWatchlistStore(): WatchlistStore {
+  if (!watchlistStoreInstance) {
+    watchlistStoreInstance = new WatchlistStore(getKeyValueStore('watchlists'))
+  }
+  return watchlistStoreInstance
+}
+
+export interface WatchlistAlertDecision {
+  alertType: AlertType | null
+  // Watchlists the alert is sent on behalf of
+  watchlists: Watchlist[]
+}
+
+// Coins the global rules already alert on reach every subscribed watchlist holding them. The rest alert
+// as trending, but only for watchlists whose lower hype threshold they clear.
+export function selectWatchlistAlert(
+  coin: Coin,
+  globalType: AlertType | null,
+  watchlists: Watchlist[],
+  defaultMinHype: number = getWatchlistMinHype()
+): WatchlistAlertDecision {
+  const holding = watchlists.filter(watchlist =>
+    watchlist.alerts.enabled && watchlist.entries.some(entry => watchesCoin(entry, coin)))
+
+  if (globalType) {
+    return { alertType: globalType, watchlists: holding }
+  }
+
+  const cleared = holding.filter(watchlist => coin.hype_score >= (watchlist.alerts.min_hype_score ?? defaultMinHype))
+  return { alertType: cleared.length > 0 ? 'trending' : null, watchlists: cleared }
+}
+
+// One window's current leaderboard, as returned by discover-trends
+export interface WindowLeaderboard {
+  window: Window
+  coins: Coin[]
+  generated_at_iso: string
+}
+
+// Where each watched coin stands in every window. Coins on a leaderboard are reported live with their rank;
+// for windows where they've dropped off, the latest stored snapshot inside the lookback stands in. Snapshots
+// are read once per window that some entry is missing from, and only the live provider's, so replayed or
+// fixture runs can't stand in for live data.
+export async function trackWatchlist(
+  watchlist: Watchlist,
+  leaderboards: WindowLeaderboard[],
+  store: SnapshotStore = getSnapshotStore(),
+  now: Date = new Date(),
+  provider: string = getDefaultProviderName()
+): Promise<WatchedCoin[]> {
+  type Identity = Pick<Coin, 'symbol' | 'chain' | 'name' | 'contract_address'>
+  const tracked = watchlist.entries.map(entry => {
+    const windows: Partial<Record<Window, WatchedWindow>> = {}
+    // Taken from the first sighting, so a symbol-only entry settles on one contract
+    let identity: Identity | null = null
+
+    for (const board of leaderboards) {
+      const index = board.coins.findIndex(coin => watchesCoin(entry, coin) && (!identity || isSameCoin(identity, coin)))
+      if (index < 0) continue
+      const coin = board.coins[index]
+      identity = identity ?? { symbol: coin.symbol, chain: coin.chain, name: coin.name, contract_address: coin.contract_address }
+      windows[board.window] = {
+        hype_score: coin.hype_score,
+        kol_count: coin.counts.kol_count,
+        sentiment: coin.sentiment,
+        rank: index + 1,
+        on_leaderboard: true,
+        seen_at_iso: board.generated_at_iso,
+      }
+    }
+
+    return { entry, windows, identity: identity as Identity | null }
+  })
+
+  const fromIso = new Date(now.getTime() - getWatchlistLookbackMs()).toISOString()
+  const missing = leaderboards.filter(board => tracked.some(({ windows }) => !windows[board.window]))
+  const history = await Promise.all(missing.map(board => store.query({
+    window: board.window,
+    provider,
+    from: fromIso,
+    to: now.toISOString(),
+    limit: 50000,
+  })))
+
+  // Newest first, so each window keeps its latest snapshot
+  const snapshots = history.flat().sort((a, b) => b.generated_at_iso.localeCompare(a.generated_at_iso))
+
+  return tracked.map(({ entry, windows, identity }): WatchedCoin => {
+    for (const snapshot of snapshots) {
+      if (windows[snapshot.window] || !watchesCoin(entry, snapshot) || (identity && !isSameCoin(identity, snapshot))) continue
+      identity = identity ?? { symbol: snapshot.symbol, chain: snapshot.chain, name: snapshot.name, contract_address: snapshot.contract_address }
+      windows[snapshot.window] = {
+        hype_score: snapshot.hype_score,
+        kol_count: snapshot.counts.kol_count,
+        sentiment: snapshot.sentiment,
+        rank: null,
+        on_leaderboard: false,
+        seen_at_iso: snapshot.generated_at_iso,
+      }
+    }
+
+    const seen = Object.keys(windows).map(window => (windows[window as Window] as WatchedWindow).seen_at_iso)
+    return {
+      entry,
+      ...(identity ?? { symbol: entry.symbol ?? '', chain: entry.chain, contract_address: entry.contract_address ?? null }),
+      windows,
+      last_seen_iso: seen.length > 0 ? seen.sort()[seen.length - 1] : null,
+    }
+  })
+}
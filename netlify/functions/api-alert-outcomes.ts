@@ -0,0 +1,86 @@
+import { Handler, HandlerEvent, HandlerContext } from '@netlify/functions'
+import { ZodError } from 'zod'
+import { validateOutcomeReportQuery } from '../../lib/schemas'
+import { getAlertLedger } from '../../lib/alert-ledger'
+import { buildOutcomeReport, getAlertOutcomeTracker, getOutcomeThresholds } from '../../lib/alert-outcomes'
+import { connectStorage } from '../../lib/kv'
+
+export const handler: Handler = async (event: HandlerEvent, context: HandlerContext) => {
+  connectStorage(event)
+
+  // Set CORS headers
+  const headers = {
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Headers': 'Content-Type',
+    'Access-Control-Allow-Methods': 'GET, OPTIONS',
+    'Content-Type': 'application/json',
+  }
+
+  // Handle preflight requests
+  if (event.httpMethod === 'OPTIONS') {
+    return {
+      statusCode: 200,
+      headers,
+      body: '',
+    }
+  }
+
+  if (event.httpMethod !== 'GET') {
+    return {
+      statusCode: 405,
+      headers,
+      body: JSON.stringify({ error: 'Method not allowed' }),
+    }
+  }
+
+  try {
+    const query = validateOutcomeReportQuery({
+      days: event.queryStringParameters?.days || undefined,
+      checkpoint: event.queryStringParameters?.checkpoint || undefined,
+    })
+
+    const to = new Date()
+    const from = new Date(to.getTime() - query.days * 24 * 60 * 60 * 1000)
+
+    const alerts = await getAlertLedger().list(from)
+    const outcomes = await getAlertOutcomeTracker().list(from)
+    const report = buildOutcomeReport(alerts, outcomes, query.checkpoint, from, to)
+
+    console.log(`Outcome report over ${alerts.length} alerts at ${query.checkpoint}: hit rate ${report.overall.hit_rate ?? 'n/a'}`)
+
+    return {
+      statusCode: 200,
+      headers,
+      body: JSON.stringify({
+        ...report,
+        thresholds: getOutcomeThresholds(),
+      }),
+    }
+
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return {
+        statusCode: 400,
+        headers,
+        body: JSON.stringify({
+          error: 'Invalid query parameters',
+          message: error.errors.map(issue => `${issue.path.join('.')}: ${issue.message}`).join('; '),
+        }),
+      }
+    }
+
+    console.error('Error in api-alert-outcomes function:', error)
+
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred'
+
+    return {
+      statusCode: 500,
+      headers,
+      body: JSON.stringify({
+        error: 'Internal server error',
+        message: errorMessage,
+        timestamp: new Date().toISOString(),
+      }),
+    }
+  }
+}
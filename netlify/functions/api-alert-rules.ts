@@ -0,0 +1,209 @@
+import { Handler, HandlerEvent, HandlerContext } from '@netlify/functions'
+import { ZodError } from 'zod'
+import { validateCustomAlertRuleInput, validateRecordId, Coin, CustomAlertRule, Window } from '../../lib/schemas'
+import { buildCustomRule, describeRule, dryRunCustomRule, getCustomRuleStore, getDryRunWindows, getMaxRulesPerOwner } from '../../lib/custom-rules'
+import { connectStorage } from '../../lib/kv'
+import { checkWriteAccess } from '../../lib/api-auth'
+import { findUnknownChannels, getAlertRouter } from '../../lib/notifiers'
+import { getDiscoverTrends } from '../../lib/discover-trends'
+
+// GET ?owner= lists an owner's rules and GET ?owner=&id= returns one; PUT ?owner=&id= creates or replaces a rule,
+// DELETE ?owner=&id= removes it. POST is a dry run: it shows which current coins match the rule in the body,
+// or the stored rule when the body is empty, without sending anything. PUT and DELETE need the API write token.
+export const handler: Handler = async (event: HandlerEvent, context: HandlerContext) => {
+  connectStorage(event)
+
+  // Set CORS headers
+  const headers = {
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+    'Access-Control-Allow-Methods': 'GET, PUT, POST, DELETE, OPTIONS',
+    'Content-Type': 'application/json',
+  }
+
+  // Handle preflight requests
+  if (event.httpMethod === 'OPTIONS') {
+    return {
+      statusCode: 200,
+      headers,
+      body: '',
+    }
+  }
+
+  if (!['GET', 'PUT', 'POST', 'DELETE'].includes(event.httpMethod)) {
+    return {
+      statusCode: 405,
+      headers,
+      body: JSON.stringify({ error: 'Method not allowed' }),
+    }
+  }
+
+  if (event.httpMethod === 'PUT' || event.httpMethod === 'DELETE') {
+    const denied = checkWriteAccess(event.headers)
+    if (denied) {
+      return {
+        statusCode: denied.statusCode,
+        headers,
+        body: JSON.stringify({ error: denied.error, message: denied.message }),
+      }
+    }
+  }
+
+  const notFound = (owner: string, id: string) => ({
+    statusCode: 404,
+    headers,
+    body: JSON.stringify({ error: 'Rule not found', message: `No rule ${id} for ${owner}` }),
+  })
+
+  try {
+    const store = getCustomRuleStore()
+    const owner = validateRecordId(event.queryStringParameters?.owner || (event.httpMethod === 'POST' ? 'dry-run' : undefined), 'owner')
+    const rawId = event.queryStringParameters?.id
+
+    if (event.httpMethod === 'GET' && !rawId) {
+      const rules = await store.list(owner)
+      return {
+        statusCode: 200,
+        headers,
+        body: JSON.stringify({
+          rules: rules.map(rule => ({ ...rule, description: describeRule(rule) })),
+          metadata: { owner, count: rules.length },
+        }),
+      }
+    }
+
+    const id = validateRecordId(rawId || (event.httpMethod === 'POST' ? 'dry-run' : undefined), 'id')
+
+    let body: unknown = null
+    if (event.body) {
+      try {
+        body = JSON.parse(event.body)
+      } catch {
+        return {
+          statusCode: 400,
+          headers,
+          body: JSON.stringify({ error: 'Invalid request body', message: 'Body must be JSON' }),
+        }
+      }
+    }
+
+    if (event.httpMethod === 'GET') {
+      const rule = await store.get(owner, id)
+      if (!rule) return notFound(owner, id)
+      return {
+        statusCode: 200,
+        headers,
+        body: JSON.stringify({ rule: { ...rule, description: describeRule(rule) } }),
+      }
+    }
+
+    if (event.httpMethod === 'PUT') {
+      const input = validateCustomAlertRuleInput(body)
+
+      const unknownChannels = findUnknownChannels(input.channels ?? [])
+      if (unknownChannels.length > 0) {
+        return {
+          statusCode: 400,
+          headers,
+          body: JSON.stringify({
+            error: 'Unknown alert channel',
+            message: `Unknown alert channels: ${unknownChannels.join(', ')}`,
+            available_channels: getAlertRouter().channelNames,
+          }),
+        }
+      }
+
+      const maxRules = getMaxRulesPerOwner()
+      if (!await store.get(owner, id) && (await store.list(owner)).length >= maxRules) {
+        return {
+          statusCode: 409,
+          headers,
+          body: JSON.stringify({ error: 'Rule limit reached', message: `An owner can have at most ${maxRules} rules` }),
+        }
+      }
+
+      const rule = await store.save(owner, id, input)
+      console.log(`Saved alert rule ${owner}/${id}: ${describeRule(rule)}`)
+      return {
+        statusCode: 200,
+        headers,
+        body: JSON.stringify({ rule: { ...rule, description: describeRule(rule) } }),
+      }
+    }
+
+    if (event.httpMethod === 'DELETE') {
+      if (!await store.delete(owner, id)) return notFound(owner, id)
+      return {
+        statusCode: 200,
+        headers,
+        body: JSON.stringify({ deleted: `${owner}/${id}` }),
+      }
+    }
+
+    // Dry run
+    let rule: CustomAlertRule
+    if (body === null) {
+      const stored = await store.get(owner, id)
+      if (!stored) return notFound(owner, id)
+      rule = stored
+    } else {
+      rule = buildCustomRule(owner, id, validateCustomAlertRuleInput(body))
+    }
+
+    const windows = getDryRunWindows(rule)
+    const leaderboards: Partial<Record<Window, Coin[]>> = {}
+    await Promise.all(windows.map(async (window) => {
+      try {
+        leaderboards[window] = (await getDiscoverTrends(window)).coins
+      } catch (error) {
+        console.error(`Error fetching ${window} data:`, error)
+      }
+    }))
+
+    // Every match is listed; a real cycle would only alert on the top max_alerts_per_cycle of them
+    const { matches, evaluated } = dryRunCustomRule(rule, leaderboards)
+
+    return {
+      statusCode: 200,
+      headers,
+      body: JSON.stringify({
+        rule: { ...rule, description: describeRule(rule) },
+        matches: matches.map(match => match.evaluation),
+        metadata: {
+          coins_evaluated: evaluated,
+          match_count: matches.length,
+          would_alert: Math.min(matches.length, rule.max_alerts_per_cycle),
+          windows_loaded: windows.filter(window => leaderboards[window]),
+          windows_failed: windows.filter(window => !leaderboards[window]),
+          evaluated_at: new Date().toISOString(),
+        },
+      }),
+    }
+
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return {
+        statusCode: 400,
+        headers,
+        body: JSON.stringify({
+          error: 'Invalid request',
+          message: error.errors.map(issue => `${issue.path.join('.')}: ${issue.message}`).join('; '),
+        }),
+      }
+    }
+
+    console.error('Error in api-alert-rules function:', error)
+
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred'
+
+    return {
+      statusCode: 500,
+      headers,
+      body: JSON.stringify({
+        error: 'Internal server error',
+        message: errorMessage,
+        timestamp: new Date().toISOString(),
+      }),
+    }
+  }
+}
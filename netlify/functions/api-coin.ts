@@ -1,23 +1,17 @@
 import { Handler, HandlerEvent, HandlerContext } from '@netlify/functions'
-import { validateGrokResponse, Window, Coin, CoinDetail } from '../../lib/schemas'
+import { ZodError } from 'zod'
+import { validateTimelineQuery, Window, Coin, CoinDetail, HypeTimeline } from '../../lib/schemas'
+import { getPrePumpEvaluation } from '../../lib/pre-pump'
+import { buildHypeTimeline } from '../../lib/timeline'
+import { isSameCoin, normalizeChain, validateContractAddress } from '../../lib/addresses'
+import { connectStorage } from '../../lib/kv'
+import { getDiscoverTrends } from '../../lib/discover-trends'
 
 const WINDOWS: Window[] = ['1m', '5m', '15m', '1h', '4h', '24h']
 
-// Internal function to call discover-trends for a specific window
-async function getDiscoverTrends(window: Window): Promise<any> {
-  const baseUrl = process.env.URL || 'http://localhost:8888'
-  const url = `${baseUrl}/.netlify/functions/discover-trends?window=${window}`
-  
-  const response = await fetch(url)
-  
-  if (!response.ok) {
-    throw new Error(`Failed to fetch trends for ${window}: ${response.status} ${response.statusText}`)
-  }
-  
-  return await response.json()
-}
-
 export const handler: Handler = async (event: HandlerEvent, context: HandlerContext) => {
+  connectStorage(event)
+
   // Set CORS headers
   const headers = {
     'Access-Control-Allow-Origin': '*',
@@ -46,7 +40,8 @@ export const handler: Handler = async (event: HandlerEvent, context: HandlerCont
   try {
     // Extract coin parameters from query string
     const symbol = event.queryStringParameters?.symbol
-    const chain = event.queryStringParameters?.chain
+    const chain = event.queryStringParameters?.chain && normalizeChain(event.queryStringParameters.chain)
+    const rawAddress = event.queryStringParameters?.address
 
     if (!symbol || !chain) {
       return {
@@ -59,29 +54,67 @@ export const handler: Handler = async (event: HandlerEvent, context: HandlerCont
       }
     }
 
-    console.log(`Fetching coin detail for ${symbol} on ${chain}`)
+    // Optional contract address picks one token when several share the symbol
+    const addressValidation = rawAddress ? validateContractAddress(chain, rawAddress) : null
+    if (addressValidation?.check && addressValidation.check.status !== 'unknown_chain') {
+      return {
+        statusCode: 400,
+        headers,
+        body: JSON.stringify({
+          error: 'Invalid contract address',
+          message: addressValidation.check.message,
+        }),
+      }
+    }
+    const address = addressValidation?.address ?? undefined
+
+    // Timeline range (1h|6h|24h|7d) and the snapshot window it's drawn from
+    const timelineQuery = validateTimelineQuery({
+      range: event.queryStringParameters?.range,
+      window: event.queryStringParameters?.window,
+    })
+
+    console.log(`Fetching coin detail for ${symbol} on ${chain}${address ? ` (${address})` : ''}`)
 
-    // Fetch data for all windows
-    const windowPromises = WINDOWS.map(async (window) => {
+    // Fetch data for all windows, keeping every token on this chain with the symbol or address
+    const requested = { symbol, chain, contract_address: address }
+    const windowMatches = await Promise.all(WINDOWS.map(async (window) => {
       try {
-        const data = await getDiscoverTrends(window)
-        const validatedData = validateGrokResponse(data)
-        
-        // Find the specific coin in this window's data
-        const coin = validatedData.coins.find(c => 
-          c.symbol.toLowerCase() === symbol.toLowerCase() && 
-          c.chain.toLowerCase() === chain.toLowerCase()
-        )
-        
-        return { window, coin, timestamp: validatedData.generated_at_iso }
+        const validatedData = await getDiscoverTrends(window)
+        const matches: Coin[] = validatedData.coins.filter(c => isSameCoin(c, requested))
+        return { window, matches, timestamp: validatedData.generated_at_iso }
       } catch (error) {
         console.error(`Error fetching ${window} data:`, error)
-        return { window, coin: null, timestamp: new Date().toISOString() }
+        return { window, matches: [] as Coin[], timestamp: new Date().toISOString() }
       }
-    })
+    }))
+
+    // Without an address, settle on the top-ranked token in the shortest window and only merge
+    // windows that agree with it, so two different $PEPE contracts never share one page
+    const resolvedAddress = address ?? windowMatches
+      .map(result => result.matches[0]?.contract_address)
+      .find(Boolean) ?? undefined
+    const identity = { symbol, chain, contract_address: resolvedAddress }
+    const windowResults = windowMatches.map(({ window, matches, timestamp }) => ({
+      window,
+      coin: matches.find(c => isSameCoin(c, identity)) ?? null,
+      timestamp,
+    }))
+
+    // Other contracts trending under the same symbol on this chain, so the page can link to them
+    const otherContracts = windowMatches
+      .reduce((all, result) => all.concat(result.matches), [] as Coin[])
+      .filter(c => c.contract_address && !isSameCoin(c, identity))
+      .map(c => c.contract_address as string)
+      .filter((value, index, all) => all.indexOf(value) === index)
+
+    // History comes from stored snapshots; a failure here shouldn't take the rest of the page down
+    const timeline = await buildHypeTimeline({ symbol, chain, address: resolvedAddress }, timelineQuery.range, timelineQuery.window)
+      .catch((error): HypeTimeline | undefined => {
+        console.error(`Error building ${timelineQuery.range} timeline for ${symbol}:`, error)
+        return undefined
+      })
 
-    const windowResults = await Promise.all(windowPromises)
-    
     // Find the most recent coin data to use as base info
     const baseCoin = windowResults.find(result => result.coin)?.coin
     
@@ -108,7 +141,7 @@ export const handler: Handler = async (event: HandlerEvent, context: HandlerCont
       if (result.coin) {
         // Remove redundant fields for the windows object
         const { symbol: _, chain: __, name: ___, contract_address: ____, ...windowData } = result.coin
-        windows[result.window] = windowData
+        windows[result.window] = { ...windowData, pre_pump: getPrePumpEvaluation(result.coin) }
         
         hypeSparkline.push({
           window: result.window,
@@ -132,8 +165,14 @@ export const handler: Handler = async (event: HandlerEvent, context: HandlerCont
       contract_address: baseCoin.contract_address,
       windows,
       hype_sparkline: hypeSparkline,
+      timeline,
     }
 
+    // Windows where the shared pre-pump rule fired; the per-window breakdown is on windows[w].pre_pump
+    const prePumpWindows = windowResults
+      .filter(result => result.coin && getPrePumpEvaluation(result.coin).is_pre_pump)
+      .map(result => result.window)
+
     // Add metadata
     const response = {
       ...coinDetail,
@@ -144,14 +183,9 @@ export const handler: Handler = async (event: HandlerEvent, context: HandlerCont
         average_hype_score: hypeSparkline.reduce((sum, h) => sum + h.hype_score, 0) / hypeSparkline.length,
         last_updated: new Date().toISOString(),
         is_trending: hypeSparkline.some(h => h.hype_score >= 0.5),
-        is_pre_pump: windowResults.some(result => {
-          if (!result.coin) return false
-          const { counts, baseline } = result.coin
-          const tweetGrowth = baseline.tweet_count > 0 ? counts.tweet_count / baseline.tweet_count : 0
-          const authorGrowth = baseline.unique_authors > 0 ? counts.unique_authors / baseline.unique_authors : 0
-          const kolVerifiedCount = counts.kol_count + counts.verified_count
-          return tweetGrowth >= 3 && authorGrowth >= 2 && kolVerifiedCount >= 5
-        }),
+        is_pre_pump: prePumpWindows.length > 0,
+        pre_pump_windows: prePumpWindows,
+        other_contracts: otherContracts,
       }
     }
 
@@ -164,6 +198,17 @@ export const handler: Handler = async (event: HandlerEvent, context: HandlerCont
     }
 
   } catch (error) {
+    if (error instanceof ZodError) {
+      return {
+        statusCode: 400,
+        headers,
+        body: JSON.stringify({
+          error: 'Invalid query parameters',
+          message: error.errors.map(issue => `${issue.path.join('.')}: ${issue.message}`).join('; '),
+        }),
+      }
+    }
+
     console.error('Error in api-coin function:', error)
     
     const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred'
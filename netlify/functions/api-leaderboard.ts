@@ -1,5 +1,10 @@
 import { Handler, HandlerEvent, HandlerContext } from '@netlify/functions'
-import { validateQueryParams } from '../../lib/schemas'
+import { ZodError } from 'zod'
+import { validateQueryParams, Coin, Window } from '../../lib/schemas'
+import { getPrePumpEvaluation, getPrePumpThresholds } from '../../lib/pre-pump'
+import { getFudSpike, getFudSpikeThresholds } from '../../lib/fud'
+import { getScoringProfileNames } from '../../lib/scoring'
+import { CONFLUENCE_WINDOWS, computeConfluence, getMinConfluence } from '../../lib/confluence'
 
 export const handler: Handler = async (event: HandlerEvent, context: HandlerContext) => {
   // Set CORS headers
@@ -32,30 +37,63 @@ export const handler: Handler = async (event: HandlerEvent, context: HandlerCont
     const queryParams = validateQueryParams({
       window: event.queryStringParameters?.window || '5m',
       chain: event.queryStringParameters?.chain || 'ALL',
+      provider: event.queryStringParameters?.provider || undefined,
+      profile: event.queryStringParameters?.profile || undefined,
     })
 
     // Get base URL for internal function calls
     const baseUrl = process.env.URL || 'http://localhost:8888'
     
     // Build query string for discover-trends
-    const searchParams = new URLSearchParams({
-      window: queryParams.window,
-      chain: queryParams.chain,
-    })
-    
-    const discoverUrl = `${baseUrl}/.netlify/functions/discover-trends?${searchParams.toString()}`
+    const discoverUrl = (window: Window): string => {
+      const searchParams = new URLSearchParams({
+        window,
+        chain: queryParams.chain,
+      })
+      if (queryParams.provider) {
+        searchParams.set('provider', queryParams.provider)
+      }
+      if (queryParams.profile) {
+        searchParams.set('profile', queryParams.profile)
+      }
+      return `${baseUrl}/.netlify/functions/discover-trends?${searchParams.toString()}`
+    }
     
-    console.log(`Fetching leaderboard data from: ${discoverUrl}`)
+    console.log(`Fetching leaderboard data from: ${discoverUrl(queryParams.window)}`)
     
     // Call discover-trends function
-    const response = await fetch(discoverUrl)
-    
+    const response = await fetch(discoverUrl(queryParams.window))
+
+    // Bad parameters (unknown provider or profile) are the caller's to fix: pass discover-trends' answer through
+    if (response.status >= 400 && response.status < 500) {
+      return {
+        statusCode: response.status,
+        headers,
+        body: await response.text(),
+      }
+    }
+
     if (!response.ok) {
       throw new Error(`Discover-trends API error: ${response.status} ${response.statusText}`)
     }
     
     const data = await response.json()
     
+    // The confluence column compares the alert windows; one that fails to load is left out of the comparison
+    const leaderboards: Partial<Record<Window, Coin[]>> = { [queryParams.window]: data.coins ?? [] }
+    await Promise.all(CONFLUENCE_WINDOWS.filter(window => window !== queryParams.window).map(async (window) => {
+      try {
+        const windowResponse = await fetch(discoverUrl(window))
+        if (!windowResponse.ok) {
+          throw new Error(`Discover-trends API error: ${windowResponse.status} ${windowResponse.statusText}`)
+        }
+        leaderboards[window] = (await windowResponse.json()).coins ?? []
+      } catch (error) {
+        console.error(`Error fetching ${window} data for confluence:`, error)
+      }
+    }))
+    data.coins = data.coins?.map((coin: Coin) => ({ ...coin, confluence: computeConfluence(coin, leaderboards) }))
+    
     // Add leaderboard-specific metadata
     const leaderboardResponse = {
       ...data,
@@ -63,15 +101,22 @@ export const handler: Handler = async (event: HandlerEvent, context: HandlerCont
         total_coins: data.coins?.length || 0,
         window: queryParams.window,
         chain_filter: queryParams.chain,
+        provider: data.provider,
+        scoring_profile: data.scoring_profile,
+        available_profiles: getScoringProfileNames(),
         last_updated: new Date().toISOString(),
-        pre_pump_count: data.coins?.filter((coin: any) => {
-          const { counts, baseline } = coin
-          const tweetGrowth = baseline.tweet_count > 0 ? counts.tweet_count / baseline.tweet_count : 0
-          const authorGrowth = baseline.unique_authors > 0 ? counts.unique_authors / baseline.unique_authors : 0
-          const kolVerifiedCount = counts.kol_count + counts.verified_count
-          return tweetGrowth >= 3 && authorGrowth >= 2 && kolVerifiedCount >= 5
-        }).length || 0,
+        pre_pump_count: data.coins?.filter((coin: Coin) => getPrePumpEvaluation(coin).is_pre_pump).length || 0,
+        pre_pump_thresholds: data.pre_pump_thresholds ?? getPrePumpThresholds(),
+        fud_spike_count: data.coins?.filter((coin: Coin) => getFudSpike(coin).is_fud_spike).length || 0,
+        fud_spike_thresholds: data.fud_spike_thresholds ?? getFudSpikeThresholds(),
         high_hype_count: data.coins?.filter((coin: any) => coin.hype_score >= 0.7).length || 0,
+        rising_count: data.coins?.filter((coin: Coin) => coin.confluence?.rising).length || 0,
+        baseline_flagged_count: data.coins?.filter((coin: Coin) => coin.baseline_check?.flagged).length || 0,
+        confluence_windows: CONFLUENCE_WINDOWS,
+        min_confluence: getMinConfluence(),
+        cache_hit: data.cache?.hit ?? false,
+        data_age_seconds: data.cache?.age_seconds ?? 0,
+        data_fetched_at: data.cache?.fetched_at_iso ?? data.generated_at_iso,
       }
     }
     
@@ -84,6 +129,17 @@ export const handler: Handler = async (event: HandlerEvent, context: HandlerCont
     }
 
   } catch (error) {
+    if (error instanceof ZodError) {
+      return {
+        statusCode: 400,
+        headers,
+        body: JSON.stringify({
+          error: 'Invalid request',
+          message: error.errors.map(issue => `${issue.path.join('.')}: ${issue.message}`).join('; '),
+        }),
+      }
+    }
+
     console.error('Error in api-leaderboard function:', error)
     
     const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred'
@@ -0,0 +1,92 @@
+import { Handler, HandlerEvent, HandlerContext } from '@netlify/functions'
+import { ZodError } from 'zod'
+import { validateSnapshotQuery } from '../../lib/schemas'
+import { getSnapshotStore } from '../../lib/snapshots'
+import { connectStorage } from '../../lib/kv'
+
+export const handler: Handler = async (event: HandlerEvent, context: HandlerContext) => {
+  connectStorage(event)
+
+  // Set CORS headers
+  const headers = {
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Headers': 'Content-Type',
+    'Access-Control-Allow-Methods': 'GET, OPTIONS',
+    'Content-Type': 'application/json',
+  }
+
+  // Handle preflight requests
+  if (event.httpMethod === 'OPTIONS') {
+    return {
+      statusCode: 200,
+      headers,
+      body: '',
+    }
+  }
+
+  if (event.httpMethod !== 'GET') {
+    return {
+      statusCode: 405,
+      headers,
+      body: JSON.stringify({ error: 'Method not allowed' }),
+    }
+  }
+
+  try {
+    // Parse and validate query parameters
+    const query = validateSnapshotQuery({
+      symbol: event.queryStringParameters?.symbol || undefined,
+      chain: event.queryStringParameters?.chain || undefined,
+      address: event.queryStringParameters?.address || undefined,
+      window: event.queryStringParameters?.window || undefined,
+      provider: event.queryStringParameters?.provider || undefined,
+      from: event.queryStringParameters?.from || undefined,
+      to: event.queryStringParameters?.to || undefined,
+      limit: event.queryStringParameters?.limit || undefined,
+    })
+
+    const snapshots = await getSnapshotStore().query(query)
+
+    console.log(`Snapshot query returned ${snapshots.length} snapshots`)
+
+    return {
+      statusCode: 200,
+      headers,
+      body: JSON.stringify({
+        snapshots,
+        metadata: {
+          count: snapshots.length,
+          query,
+          first_generated_at_iso: snapshots[0]?.generated_at_iso ?? null,
+          last_generated_at_iso: snapshots[snapshots.length - 1]?.generated_at_iso ?? null,
+        },
+      }),
+    }
+
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return {
+        statusCode: 400,
+        headers,
+        body: JSON.stringify({
+          error: 'Invalid query parameters',
+          message: error.errors.map(issue => `${issue.path.join('.')}: ${issue.message}`).join('; '),
+        }),
+      }
+    }
+
+    console.error('Error in api-snapshots function:', error)
+
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred'
+
+    return {
+      statusCode: 500,
+      headers,
+      body: JSON.stringify({ 
+        error: 'Internal server error',
+        message: errorMessage,
+        timestamp: new Date().toISOString(),
+      }),
+    }
+  }
+}
@@ -0,0 +1,191 @@
+import { Handler, HandlerEvent, HandlerContext } from '@netlify/functions'
+import { ZodError } from 'zod'
+import { validateWatchlistId, validateWatchlistInput, Window } from '../../lib/schemas'
+import { getMaxWatchlists, getWatchlistStore, normalizeWatchlistEntries, trackWatchlist, WindowLeaderboard } from '../../lib/watchlists'
+import { connectStorage } from '../../lib/kv'
+import { checkWriteAccess } from '../../lib/api-auth'
+import { findUnknownChannels, getAlertRouter } from '../../lib/notifiers'
+import { getDiscoverTrends } from '../../lib/discover-trends'
+
+const WINDOWS: Window[] = ['1m', '5m', '15m', '1h', '4h', '24h']
+
+// GET ?id= returns the watchlist with each coin tracked across every window (skipped with track=false),
+// PUT ?id= creates or replaces it, DELETE ?id= removes it. PUT and DELETE need the API write token.
+export const handler: Handler = async (event: HandlerEvent, context: HandlerContext) => {
+  connectStorage(event)
+
+  // Set CORS headers
+  const headers = {
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+    'Access-Control-Allow-Methods': 'GET, PUT, DELETE, OPTIONS',
+    'Content-Type': 'application/json',
+  }
+
+  // Handle preflight requests
+  if (event.httpMethod === 'OPTIONS') {
+    return {
+      statusCode: 200,
+      headers,
+      body: '',
+    }
+  }
+
+  if (!['GET', 'PUT', 'DELETE'].includes(event.httpMethod)) {
+    return {
+      statusCode: 405,
+      headers,
+      body: JSON.stringify({ error: 'Method not allowed' }),
+    }
+  }
+
+  if (event.httpMethod !== 'GET') {
+    const denied = checkWriteAccess(event.headers)
+    if (denied) {
+      return {
+        statusCode: denied.statusCode,
+        headers,
+        body: JSON.stringify({ error: denied.error, message: denied.message }),
+      }
+    }
+  }
+
+  try {
+    const id = validateWatchlistId(event.queryStringParameters?.id)
+    const store = getWatchlistStore()
+
+    if (event.httpMethod === 'PUT') {
+      let body: unknown
+      try {
+        body = JSON.parse(event.body || '')
+      } catch {
+        return {
+          statusCode: 400,
+          headers,
+          body: JSON.stringify({ error: 'Invalid request body', message: 'Body must be JSON' }),
+        }
+      }
+
+      const input = validateWatchlistInput(body)
+      const { entries, errors } = normalizeWatchlistEntries(input.entries)
+      if (errors.length > 0) {
+        return {
+          statusCode: 400,
+          headers,
+          body: JSON.stringify({ error: 'Invalid contract address', message: errors.join('; ') }),
+        }
+      }
+
+      const unknownChannels = findUnknownChannels(input.alerts?.channels ?? [])
+      if (unknownChannels.length > 0) {
+        return {
+          statusCode: 400,
+          headers,
+          body: JSON.stringify({
+            error: 'Unknown alert channel',
+            message: `Unknown alert channels: ${unknownChannels.join(', ')}`,
+            available_channels: getAlertRouter().channelNames,
+          }),
+        }
+      }
+
+      const maxWatchlists = getMaxWatchlists()
+      if (!await store.get(id) && await store.count() >= maxWatchlists) {
+        return {
+          statusCode: 409,
+          headers,
+          body: JSON.stringify({ error: 'Watchlist limit reached', message: `At most ${maxWatchlists} watchlists can be stored` }),
+        }
+      }
+
+      const watchlist = await store.save(id, { ...input, entries })
+      console.log(`Saved watchlist ${id} with ${watchlist.entries.length} entries`)
+
+      return {
+        statusCode: 200,
+        headers,
+        body: JSON.stringify({ watchlist }),
+      }
+    }
+
+    if (event.httpMethod === 'DELETE') {
+      const deleted = await store.delete(id)
+      return {
+        statusCode: deleted ? 200 : 404,
+        headers,
+        body: JSON.stringify(deleted ? { deleted: id } : { error: 'Watchlist not found', message: `No watchlist with id ${id}` }),
+      }
+    }
+
+    const watchlist = await store.get(id)
+    if (!watchlist) {
+      return {
+        statusCode: 404,
+        headers,
+        body: JSON.stringify({ error: 'Watchlist not found', message: `No watchlist with id ${id}` }),
+      }
+    }
+
+    if (event.queryStringParameters?.track === 'false') {
+      return {
+        statusCode: 200,
+        headers,
+        body: JSON.stringify({ watchlist }),
+      }
+    }
+
+    // Every window's leaderboard; a window that fails to load falls back to snapshots for all coins
+    const leaderboards = await Promise.all(WINDOWS.map(async (window): Promise<WindowLeaderboard> => {
+      try {
+        const data = await getDiscoverTrends(window)
+        return { window, coins: data.coins, generated_at_iso: data.generated_at_iso }
+      } catch (error) {
+        console.error(`Error fetching ${window} data:`, error)
+        return { window, coins: [], generated_at_iso: new Date().toISOString() }
+      }
+    }))
+
+    const coins = await trackWatchlist(watchlist, leaderboards)
+
+    return {
+      statusCode: 200,
+      headers,
+      body: JSON.stringify({
+        watchlist,
+        coins,
+        metadata: {
+          total_entries: watchlist.entries.length,
+          on_leaderboard_count: coins.filter(coin => Object.values(coin.windows).some(w => w?.on_leaderboard)).length,
+          unseen_count: coins.filter(coin => coin.last_seen_iso === null).length,
+          last_updated: new Date().toISOString(),
+        },
+      }),
+    }
+
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return {
+        statusCode: 400,
+        headers,
+        body: JSON.stringify({
+          error: 'Invalid request',
+          message: error.errors.map(issue => `${issue.path.join('.')}: ${issue.message}`).join('; '),
+        }),
+      }
+    }
+
+    console.error('Error in api-watchlists function:', error)
+
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred'
+
+    return {
+      statusCode: 500,
+      headers,
+      body: JSON.stringify({
+        error: 'Internal server error',
+        message: errorMessage,
+        timestamp: new Date().toISOString(),
+      }),
+    }
+  }
+}
@@ -1,94 +1,84 @@
 import { Handler, HandlerEvent, HandlerContext } from '@netlify/functions'
-import { validateGrokResponse, validateQueryParams, calculateHypeScore, Window } from '../../lib/schemas'
-
-interface GrokAPIRequest {
-  model: string
-  messages: Array<{
-    role: 'system' | 'user'
-    content: string
-  }>
-  temperature: number
-  max_tokens: number
-  response_format: {
-    type: 'json_object'
+import { validateQueryParams, GrokResponse, Window } from '../../lib/schemas'
+import { calculateHypeScore, getScoringProfile, getScoringProfileNames, scoreCoin } from '../../lib/scoring'
+import { recordSnapshots } from '../../lib/snapshots'
+import { getCachedTrends } from '../../lib/trend-cache'
+import { getAvailableProviders, getTrendProvider, TrendProvider } from '../../lib/providers'
+import { evaluatePrePump, getPrePumpThresholds } from '../../lib/pre-pump'
+import { evaluateFudSpike, getFudSpikeThresholds } from '../../lib/fud'
+import { enrichWithMarketData } from '../../lib/market-data'
+import { normalizeCoinIdentities } from '../../lib/addresses'
+import { getTickerRegistry } from '../../lib/ticker-registry'
+import { attachVelocity } from '../../lib/velocity'
+import { attachLocalBaselines } from '../../lib/baselines'
+import { connectStorage } from '../../lib/kv'
+
+// Fetch a window from the provider, rescore and record it. Only called on cache misses so each upstream run is snapshotted once.
+async function fetchScoredTrends(provider: TrendProvider, window: Window): Promise<GrokResponse> {
+  // Providers return validated responses
+  const validatedResponse = await provider.fetchTrends(window)
+
+  // If no coins returned, return empty response
+  if (validatedResponse.coins.length === 0) {
+    return validatedResponse
   }
-}
-
-const GROK_API_ENDPOINT = 'https://api.x.ai/v1/chat/completions'
-
-const SYSTEM_PROMPT = "You are a crypto meme-coin trend hunter for X.com. Output valid JSON only matching schema. No prose."
-
-const generateUserPrompt = (window: Window): string => {
-  return `Find trending meme coins on X in the last ${window}.
-Chains: SOL, ETH, BSC. English only.
-Extract: tweet_count, unique_authors, verified_count, kol_count, cashtag_count, hashtag_count, new_wallet_signals.
-Return 1–3 top tweet URLs + authors with flags.
-Disambiguate tokens (cashtags/contracts).
-Exclude spam/bots.
-Add baseline: if ${window} ∈ {1m,5m,15m} → prev window; if {1h,4h,24h} → avg_24h.
-Compute hype_score 0..1 using:
-0.30*vol_growth + 0.20*kol + 0.10*verified + 0.10*cashtag + 0.10*hashtag + 0.10*wallet + 0.10*grok_hype.
-Reason_short ≤18 words.
-Pre-pump (we compute): tweet_count ≥3x baseline, authors ≥2x baseline, KOL+verified ≥5.
-Output JSON only. If no coins pass ≥5 tweets & 3 authors, return {"coins":[],"window_used":"${window}","generated_at_iso":"${new Date().toISOString()}"}.`
-}
 
-async function callGrokAPI(window: Window): Promise<any> {
-  const apiKey = process.env.GROK_API_KEY
-  if (!apiKey) {
-    throw new Error('GROK_API_KEY environment variable is not set')
+  // Canonical chain codes and contract addresses, so the same token is recognised across runs and windows
+  const identities = normalizeCoinIdentities(validatedResponse.coins)
+  if (identities.flagged > 0 || identities.rejected > 0) {
+    console.warn(`${window}: ${identities.flagged} coins flagged and ${identities.rejected} rejected for bad contract addresses`)
   }
 
-  const request: GrokAPIRequest = {
-    model: 'grok-beta',
-    messages: [
-      {
-        role: 'system',
-        content: SYSTEM_PROMPT
-      },
-      {
-        role: 'user',
-        content: generateUserPrompt(window)
-      }
-    ],
-    temperature: 0.1,
-    max_tokens: 4000,
-    response_format: {
-      type: 'json_object'
+  // Baselines measured from this window's earlier runs rather than taken on the model's word; a history
+  // failure leaves the reported ones in place
+  let baselinedCoins = identities.coins
+  try {
+    baselinedCoins = await attachLocalBaselines(identities.coins, window, validatedResponse.generated_at_iso, provider.name)
+    const flagged = baselinedCoins.filter(coin => coin.baseline_check?.flagged).length
+    if (flagged > 0) {
+      console.warn(`${window}: ${flagged} coins with reported baselines far from their measured history`)
     }
+  } catch (error) {
+    console.error('Failed to compute local baselines:', error)
   }
 
-  const response = await fetch(GROK_API_ENDPOINT, {
-    method: 'POST',
-    headers: {
-      'Authorization': `Bearer ${apiKey}`,
-      'Content-Type': 'application/json',
-    },
-    body: JSON.stringify(request),
-  })
-
-  if (!response.ok) {
-    const errorText = await response.text()
-    throw new Error(`Grok API error: ${response.status} ${response.statusText} - ${errorText}`)
-  }
+  // Recalculate hype scores with the default profile to ensure consistency
+  const coinsWithRecalculatedScores = baselinedCoins.map(coin => ({
+    ...coin,
+    hype_score: calculateHypeScore(coin),
+  }))
+
+  // Sort by hype score (descending)
+  const sortedCoins = coinsWithRecalculatedScores.sort((a, b) => b.hype_score - a.hype_score)
 
-  const data = await response.json()
-  
-  if (!data.choices || !data.choices[0] || !data.choices[0].message) {
-    throw new Error('Invalid response format from Grok API')
+  // Flag tickers shared by several contracts; a registry failure just leaves coins unflagged
+  let flaggedCoins = sortedCoins
+  try {
+    flaggedCoins = await getTickerRegistry().observe(sortedCoins, new Date(validatedResponse.generated_at_iso))
+  } catch (error) {
+    console.error('Failed to check ticker collisions:', error)
   }
 
-  const content = data.choices[0].message.content
-  
+  // Mention rates and acceleration from this window's earlier runs; a history failure just leaves them out
+  let measuredCoins = flaggedCoins
   try {
-    return JSON.parse(content)
+    measuredCoins = await attachVelocity(flaggedCoins, window, validatedResponse.generated_at_iso, provider.name)
   } catch (error) {
-    console.error('Failed to parse Grok response:', content)
-    throw new Error('Invalid JSON response from Grok API')
+    console.error('Failed to compute velocity:', error)
   }
+
+  const scoredResponse = { ...validatedResponse, coins: measuredCoins }
+
+  // Keep a history of every coin seen in this run, before any chain filtering
+  const snapshotCount = await recordSnapshots(scoredResponse, provider.name)
+  console.log(`Recorded ${snapshotCount} snapshots for ${window} window from ${provider.name}`)
+
+  return scoredResponse
 }
 
 export const handler: Handler = async (event: HandlerEvent, context: HandlerContext) => {
+  connectStorage(event)
+
   // Set CORS headers
   const headers = {
     'Access-Control-Allow-Origin': '*',
@@ -119,42 +109,80 @@ export const handler: Handler = async (event: HandlerEvent, context: HandlerCont
     const queryParams = validateQueryParams({
       window: event.queryStringParameters?.window || '5m',
       chain: event.queryStringParameters?.chain || 'ALL',
+      provider: event.queryStringParameters?.provider || undefined,
+      profile: event.queryStringParameters?.profile || undefined,
     })
 
-    console.log(`Discovering trends for window: ${queryParams.window}`)
-
-    // Call Grok API
-    const grokResponse = await callGrokAPI(queryParams.window)
-    
-    // Validate the response structure
-    const validatedResponse = validateGrokResponse(grokResponse)
-
-    // If no coins returned, return empty response
-    if (validatedResponse.coins.length === 0) {
+    // Provider defaults to TREND_PROVIDER; ?provider= lets us A/B backends through the same scoring
+    if (queryParams.provider && !getAvailableProviders().includes(queryParams.provider)) {
       return {
-        statusCode: 200,
+        statusCode: 400,
         headers,
-        body: JSON.stringify(validatedResponse),
+        body: JSON.stringify({
+          error: 'Unknown provider',
+          message: `Unknown trend provider: ${queryParams.provider}`,
+          available_providers: getAvailableProviders(),
+        }),
       }
     }
+    if (queryParams.profile && !getScoringProfileNames().includes(queryParams.profile)) {
+      return {
+        statusCode: 400,
+        headers,
+        body: JSON.stringify({
+          error: 'Unknown scoring profile',
+          message: `Unknown scoring profile: ${queryParams.profile}`,
+          available_profiles: getScoringProfileNames(),
+        }),
+      }
+    }
+
+    const provider = getTrendProvider(queryParams.provider)
+    const scoringProfile = getScoringProfile(queryParams.profile)
+
+    console.log(`Discovering trends for window: ${queryParams.window} via ${provider.name}`)
 
-    // Recalculate hype scores to ensure consistency
-    const coinsWithRecalculatedScores = validatedResponse.coins.map(coin => ({
-      ...coin,
-      hype_score: calculateHypeScore(coin),
-    }))
+    // Serve from the shared trend cache, calling the provider only on a miss or stale entry
+    const { response: scoredResponse, cache } = await getCachedTrends(
+      provider.name,
+      queryParams.window,
+      () => fetchScoredTrends(provider, queryParams.window)
+    )
 
-    // Sort by hype score (descending)
-    const sortedCoins = coinsWithRecalculatedScores.sort((a, b) => b.hype_score - a.hype_score)
+    console.log(`Trend cache ${cache.hit ? 'hit' : 'miss'} for ${provider.name}/${queryParams.window} (age ${cache.age_seconds}s${cache.stale ? ', stale' : ''})`)
 
     // Filter by chain if specified
     const filteredCoins = queryParams.chain === 'ALL' 
-      ? sortedCoins 
-      : sortedCoins.filter(coin => coin.chain === queryParams.chain)
+      ? scoredResponse.coins 
+      : scoredResponse.coins.filter(coin => coin.chain === queryParams.chain)
+
+    // Market data moves faster than the trend cache, so it is looked up per request with its own short cache
+    const enrichedCoins = await enrichWithMarketData(filteredCoins)
+
+    // Score under the requested profile and attach the pre-pump and FUD classifications so downstream endpoints never re-derive them
+    const thresholds = getPrePumpThresholds()
+    const fudThresholds = getFudSpikeThresholds()
+    const rankedCoins = enrichedCoins
+      .map(coin => {
+        const { hype_score, breakdown } = scoreCoin(coin, scoringProfile)
+        return {
+          ...coin,
+          hype_score,
+          hype_breakdown: breakdown,
+          pre_pump: evaluatePrePump(coin, thresholds),
+          fud_spike: evaluateFudSpike(coin, fudThresholds),
+        }
+      })
+      .sort((a, b) => b.hype_score - a.hype_score)
 
     const response = {
-      ...validatedResponse,
-      coins: filteredCoins,
+      ...scoredResponse,
+      coins: rankedCoins,
+      scoring_profile: scoringProfile.name,
+      pre_pump_thresholds: thresholds,
+      fud_spike_thresholds: fudThresholds,
+      provider: provider.name,
+      cache,
     }
 
     console.log(`Found ${response.coins.length} trending coins for ${queryParams.window} window`)
@@ -1,51 +1,107 @@
 import { Handler, HandlerEvent, HandlerContext } from '@netlify/functions'
-import { getDiscordWebhook } from '../../lib/discord'
-import { validateGrokResponse, isPrePump, Coin } from '../../lib/schemas'
+import {
+  AlertContent,
+  AlertRouter,
+  AlertUpdateContext,
+  broadcastSystemMessage,
+  buildAlertContent,
+  buildCycleDigest,
+  ChannelDelivery,
+  deliverDigest,
+  fanOutAlert,
+  getAlertRouter,
+  getDigestMode,
+  Notifier,
+  withRuleMatch,
+  withWatchlists,
+} from '../../lib/notifiers'
+import { getDeliveryQueue, QueuedPayload } from '../../lib/delivery-queue'
+import { Coin, Window, AlertType, CustomAlertRule, Watchlist } from '../../lib/schemas'
+import { DEFAULT_MAX_ACCELERATING_PER_CYCLE, DEFAULT_MAX_TRENDING_PER_CYCLE, DEFAULT_TRENDING_MIN_HYPE, lacksConfluence, selectAlertType } from '../../lib/alert-rules'
+import { attachConfluence } from '../../lib/confluence'
+import { getAlertLedger } from '../../lib/alert-ledger'
+import { coinKey } from '../../lib/addresses'
+import { CooldownDecision, evaluateCooldown, getCooldownRules } from '../../lib/cooldown'
+import { getWatchlistStore, selectWatchlistAlert } from '../../lib/watchlists'
+import { customRuleId, getCustomRuleStore, getRuleWindows, matchCustomRule } from '../../lib/custom-rules'
+import { connectStorage } from '../../lib/kv'
+import { getDiscoverTrends } from '../../lib/discover-trends'
 
-// Internal function to call discover-trends
-async function getDiscoverTrends(window: string = '5m'): Promise<any> {
-  const baseUrl = process.env.URL || 'http://localhost:8888'
-  const url = `${baseUrl}/.netlify/functions/discover-trends?window=${window}`
-  
-  const response = await fetch(url)
-  
-  if (!response.ok) {
-    throw new Error(`Failed to fetch trends: ${response.status} ${response.statusText}`)
-  }
-  
-  return await response.json()
+interface AlertCandidate {
+  coin: Coin
+  window: Window
+  alertType: AlertType
+  decision: CooldownDecision
+  // Watchlists holding the coin; empty for coins nobody watches
+  watchlists: Watchlist[]
+  // Custom rule the alert is for; such alerts are separate from the global ones
+  rule?: CustomAlertRule
+  // Not selected by the global rules: alerting only for its watchlists or custom rule
+  subscriptionOnly: boolean
 }
 
-// Check if we should send alerts for a coin (basic rate limiting)
-const alertHistory = new Map<string, number>()
-const ALERT_COOLDOWN_MS = 10 * 60 * 1000 // 10 minutes cooldown per coin
+interface ChannelOutcome {
+  channel: string
+  status: 'delivered' | 'queued' | 'failed'
+  attempts: number
+  http_status?: number
+  error?: string
+}
 
-function shouldSendAlert(coin: Coin): boolean {
-  const key = `${coin.symbol}-${coin.chain}`
-  const lastAlert = alertHistory.get(key)
-  const now = Date.now()
-  
-  if (!lastAlert || (now - lastAlert) > ALERT_COOLDOWN_MS) {
-    alertHistory.set(key, now)
-    return true
-  }
-  
-  return false
+// An alert that passed cooldown and routing, with its per-channel outcomes once sent
+interface PlannedAlert {
+  candidate: AlertCandidate
+  content: AlertContent
+  routes: string[]
+  notifiers: Notifier[]
+  channels: ChannelOutcome[]
+}
+
+// What happened to one alert on each channel it was routed to
+interface AlertDeliveryOutcome {
+  symbol: string
+  chain: string
+  window: Window
+  alert_type: AlertType
+  kind: 'new' | 'update'
+  routes: string[]
+  watchlists: string[]
+  rule: string | null
+  channels: ChannelOutcome[]
 }
 
-// Clean up old entries from alert history
-function cleanupAlertHistory(): void {
-  const now = Date.now()
-  const cutoff = now - (2 * ALERT_COOLDOWN_MS) // Keep entries for 2x cooldown period
-  
-  for (const [key, timestamp] of alertHistory.entries()) {
-    if (timestamp < cutoff) {
-      alertHistory.delete(key)
+// Alerts the global rules select follow the routing rules and also reach the channels of watchlists holding the coin.
+// Watchlist-only and custom rule alerts go just to their subscriptions' channels, or through the routing rules
+// for a subscription without any.
+function resolveRoutes(router: AlertRouter, content: AlertContent, candidate: AlertCandidate): { routes: string[], notifiers: Notifier[] } {
+  const subscriptions = candidate.rule
+    ? [{ route: `rule:${customRuleId(candidate.rule)}`, channels: candidate.rule.channels }]
+    : candidate.watchlists.map(watchlist => ({ route: `watchlist:${watchlist.id}`, channels: watchlist.alerts.channels }))
+  const dedicated = subscriptions.filter(subscription => subscription.channels.length > 0)
+  const useRules = !candidate.subscriptionOnly || dedicated.length < subscriptions.length
+  const { routes, notifiers } = useRules ? router.resolve(content) : { routes: [] as string[], notifiers: [] as Notifier[] }
+
+  for (const { route, channels } of dedicated) {
+    routes.push(route)
+    for (const name of channels) {
+      const notifier = router.getChannel(name)
+      if (!notifier) {
+        console.warn(`${route} names unknown alert channel "${name}"; skipped`)
+      } else if (!notifiers.includes(notifier)) {
+        notifiers.push(notifier)
+      }
     }
   }
+
+  return { routes, notifiers }
 }
 
+const updateContext = (decision: CooldownDecision): AlertUpdateContext | undefined =>
+  decision.kind === 'update' && decision.previous ? { previous: decision.previous, reason: decision.reason } : undefined
+
 export const handler: Handler = async (event: HandlerEvent, context: HandlerContext) => {
+  connectStorage(event)
+
   const headers = {
     'Content-Type': 'application/json',
   }
@@ -53,32 +109,61 @@ export const handler: Handler = async (event: HandlerEvent, context: HandlerCont
   try {
     console.log('Starting send-alerts function...')
     
-    // Clean up old alert history
-    cleanupAlertHistory()
+    // Alert ledger persists across cold starts; drop entries past retention
+    const ledger = getAlertLedger()
+    const pruned = await ledger.prune()
+    if (pruned > 0) {
+      console.log(`Pruned ${pruned} expired alert ledger entries`)
+    }
     
-    // Get Discord webhook instance
-    const discord = getDiscordWebhook()
+    // Routing rules decide which configured channels (Discord, Telegram, Slack, signed webhook) get each alert
+    const router = getAlertRouter()
+    console.log(`Alert channels: ${router.channelNames.join(', ')}`)
     
-    // Check multiple windows for comprehensive coverage
-    const windows = ['1m', '5m', '15m'] as const
-    const allCoinsWithWindow: Array<{coin: Coin, window: string}> = []
+    // Watched coins alert at lower thresholds; a broken watchlist store must not stop global alerts
+    const watchlists = await getWatchlistStore().list().catch((error): Watchlist[] => {
+      console.error('Failed to load watchlists:', error)
+      return []
+    })
+    
+    // User-defined rules are evaluated every cycle; same as watchlists, a broken store must not stop global alerts
+    const customRules = (await getCustomRuleStore().list().catch((error): CustomAlertRule[] => {
+      console.error('Failed to load custom alert rules:', error)
+      return []
+    })).filter(rule => rule.enabled)
+    
+    // Retry alerts earlier runs couldn't deliver before sending anything new
+    const queue = getDeliveryQueue()
+    const queueReport = await queue.drain(name => router.getChannel(name))
+    if (queueReport.redelivered + queueReport.requeued + queueReport.dropped > 0) {
+      console.log(`Delivery queue: ${queueReport.redelivered} redelivered, ${queueReport.requeued} requeued, ${queueReport.dropped} dropped`)
+    }
+    
+    // Check multiple windows for comprehensive coverage, plus any other window a custom rule reads
+    const alertWindows: Window[] = ['1m', '5m', '15m']
+    const windows = customRules.reduce((all, rule) =>
+      all.concat(getRuleWindows(rule).filter(window => !all.includes(window))), alertWindows)
+    const fetched: Partial<Record<Window, Coin[]>> = {}
     
     for (const window of windows) {
       try {
         console.log(`Fetching trends for ${window} window...`)
-        const trendsData = await getDiscoverTrends(window)
-        const validatedData = validateGrokResponse(trendsData)
-        
-        if (validatedData.coins.length > 0) {
-          allCoinsWithWindow.push(...validatedData.coins.map(coin => ({coin, window})))
-          console.log(`Found ${validatedData.coins.length} coins in ${window} window`)
-        }
+        const validatedData = await getDiscoverTrends(window)
+        fetched[window] = validatedData.coins
+        console.log(`Found ${validatedData.coins.length} coins in ${window} window`)
       } catch (error) {
         console.error(`Error fetching ${window} trends:`, error)
         // Continue with other windows even if one fails
       }
     }
     
+    // Score each coin's confirmation across the alert windows, so the alert rules and custom rules can see it
+    const leaderboards = attachConfluence(fetched)
+    const allCoinsWithWindow: Array<{coin: Coin, window: Window}> = []
+    for (const window of alertWindows) {
+      allCoinsWithWindow.push(...(leaderboards[window] ?? []).map(coin => ({coin, window})))
+    }
+    
     if (allCoinsWithWindow.length === 0) {
       console.log('No trending coins found across all windows')
       return {
@@ -86,75 +171,199 @@ export const handler: Handler = async (event: HandlerEvent, context: HandlerCont
         headers,
         body: JSON.stringify({ 
           message: 'No trending coins found',
+          queue: queueReport,
           timestamp: new Date().toISOString(),
         }),
       }
     }
     
-    // Remove duplicates (same symbol + chain combination)
+    // Remove duplicates (same chain + contract address, or symbol when there is none)
     const uniqueCoinsWithWindow = allCoinsWithWindow.reduce((acc, {coin, window}) => {
-      const key = `${coin.symbol}-${coin.chain}`
-      const existing = acc.find(c => `${c.coin.symbol}-${c.coin.chain}` === key)
+      const key = coinKey(coin)
+      const existing = acc.find(c => coinKey(c.coin) === key)
       
       if (!existing || coin.hype_score > existing.coin.hype_score) {
         // Keep the coin with higher hype score
-        return [...acc.filter(c => `${c.coin.symbol}-${c.coin.chain}` !== key), {coin, window}]
+        return [...acc.filter(c => coinKey(c.coin) !== key), {coin, window}]
       }
       
       return acc
-    }, [] as Array<{coin: Coin, window: string}>)
+    }, [] as Array<{coin: Coin, window: Window}>)
     
     console.log(`Processing ${uniqueCoinsWithWindow.length} unique coins after deduplication`)
     
-    // Separate pre-pump and trending coins
-    const prePumpCoins = uniqueCoinsWithWindow.filter(({coin}) => {
-      const isPump = isPrePump(coin)
-      const shouldAlert = shouldSendAlert(coin)
-      return isPump && shouldAlert
-    })
+    // Classify each coin, then let the ledger-backed cooldown rules decide: new alert, escalation update, or suppress
+    const cooldownRules = getCooldownRules()
+    const candidates: AlertCandidate[] = []
+    let suppressedCount = 0
+    let unconfirmedCount = 0
     
-    const trendingCoins = uniqueCoinsWithWindow.filter(({coin}) => {
-      const isPump = isPrePump(coin)
-      const shouldAlert = shouldSendAlert(coin)
-      return !isPump && shouldAlert && coin.hype_score >= 0.5 // Only alert on high hype trending coins
-    })
+    for (const {coin, window} of uniqueCoinsWithWindow) {
+      const globalType = selectAlertType(coin)
+      if (!globalType && coin.hype_score >= DEFAULT_TRENDING_MIN_HYPE && lacksConfluence(coin)) {
+        console.log(`${coin.symbol} (${coin.chain}) not confirmed across windows (confluence ${coin.confluence?.score}); no trending alert`)
+        unconfirmedCount++
+      }
+      const watched = selectWatchlistAlert(coin, globalType, watchlists)
+      const alertType = watched.alertType
+      if (!alertType) continue
+      
+      const lastAlert = await ledger.getLastAlert(coin)
+      const decision = evaluateCooldown(coin, alertType, lastAlert, cooldownRules)
+      
+      if (decision.send) {
+        candidates.push({ coin, window, alertType, decision, watchlists: watched.watchlists, subscriptionOnly: !globalType })
+      } else {
+        suppressedCount++
+      }
+    }
+    
+    // Separate pre-pump, FUD spike and trending coins
+    const prePumpCoins = candidates.filter(candidate => candidate.alertType === 'pre_pump')
+    const fudSpikeCoins = candidates.filter(candidate => candidate.alertType === 'fud_spike')
+    const acceleratingCoins = candidates.filter(candidate => candidate.alertType === 'accelerating')
+    const trendingCoins = candidates.filter(candidate => candidate.alertType === 'trending')
+    
+    console.log(`Pre-pump coins: ${prePumpCoins.length}, FUD spikes: ${fudSpikeCoins.length}, Accelerating: ${acceleratingCoins.length}, Trending coins: ${trendingCoins.length}`)
     
-    console.log(`Pre-pump coins: ${prePumpCoins.length}, Trending coins: ${trendingCoins.length}`)
+    // Accelerating alerts are capped like trending ones, fastest first; watched coins skip the cap
+    const topAccelerating = [
+      ...acceleratingCoins
+        .filter(candidate => candidate.watchlists.length === 0)
+        .sort((a, b) => (b.coin.velocity?.acceleration ?? 0) - (a.coin.velocity?.acceleration ?? 0))
+        .slice(0, DEFAULT_MAX_ACCELERATING_PER_CYCLE),
+      ...acceleratingCoins.filter(candidate => candidate.watchlists.length > 0),
+    ]
+    
+    // Trending alerts are limited to the top few to avoid spam; someone asked for watched coins, so they skip the cap
+    const topTrending = trendingCoins
+      .filter(candidate => candidate.watchlists.length === 0)
+      .sort((a, b) => b.coin.hype_score - a.coin.hype_score)
+      .slice(0, DEFAULT_MAX_TRENDING_PER_CYCLE)
+    const watchedTrending = trendingCoins.filter(candidate => candidate.watchlists.length > 0)
     
     let alertsSent = 0
+    let updatesSent = 0
+    let unroutedCount = 0
+    let queuedCount = 0
+    const planned: PlannedAlert[] = []
     
-    // Send pre-pump alerts (highest priority)
-    for (const {coin, window} of prePumpCoins) {
-      try {
-        const success = await discord.sendAlert(coin, window)
-        if (success) {
-          alertsSent++
-          console.log(`Sent pre-pump alert for ${coin.symbol} (${coin.chain}) from ${window} window`)
+    const plan = (candidate: AlertCandidate, content: AlertContent) => {
+      const { coin, alertType } = candidate
+      const { routes, notifiers } = resolveRoutes(router, content, candidate)
+      if (notifiers.length === 0) {
+        console.log(`No route matched ${alertType} alert for ${coin.symbol} (${coin.chain}); not sent`)
+        unroutedCount++
+        return
+      }
+      
+      console.log(`Routed ${coin.symbol} via ${routes.join(', ')} to ${notifiers.map(n => n.name).join(', ')}`)
+      planned.push({ candidate, content, routes, notifiers, channels: [] })
+    }
+    
+    // Pre-pump alerts first (highest priority), then FUD spike warnings, accelerating, trending and watched trending
+    for (const candidate of [...prePumpCoins, ...fudSpikeCoins, ...topAccelerating, ...topTrending, ...watchedTrending]) {
+      const { coin, window, alertType, decision } = candidate
+      plan(candidate, withWatchlists(
+        buildAlertContent(coin, window, alertType, updateContext(decision)),
+        candidate.watchlists.map(watchlist => watchlist.name)
+      ))
+    }
+    
+    // Custom rule matches alert on their own, with a cooldown per rule and coin
+    let customRuleAlerts = 0
+    for (const rule of customRules) {
+      const { matches } = matchCustomRule(rule, leaderboards)
+      for (const { coin, window, evaluation } of matches) {
+        const lastAlert = await ledger.getLastAlert(coin, customRuleId(rule))
+        const decision = evaluateCooldown(coin, 'alert', lastAlert, cooldownRules)
+        if (!decision.send) {
+          suppressedCount++
+          continue
         }
         
-        // Small delay to avoid rate limiting
-        await new Promise(resolve => setTimeout(resolve, 200))
-      } catch (error) {
-        console.error(`Failed to send pre-pump alert for ${coin.symbol}:`, error)
+        customRuleAlerts++
+        const candidate: AlertCandidate = { coin, window, alertType: 'alert', decision, watchlists: [], rule, subscriptionOnly: true }
+        plan(candidate, withRuleMatch(buildAlertContent(coin, window, 'alert', updateContext(decision)), rule.name, evaluation))
       }
     }
     
-    // Send trending alerts (limited to top 3 to avoid spam)
-    const topTrending = trendingCoins
-      .sort((a, b) => b.coin.hype_score - a.coin.hype_score)
-      .slice(0, 3)
+    // Transient failures go to the delivery queue for the next run
+    const settle = async (result: ChannelDelivery, payload: QueuedPayload): Promise<ChannelOutcome> => {
+      let status: ChannelOutcome['status'] = result.ok ? 'delivered' : 'failed'
+      if (!result.ok && result.retryable) {
+        await queue.enqueue(result.channel, payload, result.error)
+        queuedCount++
+        status = 'queued'
+      }
+      return {
+        channel: result.channel,
+        status,
+        attempts: result.attempts,
+        http_status: result.status,
+        error: result.error,
+      }
+    }
     
-    for (const {coin, window} of topTrending) {
-      try {
-        const success = await discord.sendAlert(coin, window)
-        if (success) {
-          alertsSent++
-          console.log(`Sent trending alert for ${coin.symbol} (${coin.chain}) from ${window} window`)
+    const digestMode = getDigestMode()
+    if (digestMode) {
+      // One message per channel carrying every alert routed to it this cycle
+      const byChannel = new Map<string, { notifier: Notifier, alerts: PlannedAlert[] }>()
+      for (const alert of planned) {
+        for (const notifier of alert.notifiers) {
+          const group = byChannel.get(notifier.name) ?? { notifier, alerts: [] }
+          group.alerts.push(alert)
+          byChannel.set(notifier.name, group)
         }
-        
-        await new Promise(resolve => setTimeout(resolve, 200))
-      } catch (error) {
-        console.error(`Failed to send trending alert for ${coin.symbol}:`, error)
+      }
+      
+      await Promise.all(Array.from(byChannel.values()).map(async ({ notifier, alerts }) => {
+        const digest = buildCycleDigest(alerts.map(alert => alert.content), digestMode)
+        const outcome = await settle(await deliverDigest(notifier, digest), { digest })
+        alerts.forEach(alert => alert.channels.push(outcome))
+      }))
+    } else {
+      for (const alert of planned) {
+        const { content } = alert
+        try {
+          const results = await fanOutAlert(alert.notifiers, content)
+          for (const result of results) {
+            alert.channels.push(await settle(result, { content }))
+          }
+        } catch (error) {
+          console.error(`Failed to send ${content.alertType} alert for ${content.coin.symbol}:`, error)
+        }
+      }
+    }
+    
+    // The alert enters the ledger once any channel has it delivered or queued, so cooldowns still apply
+    const deliveries: AlertDeliveryOutcome[] = []
+    for (const { candidate, content, routes, channels } of planned) {
+      const { coin, window, alertType, decision } = candidate
+      deliveries.push({
+        symbol: coin.symbol,
+        chain: coin.chain,
+        window,
+        alert_type: alertType,
+        kind: content.update ? 'update' : 'new',
+        routes,
+        watchlists: candidate.watchlists.map(watchlist => watchlist.id),
+        rule: candidate.rule ? customRuleId(candidate.rule) : null,
+        channels,
+      })
+      
+      const delivered = channels.some(c => c.status === 'delivered')
+      if (delivered || channels.some(c => c.status === 'queued')) {
+        await ledger.record(coin, window, alertType, {
+          previous: content.update?.previous,
+          escalationReason: content.update?.reason,
+          ruleId: candidate.rule && customRuleId(candidate.rule),
+        })
+      }
+      if (delivered) {
+        alertsSent++
+        if (content.update) updatesSent++
+        console.log(`Sent ${alertType} ${decision.kind} for ${coin.symbol} (${coin.chain}) from ${window} window: ${decision.reason}`)
       }
     }
     
@@ -162,7 +371,8 @@ export const handler: Handler = async (event: HandlerEvent, context: HandlerCont
     if (alertsSent === 0 && uniqueCoinsWithWindow.length > 0) {
       const topCoinWithWindow = uniqueCoinsWithWindow.sort((a, b) => b.coin.hype_score - a.coin.hype_score)[0]
       const topCoin = topCoinWithWindow.coin
-      await discord.sendSystemMessage(
+      await broadcastSystemMessage(
+        router.systemChannels('info'),
         `Monitoring ${uniqueCoinsWithWindow.length} coins. Top: $${topCoin.symbol} (${topCoin.chain}) with ${(topCoin.hype_score * 100).toFixed(0)}% hype score.`,
         'info'
       )
@@ -171,9 +381,24 @@ export const handler: Handler = async (event: HandlerEvent, context: HandlerCont
     const response = {
       message: `Alerts processing complete`,
       alertsSent,
+      updatesSent,
       coinsProcessed: uniqueCoinsWithWindow.length,
+      suppressedByCooldown: suppressedCount,
+      unconfirmedAcrossWindows: unconfirmedCount,
       prePumpCount: prePumpCoins.length,
+      fudSpikeCount: fudSpikeCoins.length,
+      acceleratingCount: acceleratingCoins.length,
       trendingCount: trendingCoins.length,
+      watchedCount: candidates.filter(candidate => candidate.watchlists.length > 0).length,
+      watchlists: watchlists.length,
+      customRuleAlerts,
+      customRules: customRules.length,
+      unrouted: unroutedCount,
+      queued: queuedCount,
+      queue: queueReport,
+      deliveries,
+      digest: digestMode,
+      channels: router.channelNames,
       timestamp: new Date().toISOString(),
     }
     
@@ -188,15 +413,15 @@ export const handler: Handler = async (event: HandlerEvent, context: HandlerCont
   } catch (error) {
     console.error('Error in send-alerts function:', error)
     
-    // Try to send error notification to Discord
+    // Try to send error notification to every configured channel
     try {
-      const discord = getDiscordWebhook()
-      await discord.sendSystemMessage(
+      await broadcastSystemMessage(
+        getAlertRouter().systemChannels('error'),
         `Alert system error: ${error instanceof Error ? error.message : 'Unknown error'}`,
         'error'
       )
-    } catch (discordError) {
-      console.error('Failed to send error notification to Discord:', discordError)
+    } catch (notifyError) {
+      console.error('Failed to send error notification:', notifyError)
     }
     
     const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred'
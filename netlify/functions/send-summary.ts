@@ -0,0 +1,137 @@
+import { Handler, HandlerEvent, HandlerContext } from '@netlify/functions'
+import { broadcastSystemMessage, buildAlertContent, buildSummaryDigest, deliverDigest, getAlertRouter } from '../../lib/notifiers'
+import { Coin, Window } from '../../lib/schemas'
+import { coinKey } from '../../lib/addresses'
+import { connectStorage } from '../../lib/kv'
+import { getDiscoverTrends } from '../../lib/discover-trends'
+
+type SummaryPeriod = 'hourly' | 'daily'
+
+// Windows each summary ranks across: short-term movers for the hourly recap, sustained hype for the daily one
+const SUMMARY_WINDOWS: Record<SummaryPeriod, Window[]> = {
+  hourly: ['5m', '15m', '1h'],
+  daily: ['1h', '4h', '24h'],
+}
+
+const DEFAULT_TOP_N = 10
+
+const parsePeriod = (value: string | undefined): SummaryPeriod | null =>
+  value === 'hourly' || value === 'daily' ? value : null
+
+// Runs hourly. SUMMARY_PERIOD=daily only posts during SUMMARY_DAILY_HOUR_UTC; `?period=` forces a summary now.
+export const handler: Handler = async (event: HandlerEvent, context: HandlerContext) => {
+  connectStorage(event)
+
+  const headers = {
+    'Content-Type': 'application/json',
+  }
+
+  try {
+    const requested = parsePeriod(event.queryStringParameters?.period)
+    const period = requested ?? parsePeriod(process.env.SUMMARY_PERIOD) ?? 'hourly'
+
+    const dailyHour = parseInt(process.env.SUMMARY_DAILY_HOUR_UTC || '0', 10)
+    if (!requested && period === 'daily' && new Date().getUTCHours() !== dailyHour) {
+      return {
+        statusCode: 200,
+        headers,
+        body: JSON.stringify({
+          message: `Daily summary is posted at ${dailyHour}:00 UTC; skipping`,
+          timestamp: new Date().toISOString(),
+        }),
+      }
+    }
+
+    const windows = SUMMARY_WINDOWS[period]
+    const topN = parseInt(process.env.SUMMARY_TOP_N || '', 10) || DEFAULT_TOP_N
+
+    // Best showing per coin across the windows
+    const best = new Map<string, { coin: Coin, window: Window }>()
+    for (const window of windows) {
+      try {
+        const validatedData = await getDiscoverTrends(window)
+        for (const coin of validatedData.coins) {
+          const key = coinKey(coin)
+          const existing = best.get(key)
+          if (!existing || coin.hype_score > existing.coin.hype_score) {
+            best.set(key, { coin, window })
+          }
+        }
+      } catch (error) {
+        console.error(`Error fetching ${window} trends for summary:`, error)
+        // Continue with other windows even if one fails
+      }
+    }
+
+    const top = Array.from(best.values())
+      .sort((a, b) => b.coin.hype_score - a.coin.hype_score)
+      .slice(0, topN)
+
+    if (top.length === 0) {
+      console.log(`No coins found for the ${period} summary`)
+      return {
+        statusCode: 200,
+        headers,
+        body: JSON.stringify({
+          message: 'No trending coins found',
+          period,
+          timestamp: new Date().toISOString(),
+        }),
+      }
+    }
+
+    // Summaries go wherever informational system messages are routed
+    const digest = buildSummaryDigest(top.map(({ coin, window }) => buildAlertContent(coin, window)), period, windows)
+    const results = await Promise.all(
+      getAlertRouter().systemChannels('info').map(notifier => deliverDigest(notifier, digest))
+    )
+
+    const response = {
+      message: `${period} summary sent`,
+      period,
+      windows,
+      coins: top.map(({ coin, window }) => ({
+        symbol: coin.symbol,
+        chain: coin.chain,
+        window,
+        hype_score: coin.hype_score,
+      })),
+      delivered: results.filter(r => r.ok).map(r => r.channel),
+      failed: results.filter(r => !r.ok).map(r => ({ channel: r.channel, error: r.error })),
+      timestamp: new Date().toISOString(),
+    }
+
+    console.log('Send-summary function completed:', response)
+
+    return {
+      statusCode: 200,
+      headers,
+      body: JSON.stringify(response),
+    }
+
+  } catch (error) {
+    console.error('Error in send-summary function:', error)
+
+    try {
+      await broadcastSystemMessage(
+        getAlertRouter().systemChannels('error'),
+        `Summary error: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        'error'
+      )
+    } catch (notifyError) {
+      console.error('Failed to send error notification:', notifyError)
+    }
+
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred'
+
+    return {
+      statusCode: 500,
+      headers,
+      body: JSON.stringify({
+        error: 'Internal server error',
+        message: errorMessage,
+        timestamp: new Date().toISOString(),
+      }),
+    }
+  }
+}
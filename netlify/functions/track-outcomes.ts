@@ -0,0 +1,42 @@
+import { Handler, HandlerEvent, HandlerContext } from '@netlify/functions'
+import { getAlertOutcomeTracker } from '../../lib/alert-outcomes'
+import { connectStorage } from '../../lib/kv'
+
+// Scheduled: checks recent alerts at +15m/+1h/+4h against the snapshot history
+export const handler: Handler = async (event: HandlerEvent, context: HandlerContext) => {
+  connectStorage(event)
+
+  const headers = {
+    'Content-Type': 'application/json',
+  }
+
+  try {
+    const report = await getAlertOutcomeTracker().track()
+    console.log(`Outcome tracking: ${report.resolved} checkpoints resolved across ${report.alerts} recent alerts (${report.complete} complete)`)
+
+    return {
+      statusCode: 200,
+      headers,
+      body: JSON.stringify({
+        message: 'Outcome tracking complete',
+        ...report,
+        timestamp: new Date().toISOString(),
+      }),
+    }
+
+  } catch (error) {
+    console.error('Error in track-outcomes function:', error)
+
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred'
+
+    return {
+      statusCode: 500,
+      headers,
+      body: JSON.stringify({
+        error: 'Internal server error',
+        message: errorMessage,
+        timestamp: new Date().toISOString(),
+      }),
+    }
+  }
+}
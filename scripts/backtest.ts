@@ -0,0 +1,122 @@
+// Replay stored snapshots through an alternate scoring profile and rule set, entirely offline:
+//   npm run backtest -- --profile early-sniper --rules config/backtest-rules.example.json --from 2024-05-01T00:00:00Z
+import { readFileSync } from 'fs'
+import { parseArgs } from 'util'
+import { BacktestRulesSchema, ScoringProfileSchema, WindowSchema } from '../lib/schemas'
+import { getScoringProfile } from '../lib/scoring'
+import { getAlertRules } from '../lib/alert-rules'
+import { getCooldownRules } from '../lib/cooldown'
+import { getAlertLedger } from '../lib/alert-ledger'
+import { getSnapshotStore } from '../lib/snapshots'
+import { applyBacktestRules, BacktestReport, runBacktest, ScenarioResult } from '../lib/backtest'
+
+const USAGE = `Usage: npm run backtest -- [options]
+
+  --profile <name>        Scoring profile from the profiles config (default: the default profile)
+  --profile-file <path>   Scoring profile JSON file instead of a named profile
+  --rules <path>          Rules JSON overriding pre-pump/FUD thresholds, trending cutoff and cooldown
+  --from <iso>            Start of the replay (default: 24h before --to)
+  --to <iso>              End of the replay (default: now)
+  --windows <list>        Comma-separated snapshot windows (default: 1m,5m,15m)
+  --json                  Print the full report as JSON
+`
+
+const readJson = (path: string): unknown => JSON.parse(readFileSync(path, 'utf8'))
+
+const percent = (value: number | null): string => value === null ? '—' : `${(value * 100).toFixed(0)}%`
+
+function printScenario(label: string, result: ScenarioResult): void {
+  const types = Object.entries(result.by_type).map(([type, count]) => `${type} ${count}`).join(', ') || 'none'
+  console.log(`${label}: profile ${result.profile}, cooldown ${result.cooldown_minutes}m`)
+  console.log(`  ${result.alerts} alerts (${result.updates} updates) on ${result.coins} coins: ${types}`)
+  for (const [checkpoint, { overall }] of Object.entries(result.outcomes)) {
+    console.log(`  +${checkpoint.padEnd(4)} hit rate ${percent(overall.hit_rate).padStart(4)}  ` +
+      `continued ${overall.continued}, fizzled ${overall.fizzled}, reversed ${overall.reversed}, ` +
+      `no data ${overall.no_data}, pending ${overall.pending}`)
+  }
+}
+
+function printReport(report: BacktestReport): void {
+  console.log(`Backtest ${report.from_iso} → ${report.to_iso}`)
+  console.log(`${report.snapshots} snapshots in ${report.cycles} cycles across ${report.windows.join(', ')}\n`)
+
+  printScenario('Current', report.current)
+  printScenario('Candidate', report.candidate)
+
+  const { timing } = report
+  const against = timing.reference === 'ledger' ? 'alerts actually sent' : 'the current settings'
+  console.log(`\nTiming vs ${against}: ${timing.matched} coins in both`)
+  if (timing.median_lead_minutes !== null) {
+    const lead = timing.median_lead_minutes
+    console.log(`  Median first alert ${Math.abs(lead).toFixed(1)} min ${lead >= 0 ? 'earlier' : 'later'}`)
+  }
+  for (const coin of timing.coins.slice(0, 10)) {
+    console.log(`  ${coin.coin.padEnd(18)} ${coin.lead_minutes >= 0 ? '+' : ''}${coin.lead_minutes.toFixed(1)} min`)
+  }
+  if (timing.candidate_only.length > 0) {
+    console.log(`  Only the candidate alerts: ${timing.candidate_only.join(', ')}`)
+  }
+  if (timing.reference_only.length > 0) {
+    console.log(`  Only the reference alerts: ${timing.reference_only.join(', ')}`)
+  }
+}
+
+async function main(): Promise<void> {
+  const { values } = parseArgs({
+    options: {
+      profile: { type: 'string' },
+      'profile-file': { type: 'string' },
+      rules: { type: 'string' },
+      from: { type: 'string' },
+      to: { type: 'string' },
+      windows: { type: 'string' },
+      json: { type: 'boolean', default: false },
+      help: { type: 'boolean', default: false },
+    },
+  })
+
+  if (values.help) {
+    console.log(USAGE)
+    return
+  }
+
+  const to = values.to ? new Date(values.to) : new Date()
+  const from = values.from ? new Date(values.from) : new Date(to.getTime() - 24 * 60 * 60 * 1000)
+  if (isNaN(from.getTime()) || isNaN(to.getTime()) || from >= to) {
+    throw new Error('--from and --to must be ISO timestamps with --from before --to')
+  }
+
+  const windows = values.windows ? values.windows.split(',').map(window => WindowSchema.parse(window.trim())) : undefined
+
+  const candidateProfile = values['profile-file']
+    ? ScoringProfileSchema.parse(readJson(values['profile-file']))
+    : getScoringProfile(values.profile)
+  const candidateRules = values.rules
+    ? applyBacktestRules(BacktestRulesSchema.parse(readJson(values.rules)))
+    : { rules: getAlertRules(), cooldown: getCooldownRules() }
+
+  // Custom rule alerts follow users' own conditions, so only the global alerts are a reference
+  const referenceAlerts = (await getAlertLedger().list(from))
+    .filter(alert => alert.sent_at_iso <= to.toISOString() && !alert.rule_id)
+
+  const report = await runBacktest({
+    from,
+    to,
+    windows,
+    current: { name: 'current', profile: getScoringProfile(), rules: getAlertRules(), cooldown: getCooldownRules() },
+    candidate: { name: 'candidate', profile: candidateProfile, ...candidateRules },
+    store: getSnapshotStore(),
+    referenceAlerts,
+  })
+
+  if (values.json) {
+    console.log(JSON.stringify(report, null, 2))
+  } else {
+    printReport(report)
+  }
+}
+
+main().catch(error => {
+  console.error(error instanceof Error ? error.message : error)
+  process.exit(1)
+})
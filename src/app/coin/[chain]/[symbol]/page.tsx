@@ -1,20 +1,46 @@
 'use client';
 
 import { useState, useEffect } from 'react';
-import { useParams } from 'next/navigation';
+import { useParams, useSearchParams } from 'next/navigation';
 import Link from 'next/link';
 import { ArrowLeft, ExternalLink, TrendingUp, TrendingDown, Users, MessageCircle, Hash, DollarSign, Zap, Clock, AlertTriangle } from 'lucide-react';
-import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from 'recharts';
-import { CoinDetail } from '@/lib/schemas';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ReferenceDot, ResponsiveContainer } from 'recharts';
+import { CoinDetail, TimelineRange, Velocity, Window } from '@/lib/schemas';
+import { formatPrePumpCondition } from '@/lib/pre-pump';
+import { formatPrice, formatPriceChange, formatUsd } from '@/lib/market-data/format';
+import { getChain, getExplorerUrl } from '@/lib/chains';
+import ChainBadge from '../../../../components/ChainBadge';
+
+interface CoinDetailResponse extends CoinDetail {
+  metadata: {
+    windows_available: number;
+    highest_hype_score: number;
+    lowest_hype_score: number;
+    average_hype_score: number;
+    last_updated: string;
+    is_trending: boolean;
+    is_pre_pump: boolean;
+    pre_pump_windows: Window[];
+    other_contracts: string[];
+  };
+}
+
+const WINDOWS: Window[] = ['1m', '5m', '15m', '1h', '4h', '24h'];
+const TIMELINE_RANGES: TimelineRange[] = ['1h', '6h', '24h', '7d'];
 
 export default function CoinDetailPage() {
   const params = useParams();
   const chain = params.chain as string;
   const symbol = params.symbol as string;
+  // Set when linking from the leaderboard, so tokens that share a symbol open the right page
+  const address = useSearchParams().get('address');
   
-  const [coinData, setCoinData] = useState<CoinDetail | null>(null);
+  const [coinData, setCoinData] = useState<CoinDetailResponse | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const [timelineRange, setTimelineRange] = useState<TimelineRange>('24h');
+  // 'auto' lets the API pick a snapshot window that suits the range
+  const [timelineWindow, setTimelineWindow] = useState<Window | 'auto'>('auto');
 
   useEffect(() => {
     const fetchCoinData = async () => {
@@ -22,7 +48,14 @@ export default function CoinDetailPage() {
         setLoading(true);
         setError(null);
         
-        const response = await fetch(`/api/api-coin?chain=${encodeURIComponent(chain)}&symbol=${encodeURIComponent(symbol)}`);
+        const params = new URLSearchParams({ chain, symbol, range: timelineRange });
+        if (address) {
+          params.set('address', address);
+        }
+        if (timelineWindow !== 'auto') {
+          params.set('window', timelineWindow);
+        }
+        const response = await fetch(`/api/api-coin?${params.toString()}`);
         
         if (!response.ok) {
           throw new Error(`Failed to fetch coin data: ${response.status}`);
@@ -41,7 +74,7 @@ export default function CoinDetailPage() {
     if (chain && symbol) {
       fetchCoinData();
     }
-  }, [chain, symbol]);
+  }, [chain, symbol, address, timelineRange, timelineWindow]);
 
   const formatHypeScore = (score: number) => {
     return (score * 100).toFixed(1);
@@ -71,7 +104,16 @@ export default function CoinDetailPage() {
     return growth > 0 ? 'text-success-600' : 'text-danger-600';
   };
 
-  if (loading) {
+  // Change since the radar's previous run, and how that change itself moved
+  const formatVelocity = (velocity: Velocity) => {
+    if (velocity.mention_growth === null) return 'no recent previous run';
+    const growth = velocity.mention_growth * 100;
+    const accel = velocity.acceleration === null ? '' : `, accel ${velocity.acceleration >= 0 ? '+' : ''}${velocity.acceleration.toFixed(2)}`;
+    return `${growth >= 0 ? '+' : ''}${growth.toFixed(0)}% vs last run${accel}`;
+  };
+
+  // Only show the skeleton on first load; changing the timeline keeps the page in place
+  if (loading && !coinData) {
     return (
       <div className="min-h-screen bg-gray-50 p-6">
         <div className="max-w-6xl mx-auto">
@@ -134,12 +176,26 @@ export default function CoinDetailPage() {
     );
   }
 
-  const currentWindow = coinData.windows[0];
-  const sparklineData = coinData.hype_sparkline.map((point, index) => ({
-    window: point.window,
+  // Shortest window with data is the most current view of the coin
+  const currentWindowKey = WINDOWS.find(w => coinData.windows[w]) ?? '5m';
+  const currentWindow = coinData.windows[currentWindowKey]!;
+  const prePump = currentWindow.pre_pump;
+  const market = currentWindow.market;
+  const timelinePoints = (coinData.timeline?.points ?? []).map(point => ({
+    time: new Date(point.timestamp).getTime(),
     hype: point.hype_score * 100,
-    index
+    tweets: point.tweet_count,
+    authors: point.unique_authors,
+    prePump: point.is_pre_pump,
   }));
+  const prePumpPoints = timelinePoints.filter(point => point.prePump);
+
+  const formatTimelineTick = (time: number) => {
+    const date = new Date(time);
+    return timelineRange === '7d'
+      ? date.toLocaleDateString([], { month: 'short', day: 'numeric' })
+      : date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+  };
 
   return (
     <div className="min-h-screen bg-gray-50 p-6">
@@ -152,7 +208,7 @@ export default function CoinDetailPage() {
           </Link>
           <div className="flex items-center space-x-2 text-sm text-gray-500">
             <Clock className="w-4 h-4" />
-            <span>Last updated: {new Date(coinData.last_updated).toLocaleTimeString()}</span>
+            <span>Last updated: {new Date(coinData.metadata.last_updated).toLocaleTimeString()}</span>
           </div>
         </div>
 
@@ -161,20 +217,72 @@ export default function CoinDetailPage() {
           <div className="flex items-start justify-between">
             <div>
               <div className="flex items-center space-x-3 mb-2">
-                <h1 className="text-3xl font-bold text-gray-900">${currentWindow.symbol}</h1>
-                <span className="badge-secondary">{currentWindow.chain}</span>
-                {coinData.is_pre_pump && (
-                  <span className="badge-danger">PRE-PUMP</span>
+                <h1 className="text-3xl font-bold text-gray-900">${coinData.symbol}</h1>
+                <ChainBadge chain={coinData.chain} />
+                {coinData.metadata.is_pre_pump && (
+                  <span className="badge-danger" title={`Pre-pump in ${coinData.metadata.pre_pump_windows.join(', ')}`}>PRE-PUMP</span>
                 )}
-                {coinData.is_trending && (
+                {coinData.metadata.is_trending && (
                   <span className="badge-warning">TRENDING</span>
                 )}
               </div>
-              {currentWindow.name && (
-                <p className="text-lg text-gray-600 mb-2">{currentWindow.name}</p>
+              {coinData.name && (
+                <p className="text-lg text-gray-600 mb-2">{coinData.name}</p>
+              )}
+              {coinData.contract_address && (
+                <p className="text-sm text-gray-500 font-mono flex items-center">
+                  {coinData.contract_address}
+                  {getExplorerUrl(coinData.chain, coinData.contract_address) && (
+                    <a
+                      href={getExplorerUrl(coinData.chain, coinData.contract_address)!}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="text-primary-600 hover:text-primary-900 ml-2"
+                      title={`View on the ${getChain(coinData.chain)?.name} explorer`}
+                    >
+                      <ExternalLink className="h-4 w-4" />
+                    </a>
+                  )}
+                </p>
               )}
-              {currentWindow.contract_address && (
-                <p className="text-sm text-gray-500 font-mono">{currentWindow.contract_address}</p>
+              {currentWindow.collision && (
+                <p className={`text-sm flex items-center mt-1 ${currentWindow.collision.possible_clone ? 'text-danger-600' : 'text-gray-600'}`}>
+                  <AlertTriangle className="h-4 w-4 mr-1" />
+                  {currentWindow.collision.possible_clone ? (
+                    <span>
+                      Possible clone: the original ${coinData.symbol} is{' '}
+                      <Link
+                        href={`/coin/${currentWindow.collision.original.chain}/${coinData.symbol}?address=${encodeURIComponent(currentWindow.collision.original.contract_address)}`}
+                        className="font-mono text-primary-600 hover:text-primary-900"
+                      >
+                        {currentWindow.collision.original.contract_address}
+                      </Link>{' '}
+                      on {currentWindow.collision.original.chain}, first seen {new Date(currentWindow.collision.original.first_seen_iso).toLocaleString()}
+                    </span>
+                  ) : (
+                    <span>Original ${coinData.symbol} contract; {currentWindow.collision.contracts - 1} newer contract(s) use the same ticker</span>
+                  )}
+                </p>
+              )}
+              {currentWindow.address_check && (
+                <p className="text-sm text-danger-600 flex items-center mt-1">
+                  <AlertTriangle className="h-4 w-4 mr-1" />
+                  {currentWindow.address_check.message}: <span className="font-mono ml-1">{currentWindow.address_check.original}</span>
+                </p>
+              )}
+              {coinData.metadata.other_contracts.length > 0 && (
+                <p className="text-sm text-gray-500 mt-1">
+                  Other ${coinData.symbol} tokens on {coinData.chain}:{' '}
+                  {coinData.metadata.other_contracts.map((other) => (
+                    <Link
+                      key={other}
+                      href={`/coin/${coinData.chain}/${coinData.symbol}?address=${encodeURIComponent(other)}`}
+                      className="font-mono text-primary-600 hover:text-primary-900 mr-2"
+                    >
+                      {other.slice(0, 6)}…{other.slice(-4)}
+                    </Link>
+                  ))}
+                </p>
               )}
             </div>
             <div className="text-right">
@@ -186,7 +294,7 @@ export default function CoinDetailPage() {
                   HYPE
                 </span>
               </div>
-              <p className="text-sm text-gray-500">Current Hype Score</p>
+              <p className="text-sm text-gray-500">Current Hype Score ({currentWindowKey})</p>
             </div>
           </div>
         </div>
@@ -194,40 +302,121 @@ export default function CoinDetailPage() {
         <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
           {/* Main Content */}
           <div className="lg:col-span-2 space-y-6">
-            {/* Hype Sparkline */}
+            {/* Hype Timeline */}
             <div className="card p-6">
-              <h2 className="text-xl font-semibold text-gray-900 mb-4 flex items-center">
-                <TrendingUp className="w-5 h-5 mr-2" />
-                Hype Score Trend
-              </h2>
-              <div className="h-64">
-                <ResponsiveContainer width="100%" height="100%">
-                  <LineChart data={sparklineData}>
-                    <CartesianGrid strokeDasharray="3 3" />
-                    <XAxis 
-                      dataKey="window" 
-                      tick={{ fontSize: 12 }}
-                    />
-                    <YAxis 
-                      domain={[0, 100]}
-                      tick={{ fontSize: 12 }}
-                      label={{ value: 'Hype Score (%)', angle: -90, position: 'insideLeft' }}
-                    />
-                    <Tooltip 
-                      formatter={(value: number) => [`${value.toFixed(1)}%`, 'Hype Score']}
-                      labelFormatter={(label) => `Window: ${label}`}
-                    />
-                    <Line 
-                      type="monotone" 
-                      dataKey="hype" 
-                      stroke="#3B82F6" 
-                      strokeWidth={3}
-                      dot={{ fill: '#3B82F6', strokeWidth: 2, r: 4 }}
-                      activeDot={{ r: 6, stroke: '#3B82F6', strokeWidth: 2 }}
-                    />
-                  </LineChart>
-                </ResponsiveContainer>
+              <div className="flex items-center justify-between mb-4">
+                <h2 className="text-xl font-semibold text-gray-900 flex items-center">
+                  <TrendingUp className="w-5 h-5 mr-2" />
+                  Hype Score Trend
+                </h2>
+                <div className="flex items-center space-x-2">
+                  {TIMELINE_RANGES.map((range) => (
+                    <button
+                      key={range}
+                      onClick={() => setTimelineRange(range)}
+                      className={`px-2 py-1 text-xs font-medium rounded ${
+                        timelineRange === range ? 'bg-primary-600 text-white' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                      }`}
+                    >
+                      {range}
+                    </button>
+                  ))}
+                  <select
+                    value={timelineWindow}
+                    onChange={(e) => setTimelineWindow(e.target.value as Window | 'auto')}
+                    className="text-xs border border-gray-300 rounded px-2 py-1"
+                    title="Trend window the snapshots are taken from"
+                  >
+                    <option value="auto">Auto{coinData.timeline ? ` (${coinData.timeline.window})` : ''}</option>
+                    {WINDOWS.map((w) => (
+                      <option key={w} value={w}>{w} window</option>
+                    ))}
+                  </select>
+                </div>
               </div>
+              {timelinePoints.length > 0 ? (
+                <div className="h-64">
+                  <ResponsiveContainer width="100%" height="100%">
+                    <LineChart data={timelinePoints}>
+                      <CartesianGrid strokeDasharray="3 3" />
+                      <XAxis 
+                        dataKey="time" 
+                        type="number"
+                        scale="time"
+                        domain={['dataMin', 'dataMax']}
+                        tickFormatter={formatTimelineTick}
+                        tick={{ fontSize: 12 }}
+                      />
+                      <YAxis 
+                        yAxisId="hype"
+                        domain={[0, 100]}
+                        tick={{ fontSize: 12 }}
+                        label={{ value: 'Hype Score (%)', angle: -90, position: 'insideLeft' }}
+                      />
+                      <YAxis 
+                        yAxisId="counts"
+                        orientation="right"
+                        tick={{ fontSize: 12 }}
+                      />
+                      <Tooltip 
+                        formatter={(value: number, name: string) => [name === 'Hype Score' ? `${value.toFixed(1)}%` : value, name]}
+                        labelFormatter={(label: number) => new Date(label).toLocaleString()}
+                      />
+                      <Legend />
+                      <Line 
+                        yAxisId="hype"
+                        type="monotone" 
+                        dataKey="hype" 
+                        name="Hype Score"
+                        stroke="#3B82F6" 
+                        strokeWidth={3}
+                        dot={false}
+                        activeDot={{ r: 6, stroke: '#3B82F6', strokeWidth: 2 }}
+                      />
+                      <Line 
+                        yAxisId="counts"
+                        type="monotone" 
+                        dataKey="tweets" 
+                        name="Tweets"
+                        stroke="#9CA3AF" 
+                        strokeWidth={1.5}
+                        dot={false}
+                      />
+                      <Line 
+                        yAxisId="counts"
+                        type="monotone" 
+                        dataKey="authors" 
+                        name="Authors"
+                        stroke="#10B981" 
+                        strokeWidth={1.5}
+                        dot={false}
+                      />
+                      {/* Moments the pre-pump rule fired */}
+                      {prePumpPoints.map((point) => (
+                        <ReferenceDot
+                          key={point.time}
+                          yAxisId="hype"
+                          x={point.time}
+                          y={point.hype}
+                          r={5}
+                          fill="#EF4444"
+                          stroke="none"
+                        />
+                      ))}
+                    </LineChart>
+                  </ResponsiveContainer>
+                </div>
+              ) : (
+                <div className="h-64 flex items-center justify-center text-sm text-gray-500">
+                  No snapshot history for this coin in the last {timelineRange} yet
+                </div>
+              )}
+              {prePumpPoints.length > 0 && (
+                <p className="text-xs text-gray-500 mt-2">
+                  <span className="inline-block w-2 h-2 rounded-full bg-danger-500 mr-1"></span>
+                  Pre-pump detected ({prePumpPoints.length} {prePumpPoints.length === 1 ? 'point' : 'points'})
+                </p>
+              )}
             </div>
 
             {/* Top Tweets */}
@@ -266,6 +455,66 @@ export default function CoinDetailPage() {
 
           {/* Sidebar */}
           <div className="space-y-6">
+            {/* DEX Market */}
+            {market !== undefined && (
+              <div className="card p-6">
+                <h3 className="text-lg font-semibold text-gray-900 mb-4 flex items-center justify-between">
+                  <span className="flex items-center">
+                    <DollarSign className="h-5 w-5 mr-1" />
+                    Market
+                  </span>
+                  {market?.low_liquidity && (
+                    <span className="badge-danger" title="Thin pool: hype here is cheap to fake">LOW LIQUIDITY</span>
+                  )}
+                </h3>
+                {market ? (
+                  <div className="space-y-4">
+                    <div className="flex justify-between items-center">
+                      <span className="text-gray-600">Price</span>
+                      <span className="font-medium text-gray-900">{formatPrice(market.price_usd)}</span>
+                    </div>
+                    {([['5m', market.price_change_5m], ['1h', market.price_change_1h]] as const).map(([label, change]) => (
+                      <div key={label} className="flex justify-between items-center">
+                        <span className="text-gray-600">Change ({label})</span>
+                        <span className={`font-medium ${change === null ? 'text-gray-500' : change >= 0 ? 'text-success-600' : 'text-danger-600'}`}>
+                          {formatPriceChange(change)}
+                        </span>
+                      </div>
+                    ))}
+                    <div className="flex justify-between items-center">
+                      <span className="text-gray-600">Liquidity</span>
+                      <span className={`font-medium ${market.low_liquidity ? 'text-danger-600' : 'text-gray-900'}`}>
+                        {formatUsd(market.liquidity_usd)}
+                      </span>
+                    </div>
+                    <div className="flex justify-between items-center">
+                      <span className="text-gray-600">FDV</span>
+                      <span className="font-medium text-gray-900">{formatUsd(market.fdv_usd)}</span>
+                    </div>
+                    <div className="flex justify-between items-center">
+                      <span className="text-gray-600">Volume (1h / 24h)</span>
+                      <span className="font-medium text-gray-900">
+                        {formatUsd(market.volume_1h_usd)} / {formatUsd(market.volume_24h_usd)}
+                      </span>
+                    </div>
+                    {market.pair_url && (
+                      <a
+                        href={market.pair_url}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="text-primary-600 hover:text-primary-900 text-sm font-medium flex items-center"
+                      >
+                        View pair on {market.dex ?? 'DEX'}
+                        <ExternalLink className="h-4 w-4 ml-1" />
+                      </a>
+                    )}
+                  </div>
+                ) : (
+                  <p className="text-sm text-gray-600">No DEX pair found for this contract.</p>
+                )}
+              </div>
+            )}
+
             {/* Key Metrics */}
             <div className="card p-6">
               <h3 className="text-lg font-semibold text-gray-900 mb-4">Key Metrics</h3>
@@ -284,19 +533,38 @@ export default function CoinDetailPage() {
                 </div>
                 <div className="flex justify-between items-center">
                   <span className="text-gray-600">Windows Available</span>
-                  <span className="font-medium text-gray-900">{coinData.windows_available}</span>
+                  <span className="font-medium text-gray-900">{coinData.metadata.windows_available}</span>
                 </div>
                 <div className="flex justify-between items-center">
                   <span className="text-gray-600">Highest Hype</span>
-                  <span className="font-medium text-gray-900">{formatHypeScore(coinData.highest_hype_score)}%</span>
+                  <span className="font-medium text-gray-900">{formatHypeScore(coinData.metadata.highest_hype_score)}%</span>
                 </div>
                 <div className="flex justify-between items-center">
                   <span className="text-gray-600">Average Hype</span>
-                  <span className="font-medium text-gray-900">{formatHypeScore(coinData.average_hype_score)}%</span>
+                  <span className="font-medium text-gray-900">{formatHypeScore(coinData.metadata.average_hype_score)}%</span>
                 </div>
               </div>
             </div>
 
+            {/* Pre-pump Checks */}
+            {prePump && (
+              <div className="card p-6">
+                <h3 className="text-lg font-semibold text-gray-900 mb-4 flex items-center justify-between">
+                  <span>Pre-pump Checks ({currentWindowKey})</span>
+                  <span className={prePump.is_pre_pump ? 'badge-danger' : 'badge-secondary'}>
+                    {prePump.passed_count}/{prePump.conditions.length}
+                  </span>
+                </h3>
+                <ul className="space-y-2">
+                  {prePump.conditions.map((condition) => (
+                    <li key={condition.id} className={`text-sm ${condition.passed ? 'text-success-600' : 'text-gray-600'}`}>
+                      {formatPrePumpCondition(condition)}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
             {/* Activity Stats */}
             <div className="card p-6">
               <h3 className="text-lg font-semibold text-gray-900 mb-4">Activity Stats</h3>
@@ -314,6 +582,24 @@ export default function CoinDetailPage() {
                   </div>
                 </div>
                 
+                {currentWindow.velocity && (
+                  <div className="flex items-center justify-between">
+                    <div className="flex items-center space-x-2">
+                      <Clock className="w-4 h-4 text-gray-500" />
+                      <span className="text-gray-600">Mentions / min</span>
+                    </div>
+                    <div className="text-right" title={`First seen ${currentWindow.velocity.minutes_since_first_seen}m ago in this window`}>
+                      <div className="font-medium text-gray-900">
+                        {currentWindow.velocity.mentions_per_min.toFixed(1)}
+                        {currentWindow.velocity.is_accelerating && <span className="badge-success ml-2">ACCEL</span>}
+                      </div>
+                      <div className={`text-xs ${(currentWindow.velocity.mention_growth ?? 0) >= 0 ? 'text-success-600' : 'text-danger-600'}`}>
+                        {formatVelocity(currentWindow.velocity)}
+                      </div>
+                    </div>
+                  </div>
+                )}
+
                 <div className="flex items-center justify-between">
                   <div className="flex items-center space-x-2">
                     <Users className="w-4 h-4 text-gray-500" />
@@ -1,8 +1,16 @@
 'use client'
 
 import { useState, useEffect } from 'react'
-import { Coin, Window } from '../../lib/schemas'
-import { TrendingUp, TrendingDown, ExternalLink, Clock, Users, MessageCircle, Hash, Wallet, AlertTriangle } from 'lucide-react'
+import { Coin, Watchlist, WatchlistInput, Window } from '../../lib/schemas'
+import { formatPrePumpCondition } from '../../lib/pre-pump'
+import { formatPrice, formatPriceChange, formatUsd } from '../../lib/market-data/format'
+import { coinKey, isSameCoin } from '../../lib/addresses'
+import { formatConfluence } from '../../lib/confluence'
+import { CHAINS, getChain, getExplorerUrl } from '../../lib/chains'
+import { TrendingUp, TrendingDown, ExternalLink, Clock, Users, MessageCircle, Hash, Wallet, AlertTriangle, Eye } from 'lucide-react'
+import AlertPrecisionPanel from '../components/AlertPrecisionPanel'
+import ChainBadge from '../components/ChainBadge'
+import WatchlistPanel from '../components/WatchlistPanel'
 
 interface LeaderboardData {
   coins: Coin[]
@@ -14,12 +22,41 @@ interface LeaderboardData {
     chain_filter: string
     last_updated: string
     pre_pump_count: number
+    fud_spike_count: number
     high_hype_count: number
+    rising_count: number
+    min_confluence: number
+    cache_hit: boolean
+    data_age_seconds: number
+    data_fetched_at: string
+    scoring_profile: string
+    available_profiles: string[]
   }
 }
 
 const WINDOWS: Window[] = ['1m', '5m', '15m', '1h', '4h', '24h']
-const CHAINS = ['ALL', 'SOL', 'ETH', 'BSC']
+
+// There are no accounts: each browser keeps the id of its watchlist
+const WATCHLIST_ID_KEY = 'meme-radar:watchlist-id'
+
+const getWatchlistId = (): string => {
+  let id = localStorage.getItem(WATCHLIST_ID_KEY)
+  if (!id) {
+    id = `wl-${Date.now().toString(36)}${Math.random().toString(36).slice(2, 8)}`
+    localStorage.setItem(WATCHLIST_ID_KEY, id)
+  }
+  return id
+}
+
+// Watchlist changes need the deployment's API write token; the browser asks for it once and keeps it
+const API_TOKEN_KEY = 'meme-radar:api-token'
+
+const getWriteHeaders = (): Record<string, string> => {
+  const token = localStorage.getItem(API_TOKEN_KEY)
+  return token
+    ? { 'Content-Type': 'application/json', 'Authorization': `Bearer ${token}` }
+    : { 'Content-Type': 'application/json' }
+}
 
 export default function HomePage() {
   const [data, setData] = useState<LeaderboardData | null>(null)
@@ -27,7 +64,11 @@ export default function HomePage() {
   const [error, setError] = useState<string | null>(null)
   const [selectedWindow, setSelectedWindow] = useState<Window>('5m')
   const [selectedChain, setSelectedChain] = useState('ALL')
+  const [selectedProfile, setSelectedProfile] = useState('')
   const [autoRefresh, setAutoRefresh] = useState(true)
+  const [view, setView] = useState<'leaderboard' | 'watchlist'>('leaderboard')
+  const [watchlistId, setWatchlistId] = useState('')
+  const [watchlist, setWatchlist] = useState<Watchlist | null>(null)
 
   const fetchData = async () => {
     try {
@@ -38,6 +79,9 @@ export default function HomePage() {
         window: selectedWindow,
         chain: selectedChain,
       })
+      if (selectedProfile) {
+        params.set('profile', selectedProfile)
+      }
       
       const response = await fetch(`/api/api-leaderboard?${params}`)
       
@@ -56,21 +100,124 @@ export default function HomePage() {
 
   useEffect(() => {
     fetchData()
-  }, [selectedWindow, selectedChain])
+  }, [selectedWindow, selectedChain, selectedProfile])
+
+  // Load the entries only; the watchlist view fetches the cross-window tracking itself
+  useEffect(() => {
+    const id = getWatchlistId()
+    setWatchlistId(id)
+    fetch(`/api/api-watchlists?${new URLSearchParams({ id, track: 'false' })}`)
+      .then(response => response.ok ? response.json() : null)
+      .then(result => setWatchlist(result?.watchlist ?? null))
+      .catch(() => setWatchlist(null))
+  }, [])
+
+  const saveWatchlist = async (input: WatchlistInput, askForToken = true): Promise<void> => {
+    const response = await fetch(`/api/api-watchlists?${new URLSearchParams({ id: watchlistId })}`, {
+      method: 'PUT',
+      headers: getWriteHeaders(),
+      body: JSON.stringify(input),
+    })
+    if (response.status === 401 && askForToken) {
+      const token = window.prompt('API write token for watchlist changes')?.trim()
+      if (token) {
+        localStorage.setItem(API_TOKEN_KEY, token)
+        return saveWatchlist(input, false)
+      }
+    }
+    const result = await response.json()
+    if (!response.ok) {
+      throw new Error(result.message || `HTTP ${response.status}: ${response.statusText}`)
+    }
+    setWatchlist(result.watchlist)
+  }
+
+  const isWatched = (coin: Coin): boolean =>
+    (watchlist?.entries ?? []).some(entry =>
+      isSameCoin({ symbol: entry.symbol ?? '', chain: entry.chain, contract_address: entry.contract_address }, coin))
+
+  const toggleWatch = (coin: Coin) => {
+    const entries = watchlist?.entries ?? []
+    saveWatchlist({
+      entries: isWatched(coin)
+        ? entries.filter(entry => !isSameCoin({ symbol: entry.symbol ?? '', chain: entry.chain, contract_address: entry.contract_address }, coin))
+        : [...entries, { chain: coin.chain, symbol: coin.symbol, contract_address: coin.contract_address ?? undefined }],
+      alerts: watchlist?.alerts,
+    }).catch(err => console.error('Failed to update watchlist:', err))
+  }
 
   useEffect(() => {
     if (!autoRefresh) return
 
     const interval = setInterval(fetchData, 30000) // Refresh every 30 seconds
     return () => clearInterval(interval)
-  }, [autoRefresh, selectedWindow, selectedChain])
-
-  const isPrePump = (coin: Coin): boolean => {
-    const { counts, baseline } = coin
-    const tweetGrowth = baseline.tweet_count > 0 ? counts.tweet_count / baseline.tweet_count : 0
-    const authorGrowth = baseline.unique_authors > 0 ? counts.unique_authors / baseline.unique_authors : 0
-    const kolVerifiedCount = counts.kol_count + counts.verified_count
-    return tweetGrowth >= 3 && authorGrowth >= 2 && kolVerifiedCount >= 5
+  }, [autoRefresh, selectedWindow, selectedChain, selectedProfile])
+
+  // Pre-pump status and its breakdown come from the API so the table matches alerts and counts exactly
+  const getPrePumpTooltip = (coin: Coin): string => {
+    if (!coin.pre_pump) return ''
+    const header = coin.pre_pump.is_pre_pump ? 'Pre-pump detected!' : `Pre-pump checks: ${coin.pre_pump.passed_count}/${coin.pre_pump.conditions.length}`
+    return [header, ...coin.pre_pump.conditions.map(formatPrePumpCondition)].join('\n')
+  }
+
+  const getFudTooltip = (coin: Coin): string => {
+    if (!coin.fud_spike) return ''
+    const { tweet_growth, sentiment, thresholds } = coin.fud_spike
+    return `FUD spike: tweets ${tweet_growth.toFixed(1)}x baseline with sentiment ${sentiment.toFixed(2)} (≤ ${thresholds.max_sentiment.toFixed(2)})`
+  }
+
+  const getCloneTooltip = (coin: Coin): string => {
+    if (!coin.collision) return ''
+    const { original, contracts } = coin.collision
+    return `${contracts} contracts use $${coin.symbol}. Original: ${original.contract_address} (${original.chain}), first seen ${new Date(original.first_seen_iso).toLocaleString()}`
+  }
+
+  // Per-component contributions, e.g. "volume_growth: +0.21 (raw 4.20, weight 0.30)"
+  const getHypeTooltip = (coin: Coin): string => {
+    if (!coin.hype_breakdown) return ''
+    const { profile, chain_variant, components, sentiment_multiplier } = coin.hype_breakdown
+    const header = `Profile: ${profile}${chain_variant ? ` (${chain_variant} variant)` : ''}`
+    const lines = components.map(c =>
+      `${c.id}: +${c.contribution.toFixed(2)} (raw ${c.raw.toFixed(2)}, weight ${c.weight.toFixed(2)})`
+    )
+    if (sentiment_multiplier < 1) {
+      lines.push(`negative sentiment: ×${sentiment_multiplier.toFixed(2)}`)
+    }
+    return [header, ...lines].join('\n')
+  }
+
+  const getBaselineTooltip = (coin: Coin): string => {
+    if (!coin.baseline_check) return ''
+    const { samples, disagreements } = coin.baseline_check
+    return [
+      `Model-reported baseline disagrees with ${samples} earlier runs:`,
+      ...disagreements.map(d => `${d.field}: model ${d.reported} vs measured ${d.measured}`),
+    ].join('\n')
+  }
+
+  const getVelocityTooltip = (coin: Coin): string => {
+    if (!coin.velocity) return ''
+    const { mentions_per_min, mention_growth, acceleration, minutes_since_previous, minutes_since_first_seen, runs } = coin.velocity
+    return [
+      `Mentions: ${mentions_per_min.toFixed(1)}/min`,
+      mention_growth === null
+        ? 'No recent previous run to compare'
+        : `Since last run (${minutes_since_previous?.toFixed(0)}m ago): ${mention_growth >= 0 ? '+' : ''}${(mention_growth * 100).toFixed(0)}%`,
+      `Acceleration: ${acceleration === null ? 'needs three successive runs' : `${acceleration >= 0 ? '+' : ''}${acceleration.toFixed(2)}`}`,
+      `First seen ${minutes_since_first_seen}m ago in this window (${runs} runs)`,
+    ].join('\n')
+  }
+
+  const getConfluenceTooltip = (coin: Coin): string => {
+    if (!coin.confluence) return ''
+    const lines = [
+      `Hype by window: ${formatConfluence(coin.confluence)}`,
+      `On ${coin.confluence.present} of ${coin.confluence.windows.length} windows${coin.confluence.rising ? ', rising toward the shortest' : ''}`,
+    ]
+    if (data && coin.confluence.score < data.metadata.min_confluence) {
+      lines.push(`Below ${(data.metadata.min_confluence * 100).toFixed(0)}%: not confirmed enough for a trending alert`)
+    }
+    return lines.join('\n')
   }
 
   const formatGrowth = (current: number, baseline: number): string => {
@@ -79,6 +226,17 @@ export default function HomePage() {
     return `+${growth}x`
   }
 
+  const formatAge = (seconds: number): string => {
+    if (seconds < 60) return `${seconds}s`
+    if (seconds < 3600) return `${Math.floor(seconds / 60)}m`
+    return `${Math.floor(seconds / 3600)}h ${Math.floor((seconds % 3600) / 60)}m`
+  }
+
+  const getPriceChangeColor = (change: number | null): string => {
+    if (change === null) return 'text-gray-500'
+    return change >= 0 ? 'text-success-600' : 'text-danger-600'
+  }
+
   const getHypeColor = (score: number): string => {
     if (score >= 0.8) return 'text-red-600 bg-red-50'
     if (score >= 0.6) return 'text-orange-600 bg-orange-50'
@@ -86,15 +244,6 @@ export default function HomePage() {
     return 'text-gray-600 bg-gray-50'
   }
 
-  const getChainColor = (chain: string): string => {
-    switch (chain) {
-      case 'SOL': return 'bg-purple-100 text-purple-800'
-      case 'ETH': return 'bg-blue-100 text-blue-800'
-      case 'BSC': return 'bg-yellow-100 text-yellow-800'
-      default: return 'bg-gray-100 text-gray-800'
-    }
-  }
-
   if (loading && !data) {
     return (
       <div className="flex items-center justify-center min-h-96">
@@ -142,6 +291,9 @@ export default function HomePage() {
               <div>
                 <p className="text-sm font-medium text-gray-600">Pre-Pump</p>
                 <p className="text-2xl font-bold text-red-600">{data.metadata.pre_pump_count}</p>
+                {data.metadata.fud_spike_count > 0 && (
+                  <p className="text-xs text-warning-600">FUD spikes: {data.metadata.fud_spike_count}</p>
+                )}
               </div>
             </div>
           </div>
@@ -152,6 +304,9 @@ export default function HomePage() {
               <div>
                 <p className="text-sm font-medium text-gray-600">High Hype</p>
                 <p className="text-2xl font-bold text-orange-600">{data.metadata.high_hype_count}</p>
+                {data.metadata.rising_count > 0 && (
+                  <p className="text-xs text-success-600">Rising across windows: {data.metadata.rising_count}</p>
+                )}
               </div>
             </div>
           </div>
@@ -164,6 +319,9 @@ export default function HomePage() {
                 <p className="text-sm text-gray-900">
                   {new Date(data.metadata.last_updated).toLocaleTimeString()}
                 </p>
+                <p className="text-xs text-gray-500">
+                  Data age: {formatAge(data.metadata.data_age_seconds)}{data.metadata.cache_hit ? ' (cached)' : ''}
+                </p>
               </div>
             </div>
           </div>
@@ -174,6 +332,23 @@ export default function HomePage() {
       <div className="card">
         <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center space-y-4 sm:space-y-0">
           <div className="flex flex-wrap gap-4">
+            {/* View Tabs */}
+            <div className="flex space-x-1 bg-gray-100 rounded-lg p-1">
+              {(['leaderboard', 'watchlist'] as const).map((value) => (
+                <button
+                  key={value}
+                  onClick={() => setView(value)}
+                  className={`px-3 py-1.5 text-sm font-medium rounded-md transition-colors ${
+                    view === value
+                      ? 'bg-white text-primary-600 shadow-sm'
+                      : 'text-gray-600 hover:text-gray-900'
+                  }`}
+                >
+                  {value === 'leaderboard' ? 'Leaderboard' : `Watchlist (${watchlist?.entries.length ?? 0})`}
+                </button>
+              ))}
+            </div>
+
             {/* Window Tabs */}
             <div className="flex space-x-1 bg-gray-100 rounded-lg p-1">
               {WINDOWS.map((window) => (
@@ -197,9 +372,23 @@ export default function HomePage() {
               onChange={(e) => setSelectedChain(e.target.value)}
               className="px-3 py-1.5 text-sm border border-gray-300 rounded-md focus:ring-primary-500 focus:border-primary-500"
             >
+              <option value="ALL">All Chains</option>
               {CHAINS.map((chain) => (
-                <option key={chain} value={chain}>
-                  {chain === 'ALL' ? 'All Chains' : chain}
+                <option key={chain.id} value={chain.id}>
+                  {chain.name}
+                </option>
+              ))}
+            </select>
+
+            {/* Scoring Profile */}
+            <select
+              value={selectedProfile || data?.metadata?.scoring_profile || ''}
+              onChange={(e) => setSelectedProfile(e.target.value)}
+              className="px-3 py-1.5 text-sm border border-gray-300 rounded-md focus:ring-primary-500 focus:border-primary-500"
+            >
+              {(data?.metadata?.available_profiles ?? []).map((profile) => (
+                <option key={profile} value={profile}>
+                  Profile: {profile}
                 </option>
               ))}
             </select>
@@ -227,119 +416,205 @@ export default function HomePage() {
         </div>
       </div>
 
-      {/* Leaderboard Table */}
-      <div className="card overflow-hidden">
-        <div className="overflow-x-auto">
-          <table className="min-w-full divide-y divide-gray-200">
-            <thead className="bg-gray-50">
-              <tr>
-                <th className="table-header">Rank</th>
-                <th className="table-header">Symbol</th>
-                <th className="table-header">Chain</th>
-                <th className="table-header">Hype Score</th>
-                <th className="table-header">Growth</th>
-                <th className="table-header">Influence</th>
-                <th className="table-header">Reason</th>
-                <th className="table-header">Actions</th>
-              </tr>
-            </thead>
-            <tbody className="bg-white divide-y divide-gray-200">
-              {data?.coins.map((coin, index) => (
-                <tr key={`${coin.symbol}-${coin.chain}`} className="hover:bg-gray-50">
-                  <td className="table-cell">
-                    <div className="flex items-center">
-                      <span className="text-lg font-bold text-gray-900">#{index + 1}</span>
-                      {isPrePump(coin) && (
-                        <AlertTriangle className="h-4 w-4 text-red-500 ml-2" title="Pre-pump detected!" />
-                      )}
-                    </div>
-                  </td>
-                  
-                  <td className="table-cell">
-                    <div className="flex items-center">
-                      <div>
-                        <div className="text-sm font-medium text-gray-900">${coin.symbol}</div>
-                        {coin.name && (
-                          <div className="text-sm text-gray-500">{coin.name}</div>
+      {/* Watchlist across every window, or the Leaderboard Table */}
+      {view === 'watchlist' ? (
+        <WatchlistPanel watchlistId={watchlistId} watchlist={watchlist} onChange={saveWatchlist} />
+      ) : (
+        <div className="card overflow-hidden">
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="table-header">Rank</th>
+                  <th className="table-header">Symbol</th>
+                  <th className="table-header">Chain</th>
+                  <th className="table-header">Hype Score</th>
+                  <th className="table-header">Confluence</th>
+                  <th className="table-header">Growth</th>
+                  <th className="table-header">Influence</th>
+                  <th className="table-header">Market</th>
+                  <th className="table-header">Reason</th>
+                  <th className="table-header">Actions</th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {data?.coins.map((coin, index) => (
+                  <tr key={coinKey(coin)} className="hover:bg-gray-50">
+                    <td className="table-cell">
+                      <div className="flex items-center">
+                        <span className="text-lg font-bold text-gray-900">#{index + 1}</span>
+                        {coin.pre_pump?.is_pre_pump && (
+                          <span title={getPrePumpTooltip(coin)}>
+                            <AlertTriangle className="h-4 w-4 text-red-500 ml-2" />
+                          </span>
                         )}
                       </div>
-                    </div>
-                  </td>
-                  
-                  <td className="table-cell">
-                    <span className={`badge ${getChainColor(coin.chain)}`}>
-                      {coin.chain}
-                    </span>
-                  </td>
-                  
-                  <td className="table-cell">
-                    <span className={`badge ${getHypeColor(coin.hype_score)}`}>
-                      {(coin.hype_score * 100).toFixed(0)}%
-                    </span>
-                  </td>
-                  
-                  <td className="table-cell">
-                    <div className="text-sm">
-                      <div className="flex items-center space-x-2">
-                        <MessageCircle className="h-3 w-3 text-gray-400" />
-                        <span>{formatGrowth(coin.counts.tweet_count, coin.baseline.tweet_count)}</span>
+                    </td>
+                    
+                    <td className="table-cell">
+                      <div className="flex items-center">
+                        <div>
+                          <div className="text-sm font-medium text-gray-900">
+                            ${coin.symbol}
+                            {coin.velocity?.is_accelerating && (
+                              <span className="badge-success ml-2" title={getVelocityTooltip(coin)}>ACCEL</span>
+                            )}
+                            {coin.fud_spike?.is_fud_spike && (
+                              <span className="badge-warning ml-2" title={getFudTooltip(coin)}>FUD</span>
+                            )}
+                            {coin.collision?.possible_clone && (
+                              <span className="badge-danger ml-2" title={getCloneTooltip(coin)}>CLONE?</span>
+                            )}
+                            {coin.baseline_check?.flagged && (
+                              <span className="badge-warning ml-2" title={getBaselineTooltip(coin)}>BASELINE?</span>
+                            )}
+                            {coin.address_check && coin.address_check.status !== 'unknown_chain' && (
+                              <span className="badge-danger ml-2" title={`${coin.address_check.message}: ${coin.address_check.original}`}>BAD CA</span>
+                            )}
+                          </div>
+                          {coin.name && (
+                            <div className="text-sm text-gray-500">{coin.name}</div>
+                          )}
+                        </div>
+                      </div>
+                    </td>
+                    
+                    <td className="table-cell">
+                      <ChainBadge chain={coin.chain} />
+                    </td>
+                    
+                    <td className="table-cell">
+                      <span className={`badge ${getHypeColor(coin.hype_score)}`} title={getHypeTooltip(coin)}>
+                        {(coin.hype_score * 100).toFixed(0)}%
+                      </span>
+                    </td>
+                    
+                    <td className="table-cell">
+                      {coin.confluence ? (
+                        <span
+                          className={`text-sm ${coin.confluence.score >= (data?.metadata.min_confluence ?? 0) ? 'text-gray-900' : 'text-gray-400'}`}
+                          title={getConfluenceTooltip(coin)}
+                        >
+                          {(coin.confluence.score * 100).toFixed(0)}%
+                          <span className="text-gray-500 ml-1">{coin.confluence.present}/{coin.confluence.windows.length}</span>
+                          {coin.confluence.rising && <TrendingUp className="inline h-3 w-3 text-success-600 ml-1" />}
+                        </span>
+                      ) : (
+                        <span className="text-sm text-gray-400">—</span>
+                      )}
+                    </td>
+                    
+                    <td className="table-cell">
+                      <div className="text-sm">
+                        <div className="flex items-center space-x-2">
+                          <MessageCircle className="h-3 w-3 text-gray-400" />
+                          <span>{formatGrowth(coin.counts.tweet_count, coin.baseline.tweet_count)}</span>
+                        </div>
+                        <div className="flex items-center space-x-2">
+                          <Users className="h-3 w-3 text-gray-400" />
+                          <span>{formatGrowth(coin.counts.unique_authors, coin.baseline.unique_authors)}</span>
+                        </div>
+                        {coin.velocity && (
+                          <div className="flex items-center space-x-2" title={getVelocityTooltip(coin)}>
+                            <Clock className="h-3 w-3 text-gray-400" />
+                            <span>{coin.velocity.mentions_per_min.toFixed(1)}/min</span>
+                          </div>
+                        )}
                       </div>
-                      <div className="flex items-center space-x-2">
-                        <Users className="h-3 w-3 text-gray-400" />
-                        <span>{formatGrowth(coin.counts.unique_authors, coin.baseline.unique_authors)}</span>
+                    </td>
+                    
+                    <td className="table-cell">
+                      <div className="text-sm">
+                        <div>KOL: {coin.counts.kol_count}</div>
+                        <div>Verified: {coin.counts.verified_count}</div>
                       </div>
-                    </div>
-                  </td>
-                  
-                  <td className="table-cell">
-                    <div className="text-sm">
-                      <div>KOL: {coin.counts.kol_count}</div>
-                      <div>Verified: {coin.counts.verified_count}</div>
-                    </div>
-                  </td>
-                  
-                  <td className="table-cell max-w-xs">
-                    <p className="text-sm text-gray-900 truncate" title={coin.reason_short}>
-                      {coin.reason_short}
-                    </p>
-                  </td>
-                  
-                  <td className="table-cell">
-                    <div className="flex space-x-2">
-                      <a
-                        href={`/coin/${coin.chain}/${coin.symbol}`}
-                        className="text-primary-600 hover:text-primary-900 text-sm font-medium"
-                      >
-                        View Details
-                      </a>
-                      {coin.top_tweets.length > 0 && (
+                    </td>
+
+                    <td className="table-cell">
+                      {coin.market ? (
+                        <div className="text-sm">
+                          <div>
+                            {formatPrice(coin.market.price_usd)}{' '}
+                            <span className={getPriceChangeColor(coin.market.price_change_1h)} title="1h price change">
+                              {formatPriceChange(coin.market.price_change_1h)}
+                            </span>
+                          </div>
+                          <div className="text-gray-500">
+                            Liq {formatUsd(coin.market.liquidity_usd)}
+                            {coin.market.low_liquidity && (
+                              <span className="badge-danger ml-2" title="Thin pool: hype here is cheap to fake">LOW</span>
+                            )}
+                          </div>
+                        </div>
+                      ) : (
+                        <span className="text-sm text-gray-400">{coin.market === null ? 'No DEX pair' : '—'}</span>
+                      )}
+                    </td>
+                    
+                    <td className="table-cell max-w-xs">
+                      <p className="text-sm text-gray-900 truncate" title={coin.reason_short}>
+                        {coin.reason_short}
+                      </p>
+                    </td>
+                    
+                    <td className="table-cell">
+                      <div className="flex space-x-2">
+                        <button
+                          onClick={() => toggleWatch(coin)}
+                          className={isWatched(coin) ? 'text-primary-600 hover:text-primary-900' : 'text-gray-400 hover:text-gray-600'}
+                          title={isWatched(coin) ? 'Stop watching' : 'Add to watchlist'}
+                        >
+                          <Eye className="h-4 w-4" />
+                        </button>
                         <a
-                          href={coin.top_tweets[0].url}
-                          target="_blank"
-                          rel="noopener noreferrer"
-                          className="text-gray-400 hover:text-gray-600"
+                          href={`/coin/${coin.chain}/${coin.symbol}${coin.contract_address ? `?address=${encodeURIComponent(coin.contract_address)}` : ''}`}
+                          className="text-primary-600 hover:text-primary-900 text-sm font-medium"
                         >
-                          <ExternalLink className="h-4 w-4" />
+                          View Details
                         </a>
-                      )}
-                    </div>
-                  </td>
-                </tr>
-              ))}
-            </tbody>
-          </table>
-          
-          {data?.coins.length === 0 && (
-            <div className="text-center py-12">
-              <TrendingDown className="h-12 w-12 text-gray-400 mx-auto mb-4" />
-              <h3 className="text-lg font-medium text-gray-900 mb-2">No Trending Coins</h3>
-              <p className="text-gray-600">
-                No coins meet the trending criteria for the {selectedWindow} window.
-              </p>
-            </div>
-          )}
+                        {coin.contract_address && getExplorerUrl(coin.chain, coin.contract_address) && (
+                          <a
+                            href={getExplorerUrl(coin.chain, coin.contract_address)!}
+                            target="_blank"
+                            rel="noopener noreferrer"
+                            className="text-gray-500 hover:text-gray-700 text-sm"
+                            title={`View contract on the ${getChain(coin.chain)?.name} explorer`}
+                          >
+                            Explorer
+                          </a>
+                        )}
+                        {coin.top_tweets.length > 0 && (
+                          <a
+                            href={coin.top_tweets[0].url}
+                            target="_blank"
+                            rel="noopener noreferrer"
+                            className="text-gray-400 hover:text-gray-600"
+                          >
+                            <ExternalLink className="h-4 w-4" />
+                          </a>
+                        )}
+                      </div>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            
+            {data?.coins.length === 0 && (
+              <div className="text-center py-12">
+                <TrendingDown className="h-12 w-12 text-gray-400 mx-auto mb-4" />
+                <h3 className="text-lg font-medium text-gray-900 mb-2">No Trending Coins</h3>
+                <p className="text-gray-600">
+                  No coins meet the trending criteria for the {selectedWindow} window.
+                </p>
+              </div>
+            )}
+          </div>
         </div>
-      </div>
+      )}
+
+      {/* Alert Outcomes */}
+      <AlertPrecisionPanel />
     </div>
   )
 }
\ No newline at end of file
@@ -0,0 +1,150 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { OutcomeCheckpoint, OutcomeDimension, OutcomeReport, OutcomeReportGroup } from '../../lib/schemas'
+import { Target } from 'lucide-react'
+
+const CHECKPOINTS: OutcomeCheckpoint[] = ['15m', '1h', '4h']
+
+const DIMENSIONS: Array<{ id: OutcomeDimension, label: string }> = [
+  { id: 'alert_type', label: 'Alert Type' },
+  { id: 'window', label: 'Window' },
+  { id: 'chain', label: 'Chain' },
+  { id: 'scoring_profile', label: 'Scoring Profile' },
+]
+
+const formatHitRate = (group: OutcomeReportGroup): string =>
+  group.hit_rate === null ? '—' : `${(group.hit_rate * 100).toFixed(0)}%`
+
+const getHitRateColor = (group: OutcomeReportGroup): string => {
+  if (group.hit_rate === null) return 'text-gray-400'
+  if (group.hit_rate >= 0.5) return 'text-success-600'
+  if (group.hit_rate >= 0.3) return 'text-warning-600'
+  return 'text-danger-600'
+}
+
+// How often alerts were followed by continued momentum, from the alert outcome report
+export default function AlertPrecisionPanel() {
+  const [report, setReport] = useState<OutcomeReport | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [checkpoint, setCheckpoint] = useState<OutcomeCheckpoint>('1h')
+  const [dimension, setDimension] = useState<OutcomeDimension>('alert_type')
+  const [days, setDays] = useState(7)
+
+  useEffect(() => {
+    const fetchReport = async () => {
+      try {
+        setError(null)
+        const params = new URLSearchParams({ checkpoint, days: String(days) })
+        const response = await fetch(`/api/api-alert-outcomes?${params}`)
+
+        if (!response.ok) {
+          throw new Error(`HTTP ${response.status}: ${response.statusText}`)
+        }
+
+        setReport(await response.json())
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to fetch alert outcomes')
+      }
+    }
+
+    fetchReport()
+  }, [checkpoint, days])
+
+  const groups = report ? [report.overall, ...(report.by[dimension] ?? [])] : []
+
+  return (
+    <div className="card">
+      <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center mb-4 gap-3">
+        <div className="flex items-center">
+          <Target className="h-6 w-6 text-primary-600 mr-2" />
+          <div>
+            <h2 className="text-lg font-semibold text-gray-900">Alert Precision</h2>
+            <p className="text-xs text-gray-500">
+              Share of alerts whose momentum continued {checkpoint} later
+            </p>
+          </div>
+        </div>
+
+        <div className="flex flex-wrap gap-2">
+          <div className="flex space-x-1 bg-gray-100 rounded-lg p-1">
+            {CHECKPOINTS.map((value) => (
+              <button
+                key={value}
+                onClick={() => setCheckpoint(value)}
+                className={`px-3 py-1 text-sm font-medium rounded-md transition-colors ${
+                  checkpoint === value
+                    ? 'bg-white text-primary-600 shadow-sm'
+                    : 'text-gray-600 hover:text-gray-900'
+                }`}
+              >
+                +{value}
+              </button>
+            ))}
+          </div>
+
+          <select
+            value={dimension}
+            onChange={(e) => setDimension(e.target.value as OutcomeDimension)}
+            className="px-3 py-1.5 text-sm border border-gray-300 rounded-md focus:ring-primary-500 focus:border-primary-500"
+          >
+            {DIMENSIONS.map(({ id, label }) => (
+              <option key={id} value={id}>
+                By {label}
+              </option>
+            ))}
+          </select>
+
+          <select
+            value={days}
+            onChange={(e) => setDays(Number(e.target.value))}
+            className="px-3 py-1.5 text-sm border border-gray-300 rounded-md focus:ring-primary-500 focus:border-primary-500"
+          >
+            {[1, 7, 30].map((value) => (
+              <option key={value} value={value}>
+                Last {value}d
+              </option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
+      {report && report.overall.alerts === 0 && (
+        <p className="text-sm text-gray-600">No alerts sent in the last {days} days.</p>
+      )}
+
+      {report && report.overall.alerts > 0 && (
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="table-header">{DIMENSIONS.find(d => d.id === dimension)?.label}</th>
+                <th className="table-header">Alerts</th>
+                <th className="table-header">Hit Rate</th>
+                <th className="table-header">Continued</th>
+                <th className="table-header">Fizzled</th>
+                <th className="table-header">Reversed</th>
+                <th className="table-header">Pending / No Data</th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {groups.map((group) => (
+                <tr key={group.key} className={group.key === 'all' ? 'font-semibold' : ''}>
+                  <td className="table-cell">{group.key === 'all' ? 'All alerts' : group.key}</td>
+                  <td className="table-cell">{group.alerts}</td>
+                  <td className={`table-cell ${getHitRateColor(group)}`}>{formatHitRate(group)}</td>
+                  <td className="table-cell text-success-600">{group.continued}</td>
+                  <td className="table-cell text-gray-600">{group.fizzled}</td>
+                  <td className="table-cell text-danger-600">{group.reversed}</td>
+                  <td className="table-cell text-gray-400">{group.pending} / {group.no_data}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,11 @@
+import { getChain, getChainColor } from '../../lib/chains'
+
+// Chain code tinted with the chain's brand color from the registry; the full name shows on hover
+export default function ChainBadge({ chain }: { chain: string }) {
+  const color = getChainColor(chain)
+  return (
+    <span className="badge" style={{ color, backgroundColor: `${color}1A` }} title={getChain(chain)?.name ?? chain}>
+      {chain}
+    </span>
+  )
+}
@@ -0,0 +1,244 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { WatchedCoin, WatchedWindow, Watchlist, WatchlistInput, Window } from '../../lib/schemas'
+import { CHAINS } from '../../lib/chains'
+import { Eye, Trash2 } from 'lucide-react'
+import ChainBadge from './ChainBadge'
+
+const WINDOWS: Window[] = ['1m', '5m', '15m', '1h', '4h', '24h']
+
+// Per-watchlist alert thresholds offered in the UI; "default" leaves it to WATCHLIST_MIN_HYPE
+const MIN_HYPE_OPTIONS = [0.2, 0.3, 0.4]
+
+interface WatchlistView {
+  coins: WatchedCoin[]
+}
+
+// Anything this long is a contract address rather than a ticker
+const looksLikeAddress = (value: string): boolean => value.length >= 32
+
+const formatSeen = (iso: string): string => {
+  const minutes = Math.floor((Date.now() - new Date(iso).getTime()) / 60000)
+  if (minutes < 60) return `${minutes}m ago`
+  if (minutes < 24 * 60) return `${Math.floor(minutes / 60)}h ago`
+  return `${Math.floor(minutes / (24 * 60))}d ago`
+}
+
+const shortAddress = (address: string): string => `${address.slice(0, 6)}…${address.slice(-4)}`
+
+function WindowCell({ data }: { data?: WatchedWindow }) {
+  if (!data) return <span className="text-sm text-gray-400">—</span>
+
+  const hype = `${(data.hype_score * 100).toFixed(0)}%`
+  if (data.on_leaderboard) {
+    return (
+      <div className="text-sm">
+        <span className="font-medium text-gray-900">{hype}</span>
+        <span className="text-gray-500 ml-1">#{data.rank}</span>
+      </div>
+    )
+  }
+  return (
+    <span className="text-sm text-gray-400" title={`Off the leaderboard; last seen ${new Date(data.seen_at_iso).toLocaleString()}`}>
+      {hype}
+    </span>
+  )
+}
+
+// Watched coins across every window, live where they're on a leaderboard and from their last snapshot where they've dropped off
+export default function WatchlistPanel({
+  watchlistId,
+  watchlist,
+  onChange,
+}: {
+  watchlistId: string
+  watchlist: Watchlist | null
+  onChange: (input: WatchlistInput) => Promise<void>
+}) {
+  const [view, setView] = useState<WatchlistView | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [chain, setChain] = useState(CHAINS[0].id)
+  const [query, setQuery] = useState('')
+
+  useEffect(() => {
+    if (!watchlist || watchlist.entries.length === 0) {
+      setView(null)
+      return
+    }
+
+    const fetchView = async () => {
+      try {
+        setError(null)
+        const response = await fetch(`/api/api-watchlists?${new URLSearchParams({ id: watchlistId })}`)
+
+        if (!response.ok) {
+          throw new Error(`HTTP ${response.status}: ${response.statusText}`)
+        }
+
+        setView(await response.json())
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to fetch watchlist')
+      }
+    }
+
+    fetchView()
+  }, [watchlistId, watchlist?.updated_at_iso])
+
+  const entries = watchlist?.entries ?? []
+  const alerts = watchlist?.alerts ?? { enabled: true, channels: [] }
+
+  const save = async (input: Partial<WatchlistInput>) => {
+    try {
+      setError(null)
+      await onChange({ entries, alerts, ...input })
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save watchlist')
+    }
+  }
+
+  const addEntry = async () => {
+    const value = query.trim()
+    if (!value) return
+    const entry = looksLikeAddress(value) ? { chain, contract_address: value } : { chain, symbol: value }
+    await save({ entries: [...entries, entry] })
+    setQuery('')
+  }
+
+  return (
+    <div className="card">
+      <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center mb-4 gap-3">
+        <div className="flex items-center">
+          <Eye className="h-6 w-6 text-primary-600 mr-2" />
+          <div>
+            <h2 className="text-lg font-semibold text-gray-900">Watchlist</h2>
+            <p className="text-xs text-gray-500">
+              List ID {watchlistId}. Grayed scores are from the last snapshot after a coin left the leaderboard.
+            </p>
+          </div>
+        </div>
+
+        <div className="flex flex-wrap items-center gap-2">
+          <label className="flex items-center">
+            <input
+              type="checkbox"
+              checked={alerts.enabled}
+              onChange={(e) => save({ alerts: { ...alerts, enabled: e.target.checked } })}
+              className="rounded border-gray-300 text-primary-600 focus:ring-primary-500"
+            />
+            <span className="ml-2 text-sm text-gray-600">Alerts</span>
+          </label>
+
+          <select
+            value={alerts.min_hype_score ?? ''}
+            onChange={(e) => save({ alerts: { ...alerts, min_hype_score: e.target.value ? Number(e.target.value) : undefined } })}
+            disabled={!alerts.enabled}
+            className="px-3 py-1.5 text-sm border border-gray-300 rounded-md focus:ring-primary-500 focus:border-primary-500"
+          >
+            <option value="">Alert from default hype</option>
+            {MIN_HYPE_OPTIONS.map((value) => (
+              <option key={value} value={value}>
+                Alert from {(value * 100).toFixed(0)}% hype
+              </option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      <div className="flex flex-wrap gap-2 mb-4">
+        <select
+          value={chain}
+          onChange={(e) => setChain(e.target.value)}
+          className="px-3 py-1.5 text-sm border border-gray-300 rounded-md focus:ring-primary-500 focus:border-primary-500"
+        >
+          {CHAINS.map((info) => (
+            <option key={info.id} value={info.id}>
+              {info.name}
+            </option>
+          ))}
+        </select>
+        <input
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && addEntry()}
+          placeholder="Symbol or contract address"
+          className="flex-1 min-w-48 px-3 py-1.5 text-sm border border-gray-300 rounded-md focus:ring-primary-500 focus:border-primary-500"
+        />
+        <button onClick={addEntry} className="btn-secondary text-sm">
+          Watch
+        </button>
+      </div>
+
+      {error && <p className="text-sm text-red-600 mb-4">{error}</p>}
+
+      {entries.length === 0 ? (
+        <p className="text-sm text-gray-600">
+          Nothing watched yet. Add a coin above or use Watch on the leaderboard.
+        </p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="table-header">Coin</th>
+                <th className="table-header">Chain</th>
+                {WINDOWS.map((window) => (
+                  <th key={window} className="table-header">{window}</th>
+                ))}
+                <th className="table-header">Last Seen</th>
+                <th className="table-header">Actions</th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {entries.map((entry, index) => {
+                const coin = view?.coins.find(c => c.entry.chain === entry.chain &&
+                  c.entry.symbol === entry.symbol && c.entry.contract_address === entry.contract_address)
+                const symbol = coin?.symbol || entry.symbol
+                const address = coin?.contract_address ?? entry.contract_address
+                return (
+                  <tr key={`${entry.chain}:${entry.contract_address ?? entry.symbol}`} className="hover:bg-gray-50">
+                    <td className="table-cell">
+                      {symbol ? (
+                        <a
+                          href={`/coin/${entry.chain}/${symbol}${address ? `?address=${encodeURIComponent(address)}` : ''}`}
+                          className="text-sm font-medium text-primary-600 hover:text-primary-900"
+                        >
+                          ${symbol}
+                        </a>
+                      ) : (
+                        <span className="text-sm font-medium text-gray-900">Unknown token</span>
+                      )}
+                      {entry.contract_address && (
+                        <div className="text-xs text-gray-500 font-mono" title={entry.contract_address}>{shortAddress(entry.contract_address)}</div>
+                      )}
+                    </td>
+                    <td className="table-cell">
+                      <ChainBadge chain={entry.chain} />
+                    </td>
+                    {WINDOWS.map((window) => (
+                      <td key={window} className="table-cell">
+                        <WindowCell data={coin?.windows[window]} />
+                      </td>
+                    ))}
+                    <td className="table-cell text-sm text-gray-500">
+                      {coin?.last_seen_iso ? formatSeen(coin.last_seen_iso) : 'Not seen yet'}
+                    </td>
+                    <td className="table-cell">
+                      <button
+                        onClick={() => save({ entries: entries.filter((_, i) => i !== index) })}
+                        className="text-gray-400 hover:text-danger-600"
+                        title="Stop watching"
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </button>
+                    </td>
+                  </tr>
+                )
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  )
+}
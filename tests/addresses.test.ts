@@ -0,0 +1,91 @@
+import { describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import { coinKey, isSameCoin, toChecksumAddress, validateContractAddress } from '../lib/addresses'
+
+// Test vectors from EIP-55
+const CHECKSUMMED = '0x5aAeb6053F3E94C9b9A09f33669435E7Ef1BeAed'
+const USDC_MINT = 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v'
+// USDT's jetton master in bounceable, non-bounceable and raw form
+const TON_BOUNCEABLE = 'EQCxE6mUtQJKFnGfaROTKOt1lZbDiiX1kCixRv7Nw2Id_sDs'
+const TON_NON_BOUNCEABLE = 'UQCxE6mUtQJKFnGfaROTKOt1lZbDiiX1kCixRv7Nw2Id_p0p'
+const TON_RAW = '0:b113a994b5024a16719f69139328eb759596c38a25f59028b146fecdc3621dfe'
+
+describe('toChecksumAddress', () => {
+  it('matches the EIP-55 test vectors', () => {
+    for (const address of [CHECKSUMMED, '0xfB6916095ca1df60bB79Ce92cE3Ea74c37c5d359', '0xD1220A0cf47c7B9Be7A2E6BA89F429762e7b9aDb']) {
+      assert.equal(toChecksumAddress(address.toLowerCase()), address)
+    }
+  })
+})
+
+describe('validateContractAddress', () => {
+  it('checksums all-lowercase EVM addresses', () => {
+    assert.deepEqual(validateContractAddress('ETH', CHECKSUMMED.toLowerCase()), { address: CHECKSUMMED })
+  })
+
+  it('rejects a mixed-case EVM address with the wrong checksum', () => {
+    const result = validateContractAddress('BSC', CHECKSUMMED.replace('0x5a', '0x5A'))
+    assert.equal(result.address, null)
+    assert.equal(result.check?.status, 'invalid')
+  })
+
+  it('keeps a 32-byte base58 Solana mint as is', () => {
+    assert.deepEqual(validateContractAddress('SOL', USDC_MINT), { address: USDC_MINT })
+  })
+
+  it('rejects base58 that does not decode to 32 bytes', () => {
+    const result = validateContractAddress('SOL', 'MASi45ub7Qe4ZE36UT5G6cU4ud8Fhhe4deS4F3cw9KTA')
+    assert.equal(result.address, null)
+    assert.equal(result.check?.status, 'invalid')
+  })
+
+  it('rejects characters outside the base58 alphabet', () => {
+    assert.equal(validateContractAddress('SOL', USDC_MINT.replace('E', '0')).check?.status, 'invalid')
+  })
+
+  it('flags an address in another chain\'s format as a chain mismatch', () => {
+    assert.equal(validateContractAddress('SOL', CHECKSUMMED).check?.status, 'chain_mismatch')
+    assert.equal(validateContractAddress('ETH', USDC_MINT).check?.status, 'chain_mismatch')
+  })
+
+  it('trims whitespace and accepts chain aliases', () => {
+    assert.deepEqual(validateContractAddress('solana', ` ${USDC_MINT} `), { address: USDC_MINT })
+  })
+
+  it('stores TON addresses in bounceable form, converting raw and non-bounceable ones', () => {
+    for (const address of [TON_BOUNCEABLE, TON_NON_BOUNCEABLE, TON_RAW]) {
+      assert.deepEqual(validateContractAddress('TON', address), { address: TON_BOUNCEABLE })
+    }
+  })
+
+  it('rejects a TON address with a bad CRC', () => {
+    const result = validateContractAddress('TON', TON_BOUNCEABLE.slice(0, -1) + 't')
+    assert.equal(result.address, null)
+    assert.equal(result.check?.status, 'invalid')
+  })
+
+  it('checks Base addresses like any other EVM chain', () => {
+    assert.deepEqual(validateContractAddress('BASE', CHECKSUMMED.toLowerCase()), { address: CHECKSUMMED })
+    assert.equal(validateContractAddress('BASE', TON_BOUNCEABLE).check?.status, 'chain_mismatch')
+  })
+
+  it('keeps addresses on unknown chains but marks them unverified', () => {
+    const result = validateContractAddress('DOGECHAIN', 'whatever')
+    assert.equal(result.address, 'whatever')
+    assert.equal(result.check?.status, 'unknown_chain')
+  })
+})
+
+describe('coin identity', () => {
+  it('tells apart tokens sharing a symbol by contract address', () => {
+    const a = { symbol: 'PEPE', chain: 'ETH', contract_address: CHECKSUMMED }
+    const b = { symbol: 'PEPE', chain: 'ETH', contract_address: '0xfB6916095ca1df60bB79Ce92cE3Ea74c37c5d359' }
+    assert.equal(isSameCoin(a, b), false)
+    assert.notEqual(coinKey(a), coinKey(b))
+  })
+
+  it('falls back to the symbol when either side has no address', () => {
+    assert.equal(isSameCoin({ symbol: 'pepe', chain: 'ETH', contract_address: CHECKSUMMED }, { symbol: 'PEPE', chain: 'ETH' }), true)
+    assert.equal(isSameCoin({ symbol: 'PEPE', chain: 'ETH' }, { symbol: 'PEPE', chain: 'BSC' }), false)
+  })
+})
@@ -0,0 +1,89 @@
+import { describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import { attachLocalBaselines, compareBaselines, computeLocalBaseline, getBaselineMethod } from '../lib/baselines'
+import { snapshotsFromResponse, MemorySnapshotStore } from '../lib/snapshots'
+import { Counts } from '../lib/schemas'
+import { makeBaseline, makeCoin, makeCounts } from './helpers'
+
+const at = (minutesAgo: number): string => new Date(Date.parse('2026-10-19T12:00:00.000Z') - minutesAgo * 60 * 1000).toISOString()
+const now = at(0)
+const run = (minutesAgo: number, counts: Partial<Counts>) => ({ generated_at_iso: at(minutesAgo), counts: makeCounts(counts) })
+
+describe('getBaselineMethod', () => {
+  it('compares short windows with the previous window and long ones with the 24h average', () => {
+    assert.equal(getBaselineMethod('1m'), 'previous_window')
+    assert.equal(getBaselineMethod('15m'), 'previous_window')
+    assert.equal(getBaselineMethod('1h'), 'avg_24h')
+    assert.equal(getBaselineMethod('24h'), 'avg_24h')
+  })
+})
+
+describe('computeLocalBaseline', () => {
+  it('averages the 5m runs between one and two window lengths ago', () => {
+    const history = [run(12, { tweet_count: 100 }), run(9, { tweet_count: 10 }), run(6, { tweet_count: 20 }), run(2, { tweet_count: 100 })]
+    const { baseline, samples, method } = computeLocalBaseline('5m', now, history)
+    assert.equal(method, 'previous_window')
+    assert.equal(samples, 2)
+    assert.equal(baseline?.tweet_count, 15)
+    assert.equal(baseline?.window, '5m')
+  })
+
+  it('spans at least 5 minutes for the 1m window', () => {
+    const { samples } = computeLocalBaseline('1m', now, [run(1, {}), run(3, {}), run(6, {}), run(7, {})])
+    assert.equal(samples, 3)
+  })
+
+  it('averages every earlier run of the last day for long windows', () => {
+    const history = [run(25 * 60, { kol_count: 9 }), run(20 * 60, { kol_count: 2 }), run(60, { kol_count: 4 })]
+    const { baseline, samples, method } = computeLocalBaseline('4h', now, history)
+    assert.equal(method, 'avg_24h')
+    assert.equal(samples, 2)
+    assert.equal(baseline?.kol_count, 3)
+  })
+
+  it('has no baseline when no run falls in range', () => {
+    const { baseline, samples } = computeLocalBaseline('1h', now, [run(0, {}), run(30 * 60, {})])
+    assert.equal(baseline, null)
+    assert.equal(samples, 0)
+  })
+})
+
+describe('compareBaselines', () => {
+  it('flags counts off by the ratio either way', () => {
+    const disagreements = compareBaselines(makeBaseline({ tweet_count: 120, unique_authors: 2 }), makeBaseline({ tweet_count: 20, unique_authors: 12 }), 3)
+    assert.deepEqual(disagreements.map(d => [d.field, d.ratio]), [['tweet_count', 5.76], ['unique_authors', 0.23]])
+  })
+
+  it('ignores small differences whatever the ratio', () => {
+    assert.deepEqual(compareBaselines(makeBaseline({ kol_count: 2 }), makeBaseline({ kol_count: 0 }), 2), [])
+  })
+})
+
+describe('attachLocalBaselines', () => {
+  const coin = makeCoin({ counts: makeCounts({ tweet_count: 300 }), baseline: makeBaseline({ window: '1h', tweet_count: 150 }) })
+
+  it('scores against history and flags a reported baseline that disagrees', async () => {
+    const store = new MemorySnapshotStore()
+    await store.save(snapshotsFromResponse({
+      coins: [{ ...coin, counts: makeCounts({ tweet_count: 30 }) }],
+      window_used: '1h',
+      generated_at_iso: at(120),
+    }, 'grok'))
+
+    const [result] = await attachLocalBaselines([coin], '1h', now, 'grok', store)
+    assert.equal(result.baseline.tweet_count, 30)
+    assert.equal(result.baseline_check?.source, 'history')
+    assert.equal(result.baseline_check?.samples, 1)
+    assert.equal(result.baseline_check?.reported.tweet_count, 150)
+    assert.equal(result.baseline_check?.flagged, true)
+  })
+
+  it('keeps the reported baseline for a coin without history, unflagged', async () => {
+    const [result] = await attachLocalBaselines([coin], '1h', now, 'grok', new MemorySnapshotStore())
+    assert.equal(result.baseline.tweet_count, 150)
+    assert.equal(result.baseline_check?.source, 'model')
+    assert.equal(result.baseline_check?.samples, 0)
+    assert.equal(result.baseline_check?.local, null)
+    assert.equal(result.baseline_check?.flagged, false)
+  })
+})
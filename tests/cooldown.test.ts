@@ -0,0 +1,77 @@
+import { describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import { CooldownRules, evaluateCooldown } from '../lib/cooldown'
+import { makeAlertRecord, makeCoin, makeCounts } from './helpers'
+
+const rules: CooldownRules = { cooldownMs: 10 * 60 * 1000, hypeEscalationDelta: 0.15, kolEscalationDelta: 2 }
+const sentAt = Date.parse('2026-10-19T12:00:00.000Z')
+const inCooldown = sentAt + 5 * 60 * 1000
+
+describe('evaluateCooldown', () => {
+  it('sends the first alert for a coin', () => {
+    const decision = evaluateCooldown(makeCoin(), 'trending', null, rules, inCooldown)
+    assert.equal(decision.send, true)
+    assert.equal(decision.kind, 'new')
+  })
+
+  it('sends a new alert once the cooldown has expired', () => {
+    const decision = evaluateCooldown(makeCoin(), 'trending', makeAlertRecord(), rules, sentAt + 11 * 60 * 1000)
+    assert.equal(decision.send, true)
+    assert.equal(decision.kind, 'new')
+    assert.equal(decision.reason, 'cooldown expired')
+  })
+
+  it('suppresses a repeat of the same alert type inside the cooldown', () => {
+    const decision = evaluateCooldown(makeCoin(), 'trending', makeAlertRecord(), rules, inCooldown)
+    assert.equal(decision.send, false)
+  })
+
+  it('suppresses a step down the severity ladder', () => {
+    const decision = evaluateCooldown(makeCoin(), 'trending', makeAlertRecord({ alert_type: 'pre_pump' }), rules, inCooldown)
+    assert.equal(decision.send, false)
+  })
+
+  it('sends an update for a step up the severity ladder', () => {
+    const decision = evaluateCooldown(makeCoin(), 'pre_pump', makeAlertRecord({ alert_type: 'trending' }), rules, inCooldown)
+    assert.equal(decision.send, true)
+    assert.equal(decision.kind, 'update')
+    assert.equal(decision.reason, 'trending → pre_pump')
+  })
+
+  it('sends an update when hype rises by the escalation delta', () => {
+    const decision = evaluateCooldown(makeCoin({ hype_score: 0.8 }), 'trending', makeAlertRecord({ hype_score: 0.6 }), rules, inCooldown)
+    assert.equal(decision.send, true)
+    assert.equal(decision.kind, 'update')
+    assert.match(decision.reason, /^hype \+20 pts/)
+  })
+
+  it('holds back a hype rise below the escalation delta', () => {
+    const decision = evaluateCooldown(makeCoin({ hype_score: 0.7 }), 'trending', makeAlertRecord({ hype_score: 0.6 }), rules, inCooldown)
+    assert.equal(decision.send, false)
+  })
+
+  it('sends an update when enough new KOLs join', () => {
+    const coin = makeCoin({ counts: makeCounts({ kol_count: 4 }) })
+    const decision = evaluateCooldown(coin, 'trending', makeAlertRecord({ counts: makeCounts({ kol_count: 1 }) }), rules, inCooldown)
+    assert.equal(decision.send, true)
+    assert.equal(decision.reason, '3 new KOLs joined')
+  })
+
+  it('sends an update when a coin flips into a FUD spike', () => {
+    const decision = evaluateCooldown(makeCoin(), 'fud_spike', makeAlertRecord({ alert_type: 'pre_pump' }), rules, inCooldown)
+    assert.equal(decision.send, true)
+    assert.equal(decision.reason, 'pre_pump → fud_spike')
+  })
+
+  it('sends an update when a coin recovers from a FUD spike', () => {
+    const decision = evaluateCooldown(makeCoin(), 'pre_pump', makeAlertRecord({ alert_type: 'fud_spike' }), rules, inCooldown)
+    assert.equal(decision.send, true)
+    assert.equal(decision.kind, 'update')
+    assert.equal(decision.reason, 'fud_spike → pre_pump')
+  })
+
+  it('suppresses a repeated FUD spike', () => {
+    const decision = evaluateCooldown(makeCoin(), 'fud_spike', makeAlertRecord({ alert_type: 'fud_spike' }), rules, inCooldown)
+    assert.equal(decision.send, false)
+  })
+})
@@ -0,0 +1,128 @@
+import { describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import { buildCustomRule, describeRule, dryRunCustomRule, evaluateCustomRule, getDryRunWindows, matchCustomRule } from '../lib/custom-rules'
+import { CustomAlertRuleInput } from '../lib/schemas'
+import { makeBaseline, makeCoin, makeCounts } from './helpers'
+
+const now = new Date('2026-10-19T12:00:00.000Z')
+const rule = (input: CustomAlertRuleInput) => buildCustomRule('ops', 'test', input, null, now)
+
+// kol_count >= 3 AND tweet_growth >= 3 AND chain = SOL
+const kolSurge = rule({
+  all: [
+    { metric: 'kol_count', op: '>=', value: 3 },
+    { metric: 'tweet_growth', op: '>=', value: 3 },
+    { chains: ['solana'] },
+  ],
+})
+
+const surging = makeCoin({ counts: makeCounts({ kol_count: 4, tweet_count: 40 }), baseline: makeBaseline({ tweet_count: 10 }) })
+
+describe('buildCustomRule', () => {
+  it('fills in defaults and stores chain names as registry codes', () => {
+    assert.equal(kolSurge.name, 'test')
+    assert.deepEqual(kolSurge.windows, ['5m'])
+    assert.equal(kolSurge.max_alerts_per_cycle, 5)
+    assert.deepEqual(kolSurge.all[2], { chains: ['SOL'] })
+    assert.equal(describeRule(kolSurge), 'kol_count >= 3 AND tweet_growth >= 3 AND chain = SOL')
+  })
+})
+
+describe('evaluateCustomRule', () => {
+  it('matches when every condition passes, reporting the actual values', () => {
+    const evaluation = evaluateCustomRule(kolSurge, surging, '5m')
+    assert.equal(evaluation.matched, true)
+    assert.deepEqual(evaluation.all.map(result => result.actual), [4, 4, 'SOL'])
+  })
+
+  it('fails when any `all` condition fails', () => {
+    const evaluation = evaluateCustomRule(kolSurge, makeCoin({ ...surging, chain: 'ETH' }), '5m')
+    assert.equal(evaluation.matched, false)
+    assert.deepEqual(evaluation.all.map(result => result.passed), [true, true, false])
+  })
+
+  it('needs at least one `any` condition when some are given', () => {
+    const withAny = rule({
+      all: [{ metric: 'kol_count', op: '>=', value: 3 }],
+      any: [{ flag: 'accelerating' }, { metric: 'hype_score', op: '>=', value: 0.8 }],
+    })
+    assert.equal(evaluateCustomRule(withAny, surging, '5m').matched, false)
+    assert.equal(evaluateCustomRule(withAny, makeCoin({ ...surging, hype_score: 0.85 }), '5m').matched, true)
+  })
+
+  it('treats a zero baseline as no growth', () => {
+    const coin = makeCoin({ ...surging, baseline: makeBaseline({ tweet_count: 0 }) })
+    assert.equal(evaluateCustomRule(kolSurge, coin, '5m').all[1].actual, 0)
+  })
+
+  it('fails market conditions for coins without DEX data', () => {
+    const liquid = rule({ all: [{ metric: 'liquidity_usd', op: '>=', value: 50000 }] })
+    const result = evaluateCustomRule(liquid, surging, '5m').all[0]
+    assert.equal(result.passed, false)
+    assert.equal(result.actual, null)
+  })
+
+  it('reads a window-pinned condition from that window, failing when the coin is absent there', () => {
+    const pinned = rule({ all: [{ metric: 'hype_score', op: '>=', value: 0.7, window: '15m' }] })
+    const in15m = makeCoin({ hype_score: 0.75 })
+
+    assert.equal(evaluateCustomRule(pinned, surging, '5m', { '5m': surging, '15m': in15m }).matched, true)
+    const absent = evaluateCustomRule(pinned, surging, '5m', { '5m': surging })
+    assert.equal(absent.matched, false)
+    assert.equal(absent.all[0].actual, null)
+  })
+
+  it('supports negated flags', () => {
+    const notAccelerating = rule({ all: [{ flag: 'accelerating', is: false }] })
+    assert.equal(evaluateCustomRule(notAccelerating, surging, '5m').matched, true)
+  })
+})
+
+describe('matchCustomRule', () => {
+  const hot = (symbol: string, hype: number, contract_address: string) =>
+    makeCoin({ ...surging, symbol, hype_score: hype, contract_address })
+
+  const a = hot('AAA', 0.5, 'So11111111111111111111111111111111111111112')
+  const b = hot('BBB', 0.9, 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v')
+  const c = hot('CCC', 0.7, '8C1DzDqk2W8JfT3GbsRyfMn641mCi4omNGMNf5CbMJhz')
+
+  it('ranks matches by hype and caps them at max_alerts_per_cycle', () => {
+    const capped = { ...kolSurge, max_alerts_per_cycle: 2 }
+    const { matches, evaluated } = matchCustomRule(capped, { '5m': [a, b, c, makeCoin({ chain: 'ETH', contract_address: null })] })
+    assert.equal(evaluated, 4)
+    assert.deepEqual(matches.map(match => match.coin.symbol), ['BBB', 'CCC'])
+  })
+
+  it('counts a coin matching in several windows once, in the first of the rule windows', () => {
+    const multi = { ...kolSurge, windows: ['15m' as const, '5m' as const] }
+    const { matches } = matchCustomRule(multi, { '5m': [a, b], '15m': [b] }, Infinity)
+    assert.deepEqual(matches.map(match => [match.coin.symbol, match.window]), [['BBB', '15m'], ['AAA', '5m']])
+  })
+
+  it('skips windows whose leaderboard is missing', () => {
+    const { matches, evaluated } = matchCustomRule({ ...kolSurge, windows: ['1h'] }, { '5m': [a] })
+    assert.equal(evaluated, 0)
+    assert.equal(matches.length, 0)
+  })
+})
+
+describe('dryRunCustomRule', () => {
+  const confirmed = rule({ all: [{ metric: 'confluence', op: '>=', value: 0.8 }] })
+  const fetched = {
+    '15m': [makeCoin({ hype_score: 0.4 })],
+    '5m': [makeCoin({ hype_score: 0.5 })],
+    '1m': [makeCoin({ hype_score: 0.7 })],
+  }
+
+  it('fetches the confluence windows along with the rule windows', () => {
+    assert.deepEqual(getDryRunWindows(confirmed), ['5m', '15m', '1m'])
+  })
+
+  it('attaches confluence before matching, as a send-alerts cycle does', () => {
+    assert.equal(matchCustomRule(confirmed, fetched, Infinity).matches.length, 0)
+
+    const { matches } = dryRunCustomRule(confirmed, fetched)
+    assert.equal(matches.length, 1)
+    assert.deepEqual(matches[0].evaluation.all.map(result => [result.passed, result.actual]), [[true, 1]])
+  })
+})
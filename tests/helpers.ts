@@ -0,0 +1,54 @@
+import { AlertRecord, Baseline, Coin, Counts } from '../lib/schemas'
+
+export const makeCounts = (overrides: Partial<Counts> = {}): Counts => ({
+  tweet_count: 40,
+  unique_authors: 20,
+  verified_count: 2,
+  kol_count: 1,
+  cashtag_count: 30,
+  hashtag_count: 5,
+  new_wallet_signals: 0,
+  ...overrides,
+})
+
+export const makeBaseline = (overrides: Partial<Baseline> = {}): Baseline => ({
+  window: '5m',
+  tweet_count: 10,
+  unique_authors: 8,
+  verified_count: 1,
+  kol_count: 0,
+  cashtag_count: 8,
+  hashtag_count: 2,
+  ...overrides,
+})
+
+export const makeCoin = (overrides: Partial<Coin> = {}): Coin => ({
+  symbol: 'ZAPCAT',
+  chain: 'SOL',
+  name: 'Zap Cat',
+  contract_address: '8C1DzDqk2W8JfT3GbsRyfMn641mCi4omNGMNf5CbMJhz',
+  cashtags: ['$ZAPCAT'],
+  hashtags: [],
+  top_tweets: [],
+  counts: makeCounts(),
+  baseline: makeBaseline(),
+  sentiment: 0.4,
+  grok_hype: 0.6,
+  reason_short: 'KOLs piling in',
+  hype_score: 0.6,
+  ...overrides,
+})
+
+export const makeAlertRecord = (overrides: Partial<AlertRecord> = {}): AlertRecord => ({
+  id: 'alert-1',
+  symbol: 'ZAPCAT',
+  chain: 'SOL',
+  contract_address: '8C1DzDqk2W8JfT3GbsRyfMn641mCi4omNGMNf5CbMJhz',
+  window: '5m',
+  alert_type: 'trending',
+  hype_score: 0.6,
+  counts: makeCounts(),
+  sent_at_iso: '2026-10-19T12:00:00.000Z',
+  kind: 'new',
+  ...overrides,
+})